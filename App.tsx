@@ -1,10 +1,35 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { DrillState, DrillCommand } from './types';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { AudioBackend, DisplaySettings, DrillCadence, DrillConstraints, DrillPositions, DrillState, DrillCommand, DrillOutcome, DrillMode, NoiseSettings, TAndE, VoiceSettings, WeaponProfile } from './types';
 import DrillConfiguration from './components/DrillConfiguration';
 import DrillRunner from './components/DrillRunner';
 import DrillResult from './components/DrillResult';
-import { generateDrill } from './services/drillGenerator';
-import { commandPlayer } from './services/speech';
+import HistoryView from './components/HistoryView';
+import RosterView from './components/RosterView';
+import SquadSummary from './components/SquadSummary';
+import QualificationView from './components/QualificationView';
+import QualificationSummary from './components/QualificationSummary';
+import ProgramView from './components/ProgramView';
+import RangeCardView from './components/RangeCardView';
+import DrillEditor from './components/DrillEditor';
+import DisplaySettingsControl from './components/DisplaySettingsControl';
+import { DEFAULT_CONSTRAINTS, DEFAULT_POSITIONS, findDrillProblem, generateDrill, parseClickValues } from './services/drillGenerator';
+import { commandPlayer, defaultAudioBackend } from './services/playback';
+import { randomSeed, parseSeed, formatSeed } from './services/random';
+import { encodeDrillCode, decodeDrillCode, readDrillCodeFromUrl } from './services/drillCode';
+import { recordSession } from './services/history';
+import { isDrillPassed } from './services/scoring';
+import { Trainee, SquadSession, createSquadSession, recordSquadResult } from './services/roster';
+import { PresetSettings, QualificationStageResult, QualificationTable, loadLastConfig, saveLastConfig } from './services/presets';
+import { ADAPTIVE_LEVELS, loadAdaptiveLevel, nextAdaptiveLevel, saveAdaptiveLevel, withAdaptiveLevel } from './services/adaptive';
+import { ProgramProgress, ProgramUpdate, TrainingProgram, programDay, recordProgramResult } from './services/programs';
+import { CalloutDrill, RangeCard, generateCalloutDrill } from './services/rangeCards';
+import { CustomDrill, createCustomDrill } from './services/customDrills';
+import { gunCount } from './services/commands';
+import { DEFAULT_PROFILE, normalizeProfile } from './services/weaponProfiles';
+import { DEFAULT_VOICE_SETTINGS } from './services/phrasing';
+import { DEFAULT_CADENCE, applyCadence } from './services/cadence';
+import { DEFAULT_NOISE_SETTINGS } from './services/backgroundNoise';
+import { applyDisplayTheme, loadDisplaySettings, saveDisplaySettings } from './services/display';
 import { TargetIcon } from './components/Icons';
 
 export interface DrillConfig {
@@ -12,97 +37,583 @@ export interface DrillConfig {
   clickValues: string; // Keep as string to bind directly to input
   commandInterval: number;
   voiceEnabled: boolean;
+  audioBackend: AudioBackend;
+  voice: VoiceSettings;
   ttsSpeedMultiplier: number;
   ttsManualSpeed: boolean;
-  maxTAndE: number;
+  weaponProfile: WeaponProfile;
+  mode: DrillMode;
+  seed: string; // Base-36 seed; blank picks a random one for each drill
+  compoundRatio: number; // Share of commands (0 to 1) that move both axes
+  constraints: DrillConstraints;
+  positions: DrillPositions; // Where drills start and must end
+  cadence: DrillCadence; // How the time between commands varies; `fixed` uses commandInterval
+  distractorRate: number; // Share of commands (0 to 1) given a called-off wrong move first
+  noise: NoiseSettings; // Background sound played under the commands
+  adaptive: boolean; // Take the commands, click values and interval from the adaptive level instead
+  guns: number; // Guns in the section, each with its own T&E; 1 for a single gun
 }
 
+// Settings that change which commands a drill contains.
+const DRILL_DEFINING_KEYS: (keyof DrillConfig)[] = ['numCommands', 'clickValues', 'weaponProfile', 'compoundRatio', 'constraints', 'positions', 'distractorRate', 'adaptive', 'guns'];
+
+// Qualification and program stages run fresh single-gun drills at the stage's own fixed interval, without distractors.
+const presetStageConfig = (config: DrillConfig, settings: PresetSettings): DrillConfig =>
+  ({ ...config, ...settings, cadence: DEFAULT_CADENCE, distractorRate: 0, guns: 1, seed: '' });
+
+// Generates the drill a configuration describes with a given seed.
+const generateConfiguredDrill = (config: DrillConfig, seed: number) =>
+  generateDrill(config.numCommands, parseClickValues(config.clickValues), config.weaponProfile.limits, seed, {
+    endAnywhere: config.mode === 'quiz',
+    compoundRatio: config.compoundRatio,
+    constraints: config.constraints,
+    positions: config.positions,
+    distractorRate: config.distractorRate,
+    guns: config.guns,
+  });
+
+const qualificationStageConfig = (config: DrillConfig, table: QualificationTable, index: number): DrillConfig =>
+  presetStageConfig(config, table.stages[index].settings);
+
+const programStageConfig = (config: DrillConfig, program: TrainingProgram, index: number): DrillConfig =>
+  presetStageConfig(config, program.stages[index].preset.settings);
+
+// What a drill did to the trainee's program progress, for the result screen.
+const programNotice = (program: TrainingProgram, { progress, goalMet, stageCleared }: ProgramUpdate): string => {
+  if (stageCleared) {
+    const next = program.stages[progress.stageIndex];
+    return next ? `Stage cleared! ${next.preset.name} is unlocked.` : `${program.name} complete!`;
+  }
+  if (goalMet) return `Today's goal of ${program.dailyGoal} passed drills is met.`;
+  const today = programDay(progress, progress.stageIndex);
+  return `Today: ${Math.min(today.passes, program.dailyGoal)} / ${program.dailyGoal} drills passed.`;
+};
+
+const adaptiveNotice = (level: number, next: number): string =>
+  next > level ? `Level up: ${level} → ${next}`
+    : next < level ? `Level down: ${level} → ${next}`
+    : `Staying at level ${level}`;
+
 const App: React.FC = () => {
   const [drillState, setDrillState] = useState<DrillState>('configuring');
   const [commands, setCommands] = useState<DrillCommand[]>([]);
-  const [finalTAndE, setFinalTAndE] = useState<{ traverse: number; elevation: number }>({ traverse: 0, elevation: 0 });
-  const [drillConfig, setDrillConfig] = useState<DrillConfig>({
-    numCommands: 10,
-    clickValues: '5, 10',
-    commandInterval: 1,
-    voiceEnabled: true,
-    ttsSpeedMultiplier: 2,
-    ttsManualSpeed: false,
-    maxTAndE: 25,
+  const [outcome, setOutcome] = useState<DrillOutcome>({ commanded: { traverse: 0, elevation: 0 } });
+  // A drill code in the URL (`?drill=...`) pre-loads a shared drill.
+  const [sharedDrill] = useState(readDrillCodeFromUrl);
+  // A shared literal command list is used as-is until a setting that defines the drill changes.
+  const [sharedCommands, setSharedCommands] = useState<DrillCommand[] | null>(sharedDrill?.commands ?? null);
+  // Random positions are drawn for each drill, so the running drill keeps the ones it got.
+  const [activeDrill, setActiveDrill] = useState<{ seed?: number; code: string; positions: DrillPositions }>({ code: '', positions: DEFAULT_POSITIONS });
+  // In a squad drill the trainees take turns on the same commands.
+  const [squad, setSquad] = useState<{ trainees: Trainee[]; index: number; session: SquadSession } | null>(null);
+  // A qualification table runs its stages in turn, each with its own preset settings.
+  const [qualification, setQualification] = useState<{ table: QualificationTable; index: number; results: QualificationStageResult[] } | null>(null);
+  // A target-callout drill calls range card targets by name, at its own pace.
+  const [callout, setCallout] = useState<{ drill: CalloutDrill; commandInterval: number } | null>(null);
+  // A program drill runs the trainee's current stage; the update is what the result did to their progress.
+  const [program, setProgram] = useState<{ program: TrainingProgram; trainee: Trainee; stageIndex: number; progress: ProgramProgress; update?: ProgramUpdate } | null>(null);
+  // The drill open in the editor; its seed is kept until it is changed by hand, so it can still run from a seed.
+  const [preview, setPreview] = useState<{ drill: CustomDrill; seed?: number } | null>(null);
+  // The adaptive level reached so far, and the level the running adaptive drill started at.
+  const [adaptiveLevel, setAdaptiveLevel] = useState(loadAdaptiveLevel);
+  const [adaptiveRun, setAdaptiveRun] = useState<{ level: number; next?: number } | null>(null);
+  // How the app is shown is saved apart from the drill settings, and can change mid-drill.
+  const [display, setDisplay] = useState<DisplaySettings>(loadDisplaySettings);
+  const [drillConfig, setDrillConfig] = useState<DrillConfig>(() => {
+    // Settings from the last visit, with defaults for anything added since.
+    const lastConfig = loadLastConfig();
+    return {
+      numCommands: 10,
+      clickValues: '5, 10',
+      commandInterval: 1,
+      voiceEnabled: true,
+      audioBackend: defaultAudioBackend(),
+      ttsSpeedMultiplier: 2,
+      ttsManualSpeed: false,
+      mode: 'watch',
+      compoundRatio: 0,
+      distractorRate: 0,
+      adaptive: false,
+      guns: 1,
+      ...lastConfig,
+      weaponProfile: lastConfig.weaponProfile ? normalizeProfile(lastConfig.weaponProfile) : DEFAULT_PROFILE,
+      voice: { ...DEFAULT_VOICE_SETTINGS, ...lastConfig.voice },
+      constraints: { ...DEFAULT_CONSTRAINTS, ...lastConfig.constraints },
+      positions: { ...DEFAULT_POSITIONS, ...lastConfig.positions },
+      cadence: { ...DEFAULT_CADENCE, ...lastConfig.cadence },
+      noise: { ...DEFAULT_NOISE_SETTINGS, ...lastConfig.noise },
+      ...sharedDrill?.config,
+      // A shared drill runs as sent, not at the adaptive level.
+      ...(sharedDrill && { adaptive: false }),
+      seed: sharedDrill?.seed !== undefined ? formatSeed(sharedDrill.seed) : '',
+    };
   });
 
+  // The settings of the drill being run: a qualification or program stage, callout drill or adaptive level overrides the setup screen.
+  const activeConfig = useMemo<DrillConfig>(() => {
+    const base = qualification ? qualificationStageConfig(drillConfig, qualification.table, qualification.index)
+      : program ? programStageConfig(drillConfig, program.program, program.stageIndex)
+      : callout ? { ...drillConfig, mode: 'interactive' as const, commandInterval: callout.commandInterval, cadence: DEFAULT_CADENCE, guns: 1, seed: '' }
+      : adaptiveRun ? withAdaptiveLevel(drillConfig, adaptiveRun.level)
+      : drillConfig;
+    return { ...base, positions: activeDrill.positions };
+  }, [drillConfig, qualification, program, callout, adaptiveRun, activeDrill]);
+
   useEffect(() => {
-    // A small trick to "warm up" the speech synthesis engine on some browsers,
+    // A small trick to "warm up" the playback engine on some browsers,
     // reducing the delay of the first spoken command in the drill.
     commandPlayer.warmUp();
   }, []);
 
+  useEffect(() => {
+    commandPlayer.setBackend(drillConfig.audioBackend);
+  }, [drillConfig.audioBackend]);
+
+  useEffect(() => {
+    applyDisplayTheme(display.theme);
+    saveDisplaySettings(display);
+  }, [display]);
+
+  useEffect(() => {
+    saveLastConfig(drillConfig);
+  }, [drillConfig]);
+
   const handleConfigChange = useCallback((newConfig: Partial<DrillConfig>) => {
     setDrillConfig(prev => ({ ...prev, ...newConfig }));
+    if (DRILL_DEFINING_KEYS.some(key => key in newConfig)) {
+      setSharedCommands(null);
+    }
   }, []);
 
-  const handleStartDrill = useCallback(() => {
-    const parsedValues = drillConfig.clickValues
-      .split(',')
-      .map(v => parseInt(v.trim(), 10))
-      .filter(v => !isNaN(v) && v > 0);
+  const handleLoadDrillCode = useCallback((code: string): boolean => {
+    const shared = decodeDrillCode(code);
+    if (!shared) return false;
+    setDrillConfig(prev => ({
+      ...prev,
+      ...shared.config,
+      adaptive: false,
+      seed: shared.seed !== undefined ? formatSeed(shared.seed) : '',
+    }));
+    setSharedCommands(shared.commands ?? null);
+    return true;
+  }, []);
 
-    if (parsedValues.length > 0) {
-      if (drillConfig.voiceEnabled) {
-        commandPlayer.preload(parsedValues);
+  /**
+   * Builds a drill and switches to running it.
+   * @param config - The settings to build the drill from.
+   * @param shared - A fixed command list to run instead of generating one.
+   * @returns The drill code of the started drill, or why the settings give no drill.
+   */
+  const startDrill = useCallback((config: DrillConfig, shared: DrillCommand[] | null): { code: string } | { problem: string } => {
+    const parsedValues = parseClickValues(config.clickValues);
+
+    if (shared) {
+      if (config.voiceEnabled) {
+        commandPlayer.preload(shared, config.weaponProfile, config.voice);
+      }
+      const code = encodeDrillCode(config, { commands: shared });
+      setCommands(applyCadence(shared, config.cadence, config.commandInterval));
+      setActiveDrill({ code, positions: config.positions });
+      setDrillState('running');
+      return { code };
+    } else if (parsedValues.length > 0) {
+      const seed = parseSeed(config.seed) ?? randomSeed();
+      const { commands: drill, start, target, problem } = generateConfiguredDrill(config, seed);
+      if (drill.length === 0) {
+        // The setup screens check for this first, but only with a few sample seeds; this seed may still give up.
+        return { problem: problem ?? 'No drill could be generated with these settings.' };
+      }
+      if (config.voiceEnabled) {
+        commandPlayer.preload(drill, config.weaponProfile, config.voice);
       }
-      setCommands(generateDrill(drillConfig.numCommands, parsedValues, drillConfig.maxTAndE));
+      // The drill code carries the positions drawn, so it runs this exact drill again.
+      const positions = { start, target, random: false };
+      const code = encodeDrillCode({ ...config, positions }, { seed });
+      // Jitter is drawn from the seed too, so the code also repeats the timing.
+      setCommands(applyCadence(drill, config.cadence, config.commandInterval, seed));
+      setActiveDrill({ seed, code, positions });
       setDrillState('running');
+      return { code };
+    }
+    // Invalid click values are reported by the configuration component before it starts a drill.
+    return { problem: 'Enter at least one click value.' };
+  }, []);
+
+  const handleStartDrill = useCallback((): string | null => {
+    // A drill started from the setup screen is no one's squad turn.
+    setSquad(null);
+    setQualification(null);
+    setCallout(null);
+    setProgram(null);
+    const started = drillConfig.adaptive
+      ? startDrill(withAdaptiveLevel(drillConfig, adaptiveLevel), null)
+      : startDrill(drillConfig, sharedCommands);
+    setAdaptiveRun(drillConfig.adaptive ? { level: adaptiveLevel } : null);
+    return 'problem' in started ? started.problem : null;
+  }, [startDrill, drillConfig, sharedCommands, adaptiveLevel]);
+
+  const handleEditDrill = useCallback((): string | null => {
+    if (sharedCommands) {
+      setPreview({ drill: createCustomDrill(sharedCommands, drillConfig.positions.start, drillConfig.positions.target) });
+    } else {
+      const seed = parseSeed(drillConfig.seed) ?? randomSeed();
+      const { commands: drill, start, target, problem } = generateConfiguredDrill(drillConfig, seed);
+      // The setup screen checks the settings first, but only with a few sample seeds.
+      if (drill.length === 0) return problem ?? 'No drill could be generated with these settings.';
+      setPreview({ drill: createCustomDrill(drill, start, target), seed });
+    }
+    setDrillState('preview');
+    return null;
+  }, [drillConfig, sharedCommands]);
+
+  const handleRegenerateDrill = useCallback(() => {
+    const seed = randomSeed();
+    const { commands: drill, start, target } = generateConfiguredDrill(drillConfig, seed);
+    if (drill.length > 0) {
+      setPreview({ drill: createCustomDrill(drill, start, target), seed });
     }
-    // Error handling for invalid clickValues can be done in the configuration component
   }, [drillConfig]);
 
-  const handleFinishDrill = useCallback((finalTraverse: number, finalElevation: number) => {
-    setFinalTAndE({ traverse: finalTraverse, elevation: finalElevation });
-    setDrillState('finished');
+  const handleChangePreview = useCallback((drill: CustomDrill) => {
+    // Naming or saving a drill keeps its seed; changing its commands or positions drops it.
+    setPreview(prev => prev && {
+      drill,
+      seed: drill.commands === prev.drill.commands && drill.start === prev.drill.start && drill.target === prev.drill.target ? prev.seed : undefined,
+    });
   }, []);
 
+  const handleStartPreview = useCallback(() => {
+    if (!preview) return;
+    const { drill, seed } = preview;
+    setSquad(null);
+    setQualification(null);
+    setCallout(null);
+    setProgram(null);
+    setAdaptiveRun(null);
+    if (seed !== undefined) {
+      startDrill({ ...drillConfig, seed: formatSeed(seed) }, null);
+    } else {
+      const positions = { start: drill.start, target: drill.target, random: false };
+      startDrill({ ...drillConfig, positions, numCommands: drill.commands.length, guns: gunCount(drill.commands) }, drill.commands);
+    }
+  }, [preview, drillConfig, startDrill]);
+
+  const handleResetAdaptiveLevel = useCallback(() => {
+    setAdaptiveLevel(1);
+    saveAdaptiveLevel(1);
+  }, []);
+
+  const handleStartSquad = useCallback((trainees: Trainee[]) => {
+    // Every trainee runs the same command list, so the drill is generated once.
+    const started = startDrill(drillConfig, sharedCommands);
+    setQualification(null);
+    setCallout(null);
+    setProgram(null);
+    setAdaptiveRun(null);
+    if ('code' in started) {
+      setSquad({ trainees, index: 0, session: createSquadSession(drillConfig.mode, started.code) });
+    }
+  }, [startDrill, drillConfig, sharedCommands]);
+
+  const handleStartTable = useCallback((table: QualificationTable) => {
+    if ('code' in startDrill(qualificationStageConfig(drillConfig, table, 0), null)) {
+      setSquad(null);
+      setCallout(null);
+      setProgram(null);
+      setAdaptiveRun(null);
+      setQualification({ table, index: 0, results: [] });
+    }
+  }, [startDrill, drillConfig]);
+
+  const handleStartProgramStage = useCallback((trainingProgram: TrainingProgram, trainee: Trainee, progress: ProgramProgress) => {
+    if ('code' in startDrill(programStageConfig(drillConfig, trainingProgram, progress.stageIndex), null)) {
+      setSquad(null);
+      setCallout(null);
+      setQualification(null);
+      setAdaptiveRun(null);
+      setProgram({ program: trainingProgram, trainee, stageIndex: progress.stageIndex, progress });
+    }
+  }, [startDrill, drillConfig]);
+
+  const handleStartCallout = useCallback((card: RangeCard, count: number, commandInterval: number) => {
+    const drill = generateCalloutDrill(card, count);
+    if (drillConfig.voiceEnabled) {
+      commandPlayer.preload(drill.commands, drillConfig.weaponProfile, drillConfig.voice);
+    }
+    setSquad(null);
+    setQualification(null);
+    setProgram(null);
+    setAdaptiveRun(null);
+    setCallout({ drill, commandInterval });
+    setCommands(drill.commands);
+    // A callout drill has no drill code: it is defined by the range card, not the drill settings.
+    setActiveDrill({ code: '', positions: { start: { traverse: 0, elevation: 0 }, target: drill.target, random: false } });
+    setDrillState('running');
+  }, [drillConfig]);
+
+  const recordResult = useCallback((drillOutcome: DrillOutcome) => {
+    recordSession(activeConfig, commands, activeDrill.seed, drillOutcome);
+    const passed = isDrillPassed(drillOutcome);
+    if (squad) {
+      const session = recordSquadResult(squad.session, squad.trainees[squad.index], commands.length, drillOutcome);
+      setSquad({ ...squad, session });
+    }
+    if (qualification) {
+      const results = [...qualification.results];
+      results[qualification.index] = {
+        name: qualification.table.stages[qualification.index].name,
+        passed,
+        drillCode: activeDrill.code,
+      };
+      setQualification({ ...qualification, results });
+    }
+    if (program) {
+      const update = recordProgramResult(program.program, program.progress, passed);
+      setProgram({ ...program, progress: update.progress, update });
+    }
+    if (adaptiveRun) {
+      const next = nextAdaptiveLevel(adaptiveRun.level, passed);
+      setAdaptiveLevel(next);
+      saveAdaptiveLevel(next);
+      setAdaptiveRun({ ...adaptiveRun, next });
+    }
+  }, [activeConfig, commands, activeDrill, squad, qualification, program, adaptiveRun]);
+
+  const handleFinishDrill = useCallback((drillOutcome: DrillOutcome) => {
+    // A quiz is only recorded once the trainee has called the final setting.
+    if (activeConfig.mode !== 'quiz') {
+      recordResult(drillOutcome);
+    }
+    setOutcome(drillOutcome);
+    setDrillState('finished');
+  }, [activeConfig, recordResult]);
+
+  const handleQuizAnswer = useCallback((answer: TAndE) => {
+    const correct = answer.traverse === outcome.commanded.traverse && answer.elevation === outcome.commanded.elevation;
+    const answeredOutcome = { ...outcome, quiz: { answer, correct } };
+    recordResult(answeredOutcome);
+    setOutcome(answeredOutcome);
+  }, [outcome, recordResult]);
+
+  const handleNextTrainee = useCallback(() => {
+    if (!squad) return;
+    commandPlayer.stop();
+    if (squad.index + 1 < squad.trainees.length) {
+      setSquad({ ...squad, index: squad.index + 1 });
+      setDrillState('running');
+    } else {
+      setDrillState('squadSummary');
+    }
+  }, [squad]);
+
+  const handleNextStage = useCallback(() => {
+    if (!qualification) return;
+    commandPlayer.stop();
+    const { table, index } = qualification;
+    // A quiz left unanswered counts as a failed stage.
+    const results = [...qualification.results];
+    results[index] ??= { name: table.stages[index].name, passed: false, drillCode: activeDrill.code };
+    if (index + 1 < table.stages.length) {
+      setQualification({ table, index: index + 1, results });
+      startDrill(qualificationStageConfig(drillConfig, table, index + 1), null);
+    } else {
+      setQualification({ ...qualification, results });
+      setDrillState('qualificationSummary');
+    }
+  }, [qualification, activeDrill, startDrill, drillConfig]);
+
   const handleReset = useCallback(() => {
     commandPlayer.stop();
     setCommands([]);
+    setSquad(null);
+    setQualification(null);
+    setCallout(null);
+    setProgram(null);
+    setAdaptiveRun(null);
     setDrillState('configuring');
   }, []);
 
+  const handleNextAdaptive = useCallback(() => {
+    commandPlayer.stop();
+    // Settings that give no drill at the new level are reported by the setup screen.
+    if (findDrillProblem(withAdaptiveLevel(drillConfig, adaptiveLevel)) || handleStartDrill() !== null) {
+      handleReset();
+    }
+  }, [drillConfig, adaptiveLevel, handleReset, handleStartDrill]);
+
+  const handleShowRangeCards = useCallback(() => {
+    commandPlayer.stop();
+    setCallout(null);
+    setDrillState('rangeCards');
+  }, []);
+
+  const handleShowRoster = useCallback(() => {
+    setDrillState('roster');
+  }, []);
+
+  const handleShowQualification = useCallback(() => {
+    setDrillState('qualification');
+  }, []);
+
+  const handleShowProgram = useCallback(() => {
+    // The program stays selected so the view opens on the same trainee and program.
+    commandPlayer.stop();
+    setDrillState('program');
+  }, []);
+
+  const handleShowHistory = useCallback(() => {
+    setDrillState('history');
+  }, []);
+
+  const navClass = (active: boolean) => active ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-400';
+
+  // The check can run a full drill search, so it is only redone when the settings change, not on every render.
+  const rosterProblem = useMemo(
+    () => drillState === 'roster' && !sharedCommands ? findDrillProblem(drillConfig) : null,
+    [drillState, drillConfig, sharedCommands]
+  );
+
   const renderContent = () => {
     switch (drillState) {
+      case 'history':
+        return <HistoryView config={drillConfig} onClose={handleReset} />;
+      case 'roster':
+        return <RosterView
+                  onStartSquad={handleStartSquad}
+                  drillProblem={rosterProblem}
+                  onClose={handleReset}
+                />;
+      case 'qualification':
+        return <QualificationView config={drillConfig} onStartTable={handleStartTable} onClose={handleReset} />;
+      case 'program':
+        return <ProgramView
+                  config={drillConfig}
+                  traineeId={program?.trainee.id}
+                  programId={program?.program.id}
+                  onStartStage={handleStartProgramStage}
+                  onShowRoster={handleShowRoster}
+                  onClose={handleReset}
+                />;
+      case 'preview':
+        return preview && <DrillEditor
+                  config={drillConfig}
+                  drill={preview.drill}
+                  seed={preview.seed}
+                  onChange={handleChangePreview}
+                  onRegenerate={handleRegenerateDrill}
+                  onStart={handleStartPreview}
+                  onClose={handleReset}
+                />;
+      case 'rangeCards':
+        return <RangeCardView config={drillConfig} onStartCallout={handleStartCallout} onClose={handleReset} />;
+      case 'qualificationSummary':
+        return qualification && <QualificationSummary table={qualification.table} results={qualification.results} onClose={handleReset} />;
+      case 'squadSummary':
+        return squad && <SquadSummary session={squad.session} profile={drillConfig.weaponProfile} onClose={handleReset} />;
       case 'running':
         return <DrillRunner 
                   commands={commands} 
                   onFinish={handleFinishDrill} 
                   onReset={handleReset} 
-                  commandInterval={drillConfig.commandInterval} 
-                  voiceEnabled={drillConfig.voiceEnabled}
-                  ttsManualSpeed={drillConfig.ttsManualSpeed}
-                  ttsSpeedMultiplier={drillConfig.ttsSpeedMultiplier}
-                  maxTAndE={drillConfig.maxTAndE}
+                  commandInterval={activeConfig.commandInterval} 
+                  voiceEnabled={activeConfig.voiceEnabled}
+                  ttsManualSpeed={activeConfig.ttsManualSpeed}
+                  ttsSpeedMultiplier={activeConfig.ttsSpeedMultiplier}
+                  voice={activeConfig.voice}
+                  noise={activeConfig.noise}
+                  profile={activeConfig.weaponProfile}
+                  mode={activeConfig.mode}
+                  start={activeConfig.positions.start}
+                  target={activeConfig.positions.target}
+                  seed={activeDrill.seed}
+                  traineeName={squad?.trainees[squad.index].name ?? program?.trainee.name}
+                  stageLabel={qualification ? `Stage ${qualification.index + 1} / ${qualification.table.stages.length}: ${qualification.table.stages[qualification.index].name}`
+                    : program ? `${program.program.name}, Stage ${program.stageIndex + 1}: ${program.program.stages[program.stageIndex].preset.name}`
+                    : adaptiveRun && `Adaptive Level ${adaptiveRun.level} / ${ADAPTIVE_LEVELS.length}`}
+                  callout={callout?.drill}
+                  largePrint={display.largePrint}
                 />;
       case 'finished':
-        return <DrillResult finalTraverse={finalTAndE.traverse} finalElevation={finalTAndE.elevation} onReset={handleReset} />;
+        return <DrillResult
+                  outcome={outcome}
+                  commands={commands}
+                  config={activeConfig}
+                  seed={activeDrill.seed}
+                  drillCode={activeDrill.code}
+                  onQuizAnswer={handleQuizAnswer}
+                  callouts={callout?.drill.names}
+                  notice={program?.update ? programNotice(program.program, program.update)
+                    : adaptiveRun?.next !== undefined ? adaptiveNotice(adaptiveRun.level, adaptiveRun.next)
+                    : null}
+                  onReset={squad ? handleNextTrainee : qualification ? handleNextStage : program ? handleShowProgram
+                    : callout ? handleShowRangeCards : adaptiveRun ? handleNextAdaptive : handleReset}
+                  resetLabel={squad ? (squad.index + 1 < squad.trainees.length
+                    ? `Next Trainee: ${squad.trainees[squad.index + 1].name}`
+                    : 'Squad Summary')
+                    : qualification ? (qualification.index + 1 < qualification.table.stages.length
+                    ? `Next Stage: ${qualification.table.stages[qualification.index + 1].name}`
+                    : 'Qualification Results')
+                    : program ? 'Back to Program'
+                    : callout ? 'Back to Range Cards'
+                    : adaptiveRun && `Next Drill: Level ${adaptiveLevel}`}
+                />;
       case 'configuring':
       default:
-        return <DrillConfiguration config={drillConfig} onConfigChange={handleConfigChange} onStartDrill={handleStartDrill} />;
+        return <DrillConfiguration
+                  config={drillConfig}
+                  sharedCommandCount={sharedCommands?.length}
+                  onConfigChange={handleConfigChange}
+                  adaptiveLevel={adaptiveLevel}
+                  onResetAdaptiveLevel={handleResetAdaptiveLevel}
+                  onLoadDrillCode={handleLoadDrillCode}
+                  onStartDrill={handleStartDrill}
+                  onEditDrill={handleEditDrill}
+                />;
     }
   };
 
+  // Large print widens the page so the drill readouts can fill the screen.
+  const widthClass = display.largePrint && drillState === 'running' ? 'max-w-6xl' : 'max-w-2xl';
+
   return (
     <div className="min-h-screen bg-gray-900 font-mono flex flex-col items-center justify-center p-4">
-      <header className="w-full max-w-2xl mb-8 text-center">
+      <header className={`w-full ${widthClass} mb-8 text-center`}>
         <div className="flex items-center justify-center space-x-4">
           <TargetIcon className="h-12 w-12 text-yellow-400" />
           <div>
             <h1 className="text-3xl md:text-4xl font-bold text-yellow-400 tracking-wider">Snake Drill Trainer</h1>
           </div>
         </div>
+        {drillState !== 'running' && (
+          <nav className="mt-4 flex justify-center space-x-6 text-sm">
+            <button onClick={handleReset} className={navClass(drillState === 'configuring' || drillState === 'preview' || drillState === 'finished')}>
+              Drill Setup
+            </button>
+            <button onClick={handleShowRoster} className={navClass(drillState === 'roster' || drillState === 'squadSummary')}>
+              Squad
+            </button>
+            <button onClick={handleShowQualification} className={navClass(drillState === 'qualification' || drillState === 'qualificationSummary')}>
+              Qualify
+            </button>
+            <button onClick={handleShowProgram} className={navClass(drillState === 'program')}>
+              Program
+            </button>
+            <button onClick={handleShowRangeCards} className={navClass(drillState === 'rangeCards')}>
+              Range Cards
+            </button>
+            <button onClick={handleShowHistory} className={navClass(drillState === 'history')}>
+              History
+            </button>
+          </nav>
+        )}
+        <div className="mt-4">
+          <DisplaySettingsControl settings={display} onChange={setDisplay} />
+        </div>
       </header>
-      <main className="w-full max-w-2xl">
+      <main className={`w-full ${widthClass}`}>
         {renderContent()}
       </main>
-      <footer className="w-full max-w-2xl mt-8 text-center text-gray-500 text-xs">
+      <footer className={`w-full ${widthClass} mt-8 text-center text-gray-500 text-xs`}>
         <p>burpees or what</p>
       </footer>
     </div>
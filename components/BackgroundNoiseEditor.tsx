@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { NoiseSettings, NoiseTrack } from '../types';
+import { NOISE_TRACKS } from '../services/backgroundNoise';
+import { commandPlayer } from '../services/playback';
+
+interface BackgroundNoiseEditorProps {
+  noise: NoiseSettings;
+  onChange: (noise: NoiseSettings) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+
+/**
+ * Picks the noise played under the commands and its level, with a button to
+ * listen to it while setting the level.
+ */
+const BackgroundNoiseEditor: React.FC<BackgroundNoiseEditorProps> = ({ noise, onChange }) => {
+  const [listening, setListening] = useState(false);
+  const update = (changes: Partial<NoiseSettings>) => onChange({ ...noise, ...changes });
+
+  // The sample follows the settings as they change, and stops when the setup screen closes.
+  useEffect(() => {
+    if (!listening) return;
+    commandPlayer.playNoise(noise);
+    return () => commandPlayer.stopNoise();
+  }, [listening, noise]);
+
+  const off = noise.track === 'off';
+
+  return (
+    <fieldset className="space-y-4 rounded-md border border-gray-700 p-4">
+      <legend className="text-sm font-medium text-gray-400 px-2">Background Noise</legend>
+      <div className="grid grid-cols-2 gap-4">
+        <select
+          value={noise.track}
+          onChange={(e) => {
+            const track = e.target.value as NoiseTrack;
+            if (track === 'off') setListening(false);
+            update({ track });
+          }}
+          className={inputClass}
+          aria-label="Background noise"
+          aria-describedby="noise-help"
+        >
+          {NOISE_TRACKS.map(t => <option key={t.track} value={t.track}>{t.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => setListening(!listening)}
+          disabled={off}
+          className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50"
+        >
+          {listening ? 'Stop' : 'Listen'}
+        </button>
+      </div>
+      {!off && (
+        <div>
+          <label htmlFor="noiseLevel" className="block text-xs text-gray-400 mb-1">Level ({Math.round(noise.level * 100)}%)</label>
+          <input
+            id="noiseLevel"
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={noise.level}
+            onChange={(e) => update({ level: parseFloat(e.target.value) })}
+            className="w-full accent-yellow-500"
+          />
+        </div>
+      )}
+      <p id="noise-help" className="text-xs text-gray-500">Played under the commands while the drill runs, to practise hearing them over a loud gun line.</p>
+    </fieldset>
+  );
+};
+
+export default BackgroundNoiseEditor;
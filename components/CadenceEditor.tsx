@@ -0,0 +1,82 @@
+import React from 'react';
+import { CadenceKind, DrillCadence } from '../types';
+
+interface CadenceEditorProps {
+  cadence: DrillCadence;
+  onChange: (cadence: DrillCadence) => void;
+}
+
+const CADENCE_OPTIONS: { kind: CadenceKind; name: string; description: string }[] = [
+  { kind: 'fixed', name: 'Fixed', description: 'Every command comes after the command interval.' },
+  { kind: 'jitter', name: 'Jitter', description: 'Each interval is random between the shortest and the longest.' },
+  { kind: 'ramp', name: 'Ramp', description: 'Starts at the longest interval and speeds up evenly to the shortest by the last command.' },
+  { kind: 'burst', name: 'Bursts', description: 'Runs of commands at the shortest interval, each followed by a pause of the longest.' },
+];
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+
+const CadenceEditor: React.FC<CadenceEditorProps> = ({ cadence, onChange }) => {
+  const update = (changes: Partial<DrillCadence>) => onChange({ ...cadence, ...changes });
+  const option = CADENCE_OPTIONS.find(o => o.kind === cadence.kind) ?? CADENCE_OPTIONS[0];
+
+  return (
+    <fieldset className="space-y-4 rounded-md border border-gray-700 p-4">
+      <legend className="text-sm font-medium text-gray-400 px-2">Cadence</legend>
+      <div>
+        <select
+          value={cadence.kind}
+          onChange={(e) => update({ kind: e.target.value as CadenceKind })}
+          className={inputClass}
+          aria-label="Cadence"
+          aria-describedby="cadence-help"
+        >
+          {CADENCE_OPTIONS.map(o => <option key={o.kind} value={o.kind}>{o.name}</option>)}
+        </select>
+        <p id="cadence-help" className="text-xs text-gray-500 mt-1">{option.description}</p>
+      </div>
+      {cadence.kind !== 'fixed' && (
+        <div className={`grid gap-4 ${cadence.kind === 'burst' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          <div>
+            <label htmlFor="minInterval" className="block text-xs text-gray-400 mb-1">Shortest Interval (s)</label>
+            <input
+              id="minInterval"
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={cadence.minInterval}
+              onChange={(e) => update({ minInterval: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="maxInterval" className="block text-xs text-gray-400 mb-1">Longest Interval (s)</label>
+            <input
+              id="maxInterval"
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={cadence.maxInterval}
+              onChange={(e) => update({ maxInterval: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          {cadence.kind === 'burst' && (
+            <div>
+              <label htmlFor="burstLength" className="block text-xs text-gray-400 mb-1">Commands per Burst</label>
+              <input
+                id="burstLength"
+                type="number"
+                min="1"
+                value={cadence.burstLength}
+                onChange={(e) => update({ burstLength: parseInt(e.target.value, 10) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default CadenceEditor;
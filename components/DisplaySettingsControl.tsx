@@ -0,0 +1,37 @@
+import React from 'react';
+import { DisplaySettings, DisplayTheme } from '../types';
+import { DISPLAY_THEMES } from '../services/display';
+
+interface DisplaySettingsControlProps {
+  settings: DisplaySettings;
+  onChange: (settings: DisplaySettings) => void;
+}
+
+/**
+ * Theme and large-print switches, kept in the header so they can be changed in the middle of a drill.
+ */
+const DisplaySettingsControl: React.FC<DisplaySettingsControlProps> = ({ settings, onChange }) => (
+  <div className="flex items-center justify-center space-x-4 text-xs text-gray-400">
+    <label className="flex items-center space-x-2">
+      <span>Display</span>
+      <select
+        value={settings.theme}
+        onChange={(e) => onChange({ ...settings, theme: e.target.value as DisplayTheme })}
+        className="bg-gray-900 text-gray-200 py-1 px-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+      >
+        {DISPLAY_THEMES.map(theme => <option key={theme.id} value={theme.id}>{theme.name}</option>)}
+      </select>
+    </label>
+    <button
+      type="button"
+      onClick={() => onChange({ ...settings, largePrint: !settings.largePrint })}
+      aria-pressed={settings.largePrint}
+      title="Scale the command and T&E readouts to fill the screen during a drill"
+      className={`py-1 px-2 rounded-md border focus:outline-none focus:ring-2 focus:ring-yellow-400 ${settings.largePrint ? 'border-yellow-400 text-yellow-400' : 'border-gray-600 hover:text-yellow-400'}`}
+    >
+      Large Print
+    </button>
+  </div>
+);
+
+export default DisplaySettingsControl;
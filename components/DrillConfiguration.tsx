@@ -1,118 +1,321 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import type { DrillConfig } from '../App';
-import { commandPlayer } from '../services/speech';
+import { speechPlayer } from '../services/speech';
+import { commandPlayer } from '../services/playback';
+import { drillWords } from '../services/recordedAudio';
+import { SAMPLE_COMMAND } from '../services/phrasing';
+import { parseSeed } from '../services/random';
+import { shortestInterval } from '../services/cadence';
+import { difficultyLabel, findDrillProblem, generateDrill, MAX_GUNS, parseClickValues, validateDrillConfig } from '../services/drillGenerator';
+import { ADAPTIVE_LEVELS, describeAdaptiveLevel, withAdaptiveLevel } from '../services/adaptive';
+import { AudioBackend, DrillMode } from '../types';
+import PresetSelector from './PresetSelector';
+import WeaponProfileSelector from './WeaponProfileSelector';
+import GeneratorConstraintsEditor from './GeneratorConstraintsEditor';
+import DrillPositionsEditor from './DrillPositionsEditor';
+import CadenceEditor from './CadenceEditor';
+import BackgroundNoiseEditor from './BackgroundNoiseEditor';
+import VoicePackSelector from './VoicePackSelector';
+import VoiceSettingsEditor from './VoiceSettingsEditor';
+import SpeechCalibration from './SpeechCalibration';
 
 interface DrillConfigurationProps {
   config: DrillConfig;
+  /** Number of commands in a shared drill loaded from a drill code, if any. */
+  sharedCommandCount?: number;
+  /** The adaptive level reached so far, used while adaptive mode is on. */
+  adaptiveLevel: number;
+  onResetAdaptiveLevel: () => void;
   onConfigChange: (newConfig: Partial<DrillConfig>) => void;
-  onStartDrill: () => void;
+  /** Loads a drill code; returns false if the code is malformed. */
+  onLoadDrillCode: (code: string) => boolean;
+  /** Starts the drill; returns why none could be generated, or null. */
+  onStartDrill: () => string | null;
+  /** Opens the drill in the editor to look over and change before it is run; returns why none could be generated, or null. */
+  onEditDrill: () => string | null;
 }
 
-const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, onConfigChange, onStartDrill }) => {
+const MODE_DESCRIPTIONS: Record<DrillMode, string> = {
+  watch: 'The commands move the grid by themselves.',
+  interactive: 'Dial each command yourself with the arrow keys and get scored per command.',
+  quiz: 'The grid is hidden and the drill may end anywhere. Call the final setting at the end.',
+};
+
+// Seeds sampled to show how hard drills from these settings usually are when no seed is set.
+const DIFFICULTY_SAMPLE_SEEDS = [1, 2, 3, 4, 5];
+
+const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, sharedCommandCount, adaptiveLevel, onResetAdaptiveLevel, onConfigChange, onLoadDrillCode, onStartDrill, onEditDrill }) => {
   const [error, setError] = useState<string>('');
+  const [drillCode, setDrillCode] = useState<string>('');
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleLoadCode = () => {
     setError('');
+    if (onLoadDrillCode(drillCode)) {
+      setDrillCode('');
+    } else {
+      setError('That drill code is not valid.');
+    }
+  };
+
+  // In adaptive mode the level sets the commands, click values and interval, so everything below checks those.
+  const drillSettings = config.adaptive ? withAdaptiveLevel(config, adaptiveLevel) : config;
+
+  const parsedValues = useMemo(() => parseClickValues(drillSettings.clickValues), [drillSettings.clickValues]);
 
-    const parsedValues = config.clickValues
-      .split(',')
-      .map(v => parseInt(v.trim(), 10))
-      .filter(v => !isNaN(v) && v > 0);
+  const { constraints, positions } = config;
 
-    if (parsedValues.length === 0) {
-      setError('Please enter at least one valid, positive number for click values.');
-      return;
+  // The difficulty of the drill this seed gives, or the average of a few sample drills,
+  // or why these settings give no drill at all.
+  const preview = useMemo(() => {
+    if (sharedCommandCount !== undefined || parsedValues.length === 0 || drillSettings.numCommands < 2) return null;
+    const seed = parseSeed(config.seed);
+    const options = { endAnywhere: config.mode === 'quiz', compoundRatio: config.compoundRatio, constraints, positions, distractorRate: config.distractorRate, guns: drillSettings.guns };
+    const drills = [];
+    let gaveUp: string | undefined;
+    for (const s of seed !== null ? [seed] : DIFFICULTY_SAMPLE_SEEDS) {
+      const drill = generateDrill(drillSettings.numCommands, parsedValues, config.weaponProfile.limits, s, options);
+      if (drill.problem) {
+        // A proven problem holds for every seed; a search that gave up only speaks for its own seed.
+        if (drill.proven !== false) return { problem: drill.problem };
+        gaveUp = drill.problem;
+        continue;
+      }
+      drills.push(drill);
     }
-    
-    if (config.numCommands < 2) {
-      setError('Number of commands must be at least 2.');
-      return;
+    if (drills.length === 0) return { problem: gaveUp! };
+    const score = Math.round(drills.reduce((sum, drill) => sum + drill.difficulty, 0) / drills.length);
+    return { score, exact: seed !== null };
+  }, [sharedCommandCount, parsedValues, drillSettings.numCommands, config.seed, config.mode, config.compoundRatio, config.distractorRate, drillSettings.guns, config.weaponProfile, constraints, positions]);
+
+  /**
+   * Checks the settings before a drill is built from them, showing the first problem found.
+   * @returns Whether a drill can be built.
+   */
+  const checkSettings = (): boolean => {
+    setError('');
+
+    const invalid = validateDrillConfig(drillSettings);
+    if (invalid) {
+      setError(invalid);
+      return false;
     }
 
-    if (config.maxTAndE < 5) {
-      setError('Max T&E must be at least 5.');
-      return;
+    if (config.voiceEnabled && !config.voice.phrasing.includes('{value}')) {
+      setError('The voice phrasing must include {value}.');
+      return false;
     }
-    
-    if (parsedValues.some(v => v > config.maxTAndE)) {
-      setError('Click values cannot be greater than the Max T&E.');
-      return;
+
+    const problem = sharedCommandCount === undefined ? findDrillProblem(drillSettings) : null;
+    if (problem) {
+      setError(problem);
+      return false;
     }
+    return true;
+  };
 
-    if (config.commandInterval <= 0) {
-      setError('Command interval must be a positive number.');
-      return;
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (checkSettings()) {
+      setError(onStartDrill() ?? '');
     }
+  };
 
-    onStartDrill();
+  const handleEditDrill = () => {
+    if (checkSettings()) {
+      setError(onEditDrill() ?? '');
+    }
   };
   
+  // Speech is checked against the fastest command the cadence gives.
+  const fastestInterval = shortestInterval(config.cadence, drillSettings.commandInterval);
+
+  const handlePreview = () => {
+    commandPlayer.preload([SAMPLE_COMMAND], config.weaponProfile, config.voice);
+    commandPlayer.play(SAMPLE_COMMAND, fastestInterval, config.ttsManualSpeed, config.ttsSpeedMultiplier);
+  };
+
+  const recorded = config.audioBackend === 'recorded';
+  // Recorded clips are fitted to each command's own length, so there is no single automatic rate to show.
   const displayedSpeed = config.ttsManualSpeed
-    ? config.ttsSpeedMultiplier
-    : commandPlayer.calculateAutoSpeed(config.commandInterval);
+    ? config.ttsSpeedMultiplier.toFixed(1)
+    : recorded ? '' : speechPlayer.calculateAutoSpeed(fastestInterval).toFixed(1);
 
 
   return (
     <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700">
       <h3 className="text-2xl font-bold text-center mb-6 text-gray-200">Drill Setup</h3>
       <form onSubmit={handleSubmit} className="space-y-6">
+        <PresetSelector config={config} onApply={onConfigChange} />
+        <div>
+          <div className="flex items-center justify-start space-x-3">
+            <input
+              id="adaptive"
+              type="checkbox"
+              checked={config.adaptive}
+              onChange={(e) => onConfigChange({ adaptive: e.target.checked })}
+              className="h-5 w-5 rounded bg-gray-900 border-gray-600 text-yellow-500 focus:ring-yellow-400"
+              aria-describedby="adaptive-help"
+            />
+            <label htmlFor="adaptive" className="text-sm font-medium text-gray-400">Adaptive Difficulty</label>
+            {config.adaptive && adaptiveLevel > 1 && (
+              <button type="button" onClick={onResetAdaptiveLevel} className="text-xs text-gray-500 hover:text-yellow-400">
+                Back to Level 1
+              </button>
+            )}
+          </div>
+          <p id="adaptive-help" className="text-xs text-gray-500 mt-1">
+            {config.adaptive
+              ? <>Level <span className="text-white">{adaptiveLevel} / {ADAPTIVE_LEVELS.length}</span>: {describeAdaptiveLevel(adaptiveLevel)}. Up a level after each pass, down after each fail.</>
+              : 'Sets the commands, click values and interval from a level that rises after each passed drill and drops after each failed one.'}
+          </p>
+        </div>
         <div>
           <label htmlFor="numCommands" className="block text-sm font-medium text-gray-400 mb-2">Number of Commands</label>
           <input
             id="numCommands"
             type="number"
-            value={config.numCommands}
+            value={drillSettings.numCommands}
             onChange={(e) => onConfigChange({ numCommands: parseInt(e.target.value, 10) || 0 })}
+            disabled={config.adaptive}
             min="2"
             max="100"
             step="2"
-            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none disabled:opacity-50"
             aria-describedby="numCommands-help"
           />
           <p id="numCommands-help" className="text-xs text-gray-500 mt-1">Total commands in the drill (min 2, even numbers recommended).</p>
         </div>
         <div>
-          <label htmlFor="maxTAndE" className="block text-sm font-medium text-gray-400 mb-2">Max Traverse/Elevation</label>
+          <label htmlFor="guns" className="block text-sm font-medium text-gray-400 mb-2">Guns in Section</label>
           <input
-            id="maxTAndE"
+            id="guns"
             type="number"
-            value={config.maxTAndE}
-            onChange={(e) => onConfigChange({ maxTAndE: parseInt(e.target.value, 10) || 0 })}
-            min="5"
-            max="100"
-            step="1"
-            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
-            aria-describedby="maxTAndE-help"
+            value={drillSettings.guns}
+            onChange={(e) => onConfigChange({ guns: parseInt(e.target.value, 10) || 0 })}
+            disabled={config.adaptive}
+            min="1"
+            max={MAX_GUNS}
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none disabled:opacity-50"
+            aria-describedby="guns-help"
           />
-          <p id="maxTAndE-help" className="text-xs text-gray-500 mt-1">The maximum clicks for Traverse and Elevation (default 25).</p>
+          <p id="guns-help" className="text-xs text-gray-500 mt-1">Each gun gets its own commands, called as "GUN TWO, LEFT 5", and must end on the target. Press Tab to switch guns in interactive mode.</p>
         </div>
+        <WeaponProfileSelector profile={config.weaponProfile} onChange={(weaponProfile) => onConfigChange({ weaponProfile })} />
         <div>
           <label htmlFor="clickValues" className="block text-sm font-medium text-gray-400 mb-2">Possible Click Values</label>
           <input
             id="clickValues"
             type="text"
-            value={config.clickValues}
+            value={drillSettings.clickValues}
             onChange={(e) => onConfigChange({ clickValues: e.target.value })}
+            disabled={config.adaptive}
             placeholder="e.g., 5, 10, 15"
-            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none disabled:opacity-50"
             aria-describedby="clickValues-help"
           />
-          <p id="clickValues-help" className="text-xs text-gray-500 mt-1">Comma-separated list of possible click values.</p>
+          <p id="clickValues-help" className="text-xs text-gray-500 mt-1">Comma-separated list of possible click values (always in clicks).</p>
         </div>
+        <div>
+          <label htmlFor="compoundRatio" className="block text-sm font-medium text-gray-400 mb-2">Compound Commands (%)</label>
+          <input
+            id="compoundRatio"
+            type="number"
+            value={Math.round(config.compoundRatio * 100)}
+            onChange={(e) => onConfigChange({ compoundRatio: (parseInt(e.target.value, 10) || 0) / 100 })}
+            min="0"
+            max="100"
+            step="10"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            aria-describedby="compoundRatio-help"
+          />
+          <p id="compoundRatio-help" className="text-xs text-gray-500 mt-1">Share of commands that give both axes at once, e.g. "LEFT 5, UP 10".</p>
+        </div>
+        <div>
+          <label htmlFor="distractorRate" className="block text-sm font-medium text-gray-400 mb-2">Distractors (%)</label>
+          <input
+            id="distractorRate"
+            type="number"
+            value={Math.round(config.distractorRate * 100)}
+            onChange={(e) => onConfigChange({ distractorRate: (parseInt(e.target.value, 10) || 0) / 100 })}
+            min="0"
+            max="100"
+            step="10"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            aria-describedby="distractorRate-help"
+          />
+          <p id="distractorRate-help" className="text-xs text-gray-500 mt-1">Share of commands preceded by a wrong move that is called off: "DISREGARD", or "CORRECTION, ..." with the real command.</p>
+        </div>
+        <GeneratorConstraintsEditor constraints={constraints} onChange={(newConstraints) => onConfigChange({ constraints: newConstraints })} />
+        <DrillPositionsEditor positions={positions} mode={config.mode} onChange={(newPositions) => onConfigChange({ positions: newPositions })} />
         <div>
           <label htmlFor="commandInterval" className="block text-sm font-medium text-gray-400 mb-2">Command Interval (seconds)</label>
           <input
             id="commandInterval"
             type="number"
-            value={config.commandInterval}
+            value={drillSettings.commandInterval}
             onChange={(e) => onConfigChange({ commandInterval: parseFloat(e.target.value) || 0 })}
+            disabled={config.adaptive}
             min="0.1"
             step="0.1"
-            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none disabled:opacity-50"
             aria-describedby="commandInterval-help"
           />
-           <p id="commandInterval-help" className="text-xs text-gray-500 mt-1">Time between each command (must be a positive number).</p>
+           <p id="commandInterval-help" className="text-xs text-gray-500 mt-1">Time between each command (must be a positive number), with a fixed cadence.</p>
+        </div>
+        <CadenceEditor cadence={config.cadence} onChange={(cadence) => onConfigChange({ cadence })} />
+
+        <div>
+          <label htmlFor="drillCode" className="block text-sm font-medium text-gray-400 mb-2">Load Drill Code</label>
+          <div className="flex space-x-2">
+            <input
+              id="drillCode"
+              type="text"
+              value={drillCode}
+              onChange={(e) => setDrillCode(e.target.value)}
+              placeholder="e.g., n10.c5_10.i1000.wtraining.t0.s1Z4K9Q"
+              className="flex-1 min-w-0 bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+              aria-describedby="drillCode-help"
+            />
+            <button
+              type="button"
+              onClick={handleLoadCode}
+              disabled={drillCode.trim() === ''}
+              className="bg-gray-700 text-gray-200 font-bold px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50"
+            >
+              Load
+            </button>
+          </div>
+          <p id="drillCode-help" className="text-xs text-gray-500 mt-1">Paste a code from a finished drill to run the identical snake.</p>
+        </div>
+
+        <div>
+          <label htmlFor="seed" className="block text-sm font-medium text-gray-400 mb-2">Drill Seed (optional)</label>
+          <input
+            id="seed"
+            type="text"
+            value={config.seed}
+            onChange={(e) => onConfigChange({ seed: e.target.value.toUpperCase() })}
+            placeholder="Random"
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none uppercase"
+            aria-describedby="seed-help"
+          />
+          <p id="seed-help" className="text-xs text-gray-500 mt-1">The same seed and settings always give the same snake. Leave blank for a new one each time.</p>
+        </div>
+
+        <div>
+          <label htmlFor="mode" className="block text-sm font-medium text-gray-400 mb-2">Drill Mode</label>
+          <select
+            id="mode"
+            value={config.mode}
+            onChange={(e) => onConfigChange({ mode: e.target.value as DrillMode })}
+            className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+            aria-describedby="mode-help"
+          >
+            <option value="watch">Watch</option>
+            <option value="interactive">Trainee Input</option>
+            <option value="quiz">Mental Math Quiz</option>
+          </select>
+          <p id="mode-help" className="text-xs text-gray-500 mt-1">{MODE_DESCRIPTIONS[config.mode]}</p>
         </div>
 
         <fieldset className="space-y-4 rounded-md border border-gray-700 p-4">
@@ -130,11 +333,38 @@ const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, onConfi
             {config.voiceEnabled && (
             <>
                 <div>
-                <label htmlFor="ttsSpeedMultiplier" className="block text-sm font-medium text-gray-400 mb-2">TTS Speed</label>
+                <label htmlFor="audioBackend" className="block text-sm font-medium text-gray-400 mb-2">Voice Engine</label>
+                <select
+                    id="audioBackend"
+                    value={config.audioBackend}
+                    onChange={(e) => onConfigChange({ audioBackend: e.target.value as AudioBackend })}
+                    className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+                    aria-describedby="audioBackend-help"
+                >
+                    <option value="speech">Speech Synthesis</option>
+                    <option value="recorded">Recorded Voice</option>
+                </select>
+                <p id="audioBackend-help" className="text-xs text-gray-500 mt-1">
+                    {recorded
+                      ? 'Plays recorded word clips; the same on every browser, with no speech engine needed.'
+                      : speechPlayer.isSupported ? 'Uses the browser\'s built-in voice.' : 'This browser has no speech engine. Use the recorded voice instead.'}
+                </p>
+                </div>
+                {recorded && <VoicePackSelector drillWords={drillWords(drillSettings.guns, config.distractorRate)} />}
+                <VoiceSettingsEditor
+                    voice={config.voice}
+                    backend={config.audioBackend}
+                    profile={config.weaponProfile}
+                    onChange={(voice) => onConfigChange({ voice })}
+                    onPreview={handlePreview}
+                />
+                <div>
+                <label htmlFor="ttsSpeedMultiplier" className="block text-sm font-medium text-gray-400 mb-2">{recorded ? 'Playback Rate' : 'TTS Speed'}</label>
                 <input
                     id="ttsSpeedMultiplier"
                     type="number"
-                    value={displayedSpeed.toFixed(1)}
+                    value={displayedSpeed}
+                    placeholder="Auto"
                     onChange={(e) => onConfigChange({ ttsSpeedMultiplier: parseFloat(e.target.value) || 1 })}
                     min="0.5"
                     max="10"
@@ -145,7 +375,9 @@ const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, onConfi
                     readOnly={!config.ttsManualSpeed}
                 />
                 <p id="ttsSpeedMultiplier-help" className="text-xs text-gray-500 mt-1">
-                    {config.ttsManualSpeed ? 'Set manual speech rate (2 is default).' : 'Speed is calculated automatically based on interval.'}
+                    {config.ttsManualSpeed
+                      ? recorded ? 'Set manual playback rate (1 is the recording\'s own speed).' : 'Set manual speech rate (2 is default).'
+                      : recorded ? 'Each command is sped up just enough to fit the interval.' : 'Speed is calculated automatically based on interval; calibrated commands get their own rate.'}
                 </p>
                 </div>
                 <div className="flex items-center justify-start space-x-3">
@@ -158,9 +390,35 @@ const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, onConfi
                 />
                 <label htmlFor="ttsManualSpeed" className="text-sm font-medium text-gray-400">Manual Speed Override</label>
                 </div>
+                {!recorded && speechPlayer.isSupported && (
+                  <SpeechCalibration
+                    clickValues={parsedValues}
+                    includeCompound={config.compoundRatio > 0}
+                    profile={config.weaponProfile}
+                    voice={config.voice}
+                    commandInterval={fastestInterval}
+                    manualSpeed={config.ttsManualSpeed}
+                  />
+                )}
             </>
             )}
         </fieldset>
+        <BackgroundNoiseEditor noise={config.noise} onChange={(noise) => onConfigChange({ noise })} />
+
+        {sharedCommandCount !== undefined && (
+          <p className="text-yellow-400 text-sm text-center">
+            Shared drill loaded: {sharedCommandCount} fixed commands. Changing the commands, click values or weapon profile discards it.
+          </p>
+        )}
+
+        {preview && ('problem' in preview ? (
+          <p className="text-sm text-center text-yellow-400">{preview.problem}</p>
+        ) : (
+          <p className="text-sm text-center text-gray-400">
+            Difficulty: <span className="text-white font-bold">{preview.score} / 100</span> ({difficultyLabel(preview.score)})
+            {!preview.exact && <span className="text-gray-500"> — typical for these settings</span>}
+          </p>
+        ))}
 
         {error && <p className="text-red-400 text-sm text-center" role="alert">{error}</p>}
 
@@ -170,6 +428,15 @@ const DrillConfiguration: React.FC<DrillConfigurationProps> = ({ config, onConfi
         >
           Start Drill
         </button>
+        <button
+          type="button"
+          onClick={handleEditDrill}
+          disabled={config.adaptive}
+          title={config.adaptive ? 'Adaptive drills are built at each level and cannot be edited.' : 'List the commands before running them, and change them if needed.'}
+          className="w-full bg-gray-700 text-gray-200 font-bold py-3 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+        >
+          Preview &amp; Edit
+        </button>
       </form>
     </div>
   );
@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import type { DrillConfig } from '../App';
+import { CommandPart, Direction, DrillCommand, TAndE } from '../types';
+import TEGrid, { GUN_COLORS } from './TEGrid';
+import { CustomDrill, checkDrill, createCustomDrill, deleteCustomDrill, loadCustomDrills, saveCustomDrill } from '../services/customDrills';
+import { commandParts, createCommand, gunCount, gunIndex, isVerticalDirection } from '../services/commands';
+import { parseClickValues } from '../services/drillGenerator';
+import { formatSeed } from '../services/random';
+import { formatElevation, formatTraverse } from '../services/weaponProfiles';
+
+interface DrillEditorProps {
+  config: DrillConfig;
+  drill: CustomDrill;
+  /** The seed the drill was generated from, until it is changed by hand. */
+  seed?: number;
+  onChange: (drill: CustomDrill) => void;
+  /** Replaces the drill with a new one generated from the drill setup. */
+  onRegenerate: () => void;
+  onStart: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+const rowButtonClass = 'px-1 text-gray-500 hover:text-yellow-400 disabled:opacity-30 disabled:hover:text-gray-500';
+
+const TRAVERSE_DIRECTIONS = [Direction.Left, Direction.Right];
+const ELEVATION_DIRECTIONS = [Direction.Up, Direction.Down];
+
+// Replaces a command's move, keeping its gun and any distractor call.
+const withParts = (command: DrillCommand, parts: CommandPart[]): DrillCommand => {
+  const { traverse: _traverse, elevation: _elevation, ...rest } = command;
+  return { ...rest, ...createCommand(...parts) };
+};
+
+const PositionInputs: React.FC<{ label: string; position: TAndE; onChange: (position: TAndE) => void }> = ({ label, position, onChange }) => (
+  <div>
+    <p className="block text-xs text-gray-400 mb-1">{label}</p>
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type="number"
+        step="1"
+        value={position.traverse}
+        onChange={(e) => onChange({ ...position, traverse: parseInt(e.target.value, 10) || 0 })}
+        className={`${inputClass} w-full`}
+        aria-label={`${label} traverse`}
+        title="Traverse: negative is left, positive is right"
+      />
+      <input
+        type="number"
+        step="1"
+        value={position.elevation}
+        onChange={(e) => onChange({ ...position, elevation: parseInt(e.target.value, 10) || 0 })}
+        className={`${inputClass} w-full`}
+        aria-label={`${label} elevation`}
+        title="Elevation: negative is down, positive is up"
+      />
+    </div>
+  </div>
+);
+
+/**
+ * Lists a drill's commands with the T&E after each before it is run, and lets
+ * an instructor change, add, remove and reorder them or write a drill from
+ * scratch. Every change is checked against the weapon's T&E limits at once.
+ */
+const DrillEditor: React.FC<DrillEditorProps> = ({ config, drill, seed, onChange, onRegenerate, onStart, onClose }) => {
+  const profile = config.weaponProfile;
+  const { commands, start, target } = drill;
+  const [drills, setDrills] = useState<CustomDrill[]>(loadCustomDrills);
+  const [message, setMessage] = useState('');
+
+  const quiz = config.mode === 'quiz';
+  const check = useMemo(() => checkDrill(commands, profile, start, target, quiz), [commands, profile, start, target, quiz]);
+  const guns = Math.max(config.guns, gunCount(commands));
+  // New commands and axes start at the first click value of the drill setup.
+  const clicks = parseClickValues(config.clickValues)[0] ?? 1;
+  const isSaved = drills.some(d => d.id === drill.id);
+
+  const setCommands = (next: DrillCommand[]) => onChange({ ...drill, commands: next });
+  const updateCommand = (index: number, command: DrillCommand) => setCommands(commands.map((c, i) => i === index ? command : c));
+
+  const updatePart = (index: number, partIndex: number, part: CommandPart) => {
+    const parts = commandParts(commands[index]);
+    parts[partIndex] = part;
+    updateCommand(index, withParts(commands[index], parts));
+  };
+
+  const handleAddAxis = (index: number) => {
+    const [part] = commandParts(commands[index]);
+    const other = isVerticalDirection(part.direction) ? Direction.Right : Direction.Up;
+    updateCommand(index, withParts(commands[index], [part, { direction: other, value: clicks }]));
+  };
+
+  const handleRemoveAxis = (index: number, partIndex: number) =>
+    updateCommand(index, withParts(commands[index], commandParts(commands[index]).filter((_, i) => i !== partIndex)));
+
+  const handleInsert = (index: number) => {
+    // A new command goes to the same gun as the one before it.
+    const gun = commands[index - 1]?.gun ?? (guns > 1 ? 1 : undefined);
+    const command: DrillCommand = { ...createCommand({ direction: Direction.Right, value: clicks }), ...(gun && { gun }) };
+    setCommands([...commands.slice(0, index), command, ...commands.slice(index)]);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...commands];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setCommands(next);
+  };
+
+  const handleSelectDrill = (id: string) => {
+    const selected = drills.find(d => d.id === id);
+    onChange(selected ?? createCustomDrill([], start, target));
+    setMessage('');
+  };
+
+  const handleSave = () => {
+    setDrills(saveCustomDrill(drill));
+    setMessage('Drill saved.');
+  };
+
+  const handleDelete = () => {
+    setDrills(deleteCustomDrill(drill.id));
+    setMessage('Drill deleted.');
+  };
+
+  const directionOptions = (command: DrillCommand, part: CommandPart) => {
+    // A compound command keeps one part on each axis.
+    if (commandParts(command).length > 1) {
+      return isVerticalDirection(part.direction) ? ELEVATION_DIRECTIONS : TRAVERSE_DIRECTIONS;
+    }
+    return [...TRAVERSE_DIRECTIONS, ...ELEVATION_DIRECTIONS];
+  };
+
+  const final = check.positions[check.positions.length - 1] ?? start;
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Drill Preview</h3>
+      <p className="text-sm text-gray-400 text-center">
+        {seed !== undefined
+          ? <>Generated from seed <span className="text-white">{formatSeed(seed)}</span>. Change any command to make it your own.</>
+          : 'Built by hand. The drill runs exactly as listed.'}
+      </p>
+
+      <div className="flex space-x-2">
+        <select
+          value={isSaved ? drill.id : ''}
+          onChange={(e) => handleSelectDrill(e.target.value)}
+          className={`${inputClass} w-full`}
+          aria-label="Saved drill"
+        >
+          {!isSaved && <option value="">Unsaved drill</option>}
+          {drills.map(d => <option key={d.id} value={d.id}>{d.name || 'Untitled drill'} ({d.commands.length} commands)</option>)}
+        </select>
+        <button type="button" onClick={() => handleSelectDrill('')} className={buttonClass}>New Drill</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <PositionInputs label="Start (clicks)" position={start} onChange={(position) => onChange({ ...drill, start: position })} />
+        {!quiz && <PositionInputs label="Target (clicks)" position={target} onChange={(position) => onChange({ ...drill, target: position })} />}
+      </div>
+
+      {guns === 1 && (
+        <TEGrid
+          traverse={final.traverse}
+          elevation={final.elevation}
+          limits={profile.limits}
+          path={[start, ...check.positions]}
+          target={quiz ? undefined : target}
+        />
+      )}
+
+      {commands.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">#</th>
+              {guns > 1 && <th className="text-left font-normal pb-1">Gun</th>}
+              <th className="text-left font-normal pb-1">Command (clicks)</th>
+              <th className="text-right font-normal pb-1">T&E After</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {commands.map((command, index) => {
+              const position = check.positions[index];
+              const parts = commandParts(command);
+              return (
+                <tr key={index} className="border-t border-gray-700 align-top">
+                  <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                  {guns > 1 && (
+                    <td className="py-2 pr-2">
+                      <select
+                        value={command.gun ?? 1}
+                        onChange={(e) => updateCommand(index, { ...command, gun: parseInt(e.target.value, 10) })}
+                        className={`${inputClass} font-bold ${GUN_COLORS[gunIndex(command) % GUN_COLORS.length].text}`}
+                        aria-label={`Command ${index + 1} gun`}
+                      >
+                        {Array.from({ length: guns }, (_, gun) => <option key={gun} value={gun + 1}>{gun + 1}</option>)}
+                      </select>
+                    </td>
+                  )}
+                  <td className="py-2 pr-2 space-y-1">
+                    {command.correction && <p className="text-xs font-bold text-yellow-400">CORRECTION</p>}
+                    {parts.map((part, partIndex) => (
+                      <div key={partIndex} className="flex items-center space-x-1">
+                        <select
+                          value={part.direction}
+                          onChange={(e) => updatePart(index, partIndex, { ...part, direction: e.target.value as Direction })}
+                          className={inputClass}
+                          aria-label={`Command ${index + 1} direction`}
+                        >
+                          {directionOptions(command, part).map(d => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                        <input
+                          type="number"
+                          min="1"
+                          value={part.value}
+                          onChange={(e) => updatePart(index, partIndex, { ...part, value: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          className={`${inputClass} w-20`}
+                          aria-label={`Command ${index + 1} clicks`}
+                        />
+                        {parts.length > 1 ? (
+                          <button type="button" onClick={() => handleRemoveAxis(index, partIndex)} className={rowButtonClass} title="Remove this axis">×</button>
+                        ) : (
+                          <button type="button" onClick={() => handleAddAxis(index)} className={rowButtonClass} title="Move the other axis too">+ axis</button>
+                        )}
+                      </div>
+                    ))}
+                    {command.calledOff && (
+                      <p className="text-xs font-bold text-red-400">{command.calledOff === 'disregard' ? 'DISREGARD' : 'CALLED OFF BY CORRECTION'}</p>
+                    )}
+                  </td>
+                  <td className={`py-2 pr-2 text-right whitespace-nowrap ${check.outOfLimits.includes(index) ? 'text-red-400 font-bold' : 'text-gray-300'}`}>
+                    {formatTraverse(position.traverse, profile)}, {formatElevation(position.elevation, profile)}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button type="button" onClick={() => handleMove(index, -1)} disabled={index === 0} className={rowButtonClass} title="Move up" aria-label={`Move command ${index + 1} up`}>↑</button>
+                    <button type="button" onClick={() => handleMove(index, 1)} disabled={index === commands.length - 1} className={rowButtonClass} title="Move down" aria-label={`Move command ${index + 1} down`}>↓</button>
+                    <button type="button" onClick={() => handleInsert(index + 1)} className={rowButtonClass} title="Insert a command after this one">Insert</button>
+                    <button type="button" onClick={() => setCommands(commands.filter((_, i) => i !== index))} className={`${rowButtonClass} hover:text-red-400`}>Delete</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <button type="button" onClick={() => handleInsert(commands.length)} className={`${buttonClass} w-full`}>Add Command</button>
+
+      {check.warnings.length > 0 ? (
+        <ul className="text-sm text-yellow-400 space-y-1" role="alert">
+          {check.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+        </ul>
+      ) : (
+        <p className="text-sm text-green-400 text-center" role="status">
+          Every command stays within the T&E limits{quiz ? '' : ' and the drill ends on the target'}.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={drill.name}
+          onChange={(e) => onChange({ ...drill, name: e.target.value })}
+          placeholder="e.g., Left Limit Walk"
+          className={`${inputClass} w-full`}
+          aria-label="Drill name"
+        />
+        <div className="flex flex-wrap gap-2 justify-center">
+          <button type="button" onClick={handleSave} disabled={drill.name.trim() === '' || commands.length === 0} className={buttonClass}>
+            Save Drill
+          </button>
+          {isSaved && <button type="button" onClick={handleDelete} className={buttonClass}>Delete Drill</button>}
+          <button type="button" onClick={onRegenerate} className={buttonClass} title="Replace the list with a new drill from the drill setup">
+            Regenerate
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-center text-gray-300" role="status">{message}</p>}
+
+      <button
+        type="button"
+        onClick={onStart}
+        disabled={commands.length === 0 || check.outOfLimits.length > 0}
+        className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+      >
+        Start Drill
+      </button>
+
+      <button onClick={onClose} className="w-full text-sm text-gray-400 hover:text-yellow-400">
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default DrillEditor;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { DrillMode, DrillPositions, TAndE } from '../types';
+
+interface DrillPositionsEditorProps {
+  positions: DrillPositions;
+  mode: DrillMode;
+  onChange: (positions: DrillPositions) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none disabled:opacity-50';
+
+const PositionInputs: React.FC<{ id: string; label: string; position: TAndE; disabled: boolean; onChange: (position: TAndE) => void }> = ({ id, label, position, disabled, onChange }) => (
+  <div>
+    <p className="block text-xs text-gray-400 mb-1">{label}</p>
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        id={`${id}Traverse`}
+        type="number"
+        step="1"
+        value={position.traverse}
+        onChange={(e) => onChange({ ...position, traverse: parseInt(e.target.value, 10) || 0 })}
+        disabled={disabled}
+        className={inputClass}
+        aria-label={`${label} traverse`}
+        title="Traverse: negative is left, positive is right"
+      />
+      <input
+        id={`${id}Elevation`}
+        type="number"
+        step="1"
+        value={position.elevation}
+        onChange={(e) => onChange({ ...position, elevation: parseInt(e.target.value, 10) || 0 })}
+        disabled={disabled}
+        className={inputClass}
+        aria-label={`${label} elevation`}
+        title="Elevation: negative is down, positive is up"
+      />
+    </div>
+  </div>
+);
+
+const DrillPositionsEditor: React.FC<DrillPositionsEditorProps> = ({ positions, mode, onChange }) => {
+  const update = (changes: Partial<DrillPositions>) => onChange({ ...positions, ...changes });
+
+  return (
+    <fieldset className="space-y-4 rounded-md border border-gray-700 p-4">
+      <legend className="text-sm font-medium text-gray-400 px-2">Start &amp; Target</legend>
+      <div className="grid grid-cols-2 gap-4">
+        <PositionInputs id="start" label="Start" position={positions.start} disabled={positions.random} onChange={(start) => update({ start })} />
+        <PositionInputs
+          id="target"
+          label="Target"
+          position={positions.target}
+          disabled={positions.random || mode === 'quiz'}
+          onChange={(target) => update({ target })}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        Traverse, then elevation, in clicks: negative is left or down. {mode === 'quiz' ? 'A quiz ends anywhere, so it has no target.' : 'The commands shift the T&E from the start to the target.'}
+      </p>
+      <div className="flex items-center justify-start space-x-3">
+        <input
+          id="randomPositions"
+          type="checkbox"
+          checked={positions.random}
+          onChange={(e) => update({ random: e.target.checked })}
+          className="h-5 w-5 rounded bg-gray-900 border-gray-600 text-yellow-500 focus:ring-yellow-400"
+        />
+        <label htmlFor="randomPositions" className="text-sm font-medium text-gray-400">Random start and target within the T&E limits</label>
+      </div>
+    </fieldset>
+  );
+};
+
+export default DrillPositionsEditor;
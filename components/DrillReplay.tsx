@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { DrillConfig } from '../App';
+import { DrillCommand, TAndE } from '../types';
+import TEGrid, { GUN_COLORS, GunMarker } from './TEGrid';
+import { DrillEngine, DrillEngineEvent } from '../services/drillEngine';
+import { commandDelay } from '../services/cadence';
+import { commandPlayer } from '../services/playback';
+import { tracePath } from '../services/scoring';
+import { ORIGIN, formatCommand, gunCount, gunIndex, isSamePosition } from '../services/commands';
+import { formatElevation, formatTraverse } from '../services/weaponProfiles';
+
+interface DrillReplayProps {
+  commands: DrillCommand[];
+  config: DrillConfig;
+  /** What the trainee dialed for each command, if the drill took input. */
+  dialed?: TAndE[];
+}
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2];
+
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const cumulative = (start: TAndE, deltas: TAndE[]): TAndE[] => {
+  let position = start;
+  return [start, ...deltas.map(delta => {
+    position = { traverse: position.traverse + delta.traverse, elevation: position.elevation + delta.elevation };
+    return position;
+  })];
+};
+
+/**
+ * Debrief view of a finished drill: the whole snake path on the grid, a
+ * scrubber through the commands, and playback at an adjustable speed with the
+ * commands spoken again. A section drill shows one gun's path at a time, with
+ * every gun's reticle.
+ */
+const DrillReplay: React.FC<DrillReplayProps> = ({ commands, config, dialed }) => {
+  const { commandInterval, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier, voice, weaponProfile: profile, positions: { start, target } } = config;
+  // `step` is the number of commands applied: 0 is the start, `commands.length` the end.
+  const [step, setStep] = useState(commands.length);
+  const [speed, setSpeed] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const engineRef = useRef<DrillEngine | null>(null);
+  const guns = useMemo(() => gunCount(commands), [commands]);
+  const section = guns > 1;
+  const [viewGun, setViewGun] = useState(0);
+
+  // Where each command left its own gun, and which commands belong to the gun on view.
+  const commandPositions = useMemo(() => tracePath(commands, start), [commands, start]);
+  const gunCommands = useMemo(
+    () => commands.flatMap((command, index) => gunIndex(command) === viewGun ? [index] : []),
+    [commands, viewGun],
+  );
+  const path = useMemo(() => [start, ...gunCommands.map(index => commandPositions[index])], [start, gunCommands, commandPositions]);
+  const traineePath = useMemo(() => dialed && cumulative(start, gunCommands.map(index => dialed[index])), [start, dialed, gunCommands]);
+  // Every gun's position once the first `count` commands are applied.
+  const positionsAfter = useCallback((count: number): TAndE[] => {
+    const positions = Array.from({ length: guns }, () => start);
+    commandPositions.slice(0, count).forEach((position, index) => { positions[gunIndex(commands[index])] = position; });
+    return positions;
+  }, [commands, commandPositions, guns, start]);
+  // The playback speed scales each command's own delay.
+  const timedCommands = useMemo(
+    () => commands.map(command => ({ ...command, delay: commandDelay(command, commandInterval) / speed })),
+    [commands, commandInterval, speed],
+  );
+
+  const handleEngineEvent = useCallback((event: DrillEngineEvent) => {
+    switch (event.type) {
+      case 'commandIssued':
+        if (voiceEnabled) {
+          commandPlayer.play(event.command, commandDelay(event.command, commandInterval), ttsManualSpeed, ttsSpeedMultiplier);
+        }
+        break;
+      case 'positionApplied':
+        setStep(event.index + 1);
+        break;
+      case 'stateChanged':
+        setPlaying(event.state === 'running');
+        break;
+      default:
+        break;
+    }
+  }, [commandInterval, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier]);
+
+  const handleEngineEventRef = useRef(handleEngineEvent);
+  useEffect(() => {
+    handleEngineEventRef.current = handleEngineEvent;
+  }, [handleEngineEvent]);
+
+  useEffect(() => {
+    if (voiceEnabled) {
+      commandPlayer.preload(commands, profile, voice);
+    }
+  }, [commands, profile, voice, voiceEnabled]);
+
+  // A new speed gets a new engine, so playback stops and resumes from the scrubber position.
+  useEffect(() => {
+    const engine = new DrillEngine(timedCommands, commandInterval, profile.limits, start);
+    engineRef.current = engine;
+    engine.subscribe(event => handleEngineEventRef.current(event));
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+      commandPlayer.stop();
+      setPlaying(false);
+    };
+  }, [timedCommands, commandInterval, profile, start]);
+
+  const handlePlayPause = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (playing) {
+      engine.pause();
+      return;
+    }
+    // Playing from the end starts over.
+    const from = step >= commands.length ? 0 : step;
+    setStep(from);
+    engine.seek(from);
+    engine.resume();
+  };
+
+  const handleScrub = (value: number) => {
+    engineRef.current?.pause();
+    commandPlayer.stop();
+    setStep(Math.max(0, Math.min(commands.length, value)));
+  };
+
+  const positions = positionsAfter(step);
+  const position = positions[viewGun];
+  const stepGun = step > 0 ? gunIndex(commands[step - 1]) : 0;
+  const before = step > 0 ? positionsAfter(step - 1)[stepGun] : start;
+
+  return (
+    <div className="mt-6 bg-gray-900 p-4 rounded-md text-left space-y-4">
+      <h4 className="text-lg font-semibold text-gray-400 text-center">Replay</h4>
+      <TEGrid
+        traverse={position.traverse}
+        elevation={position.elevation}
+        limits={profile.limits}
+        path={path}
+        comparePath={traineePath}
+        pathProgress={gunCommands.filter(index => index < step).length}
+        target={config.mode !== 'quiz' && !isSamePosition(target, ORIGIN) ? target : undefined}
+        reticles={section ? positions : undefined}
+      />
+      {section && (
+        <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Gun shown">
+          {positions.map((_, gun) => (
+            <button
+              key={gun}
+              type="button"
+              onClick={() => setViewGun(gun)}
+              className={`px-3 py-1 rounded-md border text-sm font-bold ${GUN_COLORS[gun % GUN_COLORS.length].text} ${gun === viewGun ? `${GUN_COLORS[gun % GUN_COLORS.length].border} bg-gray-700` : 'border-gray-700'}`}
+              aria-pressed={gun === viewGun}
+            >
+              <GunMarker gun={gun} />
+              GUN {gun + 1}
+            </button>
+          ))}
+        </div>
+      )}
+      {traineePath && (
+        <p className="text-xs text-center text-gray-500">
+          <span className="text-yellow-400">Solid</span>: commanded path. <span className="text-blue-400">Dashed</span>: what you dialed.
+        </p>
+      )}
+
+      <div className="text-center text-sm" aria-live="polite">
+        {step === 0 ? (
+          <p className="text-gray-300">Start: {formatTraverse(start.traverse, profile)}, {formatElevation(start.elevation, profile)}</p>
+        ) : (
+          <>
+            <p className="text-white font-bold">Command {step} / {commands.length}: {formatCommand(commands[step - 1], profile)}</p>
+            <p className="text-gray-400">
+              {formatTraverse(before.traverse, profile)}, {formatElevation(before.elevation, profile)}
+              {' → '}
+              <span className="text-gray-200">{formatTraverse(positions[stepGun].traverse, profile)}, {formatElevation(positions[stepGun].elevation, profile)}</span>
+            </p>
+          </>
+        )}
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={commands.length}
+        value={step}
+        onChange={(e) => handleScrub(parseInt(e.target.value, 10))}
+        className="w-full accent-yellow-500"
+        aria-label="Replay position"
+      />
+
+      <div className="flex items-center justify-center space-x-2">
+        <button type="button" onClick={() => handleScrub(step - 1)} disabled={step === 0} className={buttonClass}>Prev</button>
+        <button type="button" onClick={handlePlayPause} className={buttonClass}>{playing ? 'Pause' : 'Play'}</button>
+        <button type="button" onClick={() => handleScrub(step + 1)} disabled={step === commands.length} className={buttonClass}>Next</button>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          className="bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 outline-none text-sm"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default DrillReplay;
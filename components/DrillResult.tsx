@@ -1,15 +1,119 @@
-
-import React from 'react';
+import React, { useState } from 'react';
+import type { DrillConfig } from '../App';
+import { CommandGrade, DrillCommand, DrillOutcome, TAndE, WeaponProfile } from '../types';
 import { CheckCircleIcon, XCircleIcon } from './Icons';
+import DrillReplay from './DrillReplay';
+import { GUN_COLORS } from './TEGrid';
+import { formatSeed } from '../services/random';
+import { buildDrillLink } from '../services/drillCode';
+import { isDrillPassed, tracePath } from '../services/scoring';
+import { ORIGIN, formatCommand, isSamePosition } from '../services/commands';
+import { difficultyLabel, rateDifficulty } from '../services/drillGenerator';
+import { formatCadence } from '../services/cadence';
+import { formatElevation, formatTraverse, fromDisplayValue, toDisplayValue, unitLabel } from '../services/weaponProfiles';
 
 interface DrillResultProps {
-  finalTraverse: number;
-  finalElevation: number;
+  outcome: DrillOutcome;
+  commands: DrillCommand[];
+  config: DrillConfig;
+  seed?: number;
+  drillCode: string;
+  onQuizAnswer: (answer: TAndE) => void;
   onReset: () => void;
+  /** Label of the button that leaves the result, e.g. to hand over to the next trainee. */
+  resetLabel?: string | null;
+  /** The target called for each command, in a target-callout drill. */
+  callouts?: string[];
+  /** What the result changed, e.g. an adaptive level or a program's daily goal. */
+  notice?: string | null;
 }
 
-const DrillResult: React.FC<DrillResultProps> = ({ finalTraverse, finalElevation, onReset }) => {
-  const isSuccess = finalTraverse === 0 && finalElevation === 0;
+const GRADE_LABELS: Record<CommandGrade, { label: string; className: string }> = {
+  'correct': { label: 'CORRECT', className: 'text-green-400' },
+  'late': { label: 'LATE', className: 'text-yellow-400' },
+  'over': { label: 'OVER-DIALED', className: 'text-red-400' },
+  'under': { label: 'UNDER-DIALED', className: 'text-red-400' },
+  'wrong-axis': { label: 'WRONG AXIS', className: 'text-red-400' },
+  'missed': { label: 'MISSED', className: 'text-red-400' },
+};
+
+const QuizAnswerForm: React.FC<{ profile: WeaponProfile; onSubmit: (answer: TAndE) => void }> = ({ profile, onSubmit }) => {
+  const [traverseDirection, setTraverseDirection] = useState<'L' | 'R'>('R');
+  const [traverse, setTraverse] = useState('');
+  const [elevationDirection, setElevationDirection] = useState<'U' | 'D'>('U');
+  const [elevation, setElevation] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // The trainee calls the setting in the profile's display units.
+    const traverseClicks = fromDisplayValue(parseFloat(traverse) || 0, profile, 'traverse');
+    const elevationClicks = fromDisplayValue(parseFloat(elevation) || 0, profile, 'elevation');
+    onSubmit({
+      traverse: traverseDirection === 'L' ? -traverseClicks : traverseClicks,
+      elevation: elevationDirection === 'D' ? -elevationClicks : elevationClicks,
+    });
+  };
+
+  const fieldClass = 'bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 text-center">
+      <h3 className="text-2xl font-bold text-gray-200 mb-2">Call the Final Setting</h3>
+      <p className="text-gray-400 mb-6">Where did the commands leave your T&E? Answer in {profile.unit}.</p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center justify-center space-x-2">
+          <label htmlFor="quizTraverse" className="w-24 text-left text-sm text-gray-400">Traverse</label>
+          <select value={traverseDirection} onChange={(e) => setTraverseDirection(e.target.value as 'L' | 'R')} className={fieldClass} aria-label="Traverse direction">
+            <option value="L">L</option>
+            <option value="R">R</option>
+          </select>
+          <input id="quizTraverse" type="number" min="0" value={traverse} onChange={(e) => setTraverse(e.target.value)} placeholder="0" className={`${fieldClass} w-24`} autoFocus />
+        </div>
+        <div className="flex items-center justify-center space-x-2">
+          <label htmlFor="quizElevation" className="w-24 text-left text-sm text-gray-400">Elevation</label>
+          <select value={elevationDirection} onChange={(e) => setElevationDirection(e.target.value as 'U' | 'D')} className={fieldClass} aria-label="Elevation direction">
+            <option value="U">U</option>
+            <option value="D">D</option>
+          </select>
+          <input id="quizElevation" type="number" min="0" value={elevation} onChange={(e) => setElevation(e.target.value)} placeholder="0" className={`${fieldClass} w-24`} />
+        </div>
+        <button
+          type="submit"
+          className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg"
+        >
+          Check Answer
+        </button>
+      </form>
+    </div>
+  );
+};
+
+const DrillResult: React.FC<DrillResultProps> = ({ outcome, commands, config, seed, drillCode, onQuizAnswer, onReset, resetLabel, callouts, notice }) => {
+  const { commanded, trainee, score, quiz, guns, target = ORIGIN } = outcome;
+  const { mode, weaponProfile: profile, positions: { start } } = config;
+  const [copied, setCopied] = useState(false);
+
+  if (mode === 'quiz' && !quiz) {
+    return <QuizAnswerForm profile={profile} onSubmit={onQuizAnswer} />;
+  }
+
+  // Without trainee input or a quiz answer there is nothing to grade but where the commands ended.
+  const final = trainee ?? quiz?.answer ?? commanded;
+  // A quiz answer is checked against where the commands ended; everything else against the target.
+  const expected = quiz ? commanded : target;
+  const toZero = isSamePosition(target, ORIGIN);
+  const isSuccess = isDrillPassed(outcome);
+  const isOnTarget = (value: number, expectedValue: number) => (value === expectedValue ? 'text-green-400' : 'text-red-400');
+  const difficulty = rateDifficulty(commands, profile.limits, start);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildDrillLink(drillCode));
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy drill link:', error);
+    }
+  };
 
   return (
     <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 text-center">
@@ -17,29 +121,175 @@ const DrillResult: React.FC<DrillResultProps> = ({ finalTraverse, finalElevation
         <>
           <CheckCircleIcon className="w-20 h-20 text-green-500 mx-auto mb-4" />
           <h3 className="text-3xl font-bold text-green-400 mb-2">MISSION SUCCESS</h3>
-          <p className="text-gray-300">Your T&E settings have returned to zero. Well done.</p>
+          <p className="text-gray-300">
+            {quiz
+              ? 'You tracked the T&E correctly. Well done.'
+              : guns ? `All ${guns.length} guns are ${toZero ? 'back at zero' : 'on the target'}. Well done.`
+              : toZero ? 'Your T&E settings have returned to zero. Well done.' : 'Your T&E settings are on the target. Well done.'}
+          </p>
         </>
       ) : (
         <>
           <XCircleIcon className="w-20 h-20 text-red-500 mx-auto mb-4" />
           <h3 className="text-3xl font-bold text-red-400 mb-2">MISSION FAILURE</h3>
-          <p className="text-gray-300">Your final T&E settings were not zero. Practice makes perfect.</p>
+          <p className="text-gray-300">
+            {quiz
+              ? 'Your call did not match the final setting. Review the path below.'
+              : guns ? `Not every gun ended ${toZero ? 'at zero' : 'on the target'} with every command dialed correctly. See each gun below.`
+              : score && isSamePosition(final, commanded)
+                ? 'You ended on target, but not every command was dialed correctly.'
+                : `Your final T&E settings were not ${toZero ? 'zero' : 'on the target'}. Practice makes perfect.`}
+          </p>
         </>
       )}
+      <p className="text-sm text-gray-500 mt-2">
+        Difficulty: <span className="text-gray-300 font-bold">{difficulty} / 100</span> ({difficultyLabel(difficulty)}), {commands.length} commands @ {formatCadence(config.cadence, config.commandInterval)}
+      </p>
 
+      {guns ? (
+        <div className="mt-6 bg-gray-900 p-4 rounded-md text-left">
+          <h4 className="text-lg font-semibold text-gray-400 text-center">Final Settings by Gun ({unitLabel(profile)})</h4>
+          <table className="w-full mt-3 text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">Gun</th>
+                <th className="text-left font-normal pb-1">{trainee ? 'You Dialed' : 'Final T&E'}</th>
+                {score && <th className="text-left font-normal pb-1">Correct</th>}
+                <th className="text-right font-normal pb-1">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {guns.map((gun, index) => {
+                const gunFinal = gun.trainee ?? gun.commanded;
+                return (
+                  <tr key={index} className="border-t border-gray-800">
+                    <td className={`py-1 font-bold ${GUN_COLORS[index % GUN_COLORS.length].text}`}>GUN {index + 1}</td>
+                    <td className={`py-1 ${isSamePosition(gunFinal, target) ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatTraverse(gunFinal.traverse, profile)}, {formatElevation(gunFinal.elevation, profile)}
+                    </td>
+                    {score && <td className="py-1 text-gray-300">{gun.correctCount} / {gun.commandCount}</td>}
+                    <td className={`py-1 text-right font-bold ${gun.passed ? 'text-green-400' : 'text-red-400'}`}>{gun.passed ? 'PASS' : 'FAIL'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!toZero && (
+            <p className="text-sm text-gray-400 mt-2 text-center">
+              Target: {formatTraverse(target.traverse, profile)}, {formatElevation(target.elevation, profile)}
+            </p>
+          )}
+        </div>
+      ) : (
       <div className="mt-6 bg-gray-900 p-4 rounded-md">
-        <h4 className="text-lg font-semibold text-gray-400">Final Settings</h4>
+        <h4 className="text-lg font-semibold text-gray-400">{quiz ? 'Your Call' : 'Final Settings'} ({unitLabel(profile)})</h4>
         <div className="flex justify-around mt-2">
-            <p className="text-xl text-white">Traverse: <span className={finalTraverse === 0 ? 'text-green-400' : 'text-red-400'}>{finalTraverse}</span></p>
-            <p className="text-xl text-white">Elevation: <span className={finalElevation === 0 ? 'text-green-400' : 'text-red-400'}>{finalElevation}</span></p>
+            <p className="text-xl text-white">Traverse: <span className={isOnTarget(final.traverse, expected.traverse)}>{toDisplayValue(final.traverse, profile, 'traverse')}</span></p>
+            <p className="text-xl text-white">Elevation: <span className={isOnTarget(final.elevation, expected.elevation)}>{toDisplayValue(final.elevation, profile, 'elevation')}</span></p>
         </div>
+        {quiz && (
+          <p className="text-sm text-gray-400 mt-2">
+            Actual: {formatTraverse(commanded.traverse, profile)}, {formatElevation(commanded.elevation, profile)}
+          </p>
+        )}
+        {!quiz && !toZero && (
+          <p className="text-sm text-gray-400 mt-2">
+            Target: {formatTraverse(target.traverse, profile)}, {formatElevation(target.elevation, profile)}
+          </p>
+        )}
       </div>
+      )}
+
+      {quiz && (
+        <div className="mt-6 bg-gray-900 p-4 rounded-md text-left">
+          <h4 className="text-lg font-semibold text-gray-400 text-center">Debrief: Full Path</h4>
+          <table className="w-full mt-3 text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">#</th>
+                <th className="text-left font-normal pb-1">Command</th>
+                <th className="text-right font-normal pb-1">T&E After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!isSamePosition(start, ORIGIN) && (
+                <tr className="border-t border-gray-800">
+                  <td className="py-1 text-gray-500">0</td>
+                  <td className="py-1 text-gray-400">Start</td>
+                  <td className="py-1 text-right text-gray-300">{formatTraverse(start.traverse, profile)}, {formatElevation(start.elevation, profile)}</td>
+                </tr>
+              )}
+              {tracePath(commands, start).map((position, index) => (
+                <tr key={index} className="border-t border-gray-800">
+                  <td className="py-1 text-gray-500">{index + 1}</td>
+                  <td className="py-1 text-white">{formatCommand(commands[index], profile)}</td>
+                  <td className="py-1 text-right text-gray-300">{formatTraverse(position.traverse, profile)}, {formatElevation(position.elevation, profile)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {score && (
+        <div className="mt-6 bg-gray-900 p-4 rounded-md text-left">
+          <h4 className="text-lg font-semibold text-gray-400 text-center">
+            Command Breakdown ({score.correctCount} / {score.commands.length} correct)
+          </h4>
+          <table className="w-full mt-3 text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">#</th>
+                <th className="text-left font-normal pb-1">{callouts ? 'Target: Correction' : 'Command'}</th>
+                <th className="text-left font-normal pb-1">You Dialed</th>
+                <th className="text-right font-normal pb-1">Grade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {score.commands.map(({ command, dialed, grade }, index) => (
+                <tr key={index} className="border-t border-gray-800">
+                  <td className="py-1 text-gray-500">{index + 1}</td>
+                  <td className="py-1 text-white">
+                    {callouts && <span className="text-gray-400">{callouts[index]}: </span>}
+                    {formatCommand(command, profile)}
+                  </td>
+                  <td className="py-1 text-gray-300">
+                    {dialed.traverse === 0 && dialed.elevation === 0
+                      ? '—'
+                      : [dialed.traverse !== 0 && formatTraverse(dialed.traverse, profile), dialed.elevation !== 0 && formatElevation(dialed.elevation, profile)]
+                          .filter(Boolean)
+                          .join(', ')}
+                  </td>
+                  <td className={`py-1 text-right font-bold ${GRADE_LABELS[grade].className}`}>{GRADE_LABELS[grade].label}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <DrillReplay commands={commands} config={config} dialed={score?.commands.map(c => c.dialed)} />
+
+      {drillCode && (
+        <div className="mt-6 bg-gray-900 p-4 rounded-md">
+          <h4 className="text-lg font-semibold text-gray-400">Run This Drill Again</h4>
+          {seed !== undefined && <p className="text-sm text-gray-400 mt-2">Seed: <span className="text-white font-bold">{formatSeed(seed)}</span></p>}
+          <p className="text-sm text-gray-400 mt-1 break-all">Drill code: <span className="text-white">{drillCode}</span></p>
+          <button
+            onClick={handleCopyLink}
+            className="mt-3 bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-200 text-sm"
+          >
+            {copied ? 'Link Copied' : 'Copy Drill Link'}
+          </button>
+        </div>
+      )}
 
+      {notice && <p className="mt-8 text-center text-yellow-400 font-bold">{notice}</p>}
       <button
         onClick={onReset}
         className="mt-8 w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg"
       >
-        Run New Drill
+        {resetLabel ?? 'Run New Drill'}
       </button>
     </div>
   );
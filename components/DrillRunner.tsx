@@ -1,106 +1,301 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { DrillCommand, Direction } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { DrillCommand, Direction, DrillMode, DrillOutcome, NoiseSettings, TAndE, TraineeInput, VoiceSettings, WeaponProfile } from '../types';
 import { ArrowUpIcon, ArrowDownIcon, ArrowLeftIcon, ArrowRightIcon } from './Icons';
-import TEGrid from './TEGrid';
-import { commandPlayer } from '../services/speech';
+import TEGrid, { GUN_COLORS, GunMarker } from './TEGrid';
+import { commandPlayer } from '../services/playback';
+import { scoreDrill, scoreSectionDrill } from '../services/scoring';
+import { ORIGIN, commandParts, directionAxis, directionToDelta, formatCommand, gunCount, gunIndex, isSamePosition } from '../services/commands';
+import { DrillEngine, DrillEngineEvent, DrillEngineState } from '../services/drillEngine';
+import { commandDelay, commandStartTimes } from '../services/cadence';
+import { formatSeed } from '../services/random';
+import { CalloutDrill } from '../services/rangeCards';
+import { clampToLimits, formatElevation, formatTraverse, toDisplayValue, unitLabel } from '../services/weaponProfiles';
 
 interface DrillRunnerProps {
   commands: DrillCommand[];
+  /** Seconds between commands, for commands without their own delay. */
   commandInterval: number;
   voiceEnabled: boolean;
   ttsManualSpeed: boolean;
   ttsSpeedMultiplier: number;
-  maxTAndE: number;
-  onFinish: (finalTraverse: number, finalElevation: number) => void;
+  voice: VoiceSettings;
+  /** Background sound played while the drill clock runs. */
+  noise: NoiseSettings;
+  profile: WeaponProfile;
+  mode: DrillMode;
+  /** Where the T&E is set before the first command. */
+  start: TAndE;
+  /** Where the commands must leave the T&E; not shown in quiz mode, where the drill ends anywhere. */
+  target: TAndE;
+  seed?: number;
+  /** The trainee on the gun, in a squad drill. */
+  traineeName?: string;
+  /** The stage being run, in a qualification table, e.g. "Stage 2 / 3: Intermediate". */
+  stageLabel?: string;
+  /**
+   * In a target-callout drill, the targets called instead of the commands.
+   * Each command's correction is revealed halfway through its interval.
+   */
+  callout?: CalloutDrill;
+  /** Scales the command and T&E readouts to fill the screen, in place of the grid. */
+  largePrint?: boolean;
+  onFinish: (outcome: DrillOutcome) => void;
   onReset: () => void;
 }
 
-const CommandDisplay: React.FC<{ command: DrillCommand }> = ({ command }) => {
-    const getIcon = () => {
-        switch (command.direction) {
-            case Direction.Up: return <ArrowUpIcon className="w-8 h-8 mr-3 text-green-400" />;
-            case Direction.Down: return <ArrowDownIcon className="w-8 h-8 mr-3 text-red-400" />;
-            case Direction.Left: return <ArrowLeftIcon className="w-8 h-8 mr-3 text-blue-400" />;
-            case Direction.Right: return <ArrowRightIcon className="w-8 h-8 mr-3 text-yellow-400" />;
+/**
+ * Shows a command with an arrow per part. A section drill's command is headed
+ * with its gun in the gun's colour, a correction is headed "CORRECTION", and a
+ * command that has been called off is struck through and marked "DISREGARD".
+ */
+const CommandDisplay: React.FC<{ command: DrillCommand; profile: WeaponProfile; large?: boolean; disregarded?: boolean }> = ({ command, profile, large, disregarded }) => {
+    const iconSize = large ? 'w-16 h-16 md:w-24 md:h-24 mr-4' : 'w-8 h-8 mr-3';
+    const getIcon = (direction: Direction) => {
+        switch (direction) {
+            case Direction.Up: return <ArrowUpIcon className={`${iconSize} text-green-400`} />;
+            case Direction.Down: return <ArrowDownIcon className={`${iconSize} text-red-400`} />;
+            case Direction.Left: return <ArrowLeftIcon className={`${iconSize} text-blue-400`} />;
+            case Direction.Right: return <ArrowRightIcon className={`${iconSize} text-yellow-400`} />;
         }
     };
     return (
-        <div className="bg-gray-900 p-6 rounded-lg border border-gray-700 flex items-center justify-center min-h-[100px]">
-            {getIcon()}
-            <span className="text-4xl font-bold tracking-widest text-white">{command.direction} {command.value}</span>
+        <div className={`bg-gray-900 p-6 rounded-lg border border-gray-700 flex flex-wrap items-center justify-center gap-x-8 gap-y-2 ${large ? 'min-h-[40vh]' : 'min-h-[100px]'}`}>
+            {command.gun && (
+                <p className={`w-full text-center ${large ? 'text-4xl md:text-6xl' : 'text-xl'} font-bold tracking-widest ${GUN_COLORS[gunIndex(command) % GUN_COLORS.length].text}`}>GUN {command.gun}</p>
+            )}
+            {command.correction && (
+                <p className={`w-full text-center ${large ? 'text-4xl md:text-6xl' : 'text-xl'} font-bold tracking-widest text-yellow-400`}>CORRECTION</p>
+            )}
+            {commandParts(command).map(part => (
+                <div key={part.direction} className={`flex items-center ${disregarded ? 'opacity-40 line-through' : ''}`}>
+                    {getIcon(part.direction)}
+                    <span className={`${large ? 'text-6xl md:text-9xl' : 'text-4xl'} font-bold tracking-widest text-white`}>{part.direction} {toDisplayValue(part.value, profile, directionAxis(part.direction))}</span>
+                </div>
+            ))}
+            {disregarded && (
+                <p className={`w-full text-center ${large ? 'text-4xl md:text-6xl' : 'text-xl'} font-bold tracking-widest text-red-400`}>DISREGARD</p>
+            )}
         </div>
     );
 };
 
+const ARROW_KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: Direction.Up,
+  ArrowDown: Direction.Down,
+  ArrowLeft: Direction.Left,
+  ArrowRight: Direction.Right,
+};
+
+// Longest click count the trainee can type before an arrow key.
+const MAX_PENDING_DIGITS = 3;
 
-const DrillRunner: React.FC<DrillRunnerProps> = ({ commands, commandInterval, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier, maxTAndE, onFinish, onReset }) => {
+const DrillRunner: React.FC<DrillRunnerProps> = ({ commands, commandInterval, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier, voice, noise, profile, mode, start, target, seed, traineeName, stageLabel, callout, largePrint, onFinish, onReset }) => {
+  // A section drill has a T&E per gun; every position below is kept by gun index.
+  const guns = useMemo(() => gunCount(commands), [commands]);
+  const section = guns > 1;
+  const startPositions = useMemo(() => Array.from({ length: guns }, () => start), [guns, start]);
   const [currentCommandIndex, setCurrentCommandIndex] = useState(0);
   // Use a ref for the logical T&E state to prevent stale closures in timers.
-  const tAndERef = useRef({ traverse: 0, elevation: 0 });
+  const tAndERef = useRef(startPositions);
   // Use state only for what needs to be rendered.
-  const [displayTAndE, setDisplayTAndE] = useState({ traverse: 0, elevation: 0 });
+  const [displayTAndE, setDisplayTAndE] = useState(startPositions);
+  // In interactive mode the trainee's dialed positions are tracked apart from the commanded ones.
+  const traineeRef = useRef(startPositions);
+  const [displayTraineeTAndE, setDisplayTraineeTAndE] = useState(startPositions);
+  // The gun the trainee is dialing: the one last called, or the one picked with Tab.
+  const activeGunRef = useRef(0);
+  const [activeGun, setActiveGun] = useState(0);
+  const inputsRef = useRef<TraineeInput[]>([]);
+  const issuedAtRef = useRef<number[]>([]);
+  const pendingDigitsRef = useRef('');
+  const [pendingDigits, setPendingDigits] = useState('');
+  const engineRef = useRef<DrillEngine | null>(null);
+  const [engineState, setEngineState] = useState<DrillEngineState>('ready');
+  // The last callout whose correction has been revealed, or the last command called off by "DISREGARD".
+  const [revealedIndex, setRevealedIndex] = useState(-1);
+  // Why the last callout could not be voiced, e.g. the voice pack has no clip for the target.
+  const [voiceError, setVoiceError] = useState<string | null>(null);
 
   const currentCommand = commands[currentCommandIndex];
+  const interactive = mode === 'interactive';
 
-  // Effect for handling speech and command progression.
-  // It only depends on the command index and props that don't change during the drill.
-  useEffect(() => {
-    if (!currentCommand) {
-      if (commands.length > 0) {
-        // This case can happen if commands are cleared while a drill is running.
-        onFinish(tAndERef.current.traverse, tAndERef.current.elevation);
-      }
+  const selectGun = useCallback((gun: number) => {
+    activeGunRef.current = gun;
+    setActiveGun(gun);
+  }, []);
+
+  const finish = useCallback(() => {
+    const commanded = tAndERef.current;
+    const commandCounts = commanded.map((_, gun) => commands.filter(command => gunIndex(command) === gun).length);
+    if (!interactive) {
+      onFinish({
+        commanded: commanded[0],
+        target,
+        ...(section && { guns: commanded.map((position, gun) => ({ commanded: position, passed: isSamePosition(position, target), commandCount: commandCounts[gun] })) }),
+      });
       return;
     }
+    const trainee = traineeRef.current;
+    if (!section) {
+      const score = scoreDrill(commands, issuedAtRef.current, inputsRef.current, commandInterval, trainee[0], commanded[0]);
+      onFinish({ commanded: commanded[0], target, trainee: trainee[0], score });
+      return;
+    }
+    const scored = scoreSectionDrill(commands, issuedAtRef.current, inputsRef.current, commandInterval,
+      commanded.map((position, gun) => ({ commanded: position, trainee: trainee[gun] })));
+    onFinish({
+      commanded: commanded[0],
+      target,
+      trainee: trainee[0],
+      score: scored.score,
+      guns: commanded.map((position, gun) => ({
+        commanded: position,
+        trainee: trainee[gun],
+        passed: scored.guns[gun].passed,
+        correctCount: scored.guns[gun].correctCount,
+        commandCount: commandCounts[gun],
+      })),
+    });
+  }, [commands, commandInterval, interactive, section, target, onFinish]);
 
-    if (voiceEnabled) {
-      const MIN_SPEECH_INTERVAL_S = 0.1;
-      if (commandInterval >= MIN_SPEECH_INTERVAL_S) {
-        commandPlayer.play(currentCommand, commandInterval, ttsManualSpeed, ttsSpeedMultiplier);
-      } else {
-        commandPlayer.stop();
+  const handleEngineEvent = useCallback((event: DrillEngineEvent) => {
+    switch (event.type) {
+      case 'commandIssued': {
+        issuedAtRef.current[event.index] = event.at;
+        setCurrentCommandIndex(event.index);
+        if (section) {
+          selectGun(gunIndex(event.command));
+        }
+        if (voiceEnabled && callout) {
+          try {
+            commandPlayer.playText(callout.names[event.index], voice);
+            setVoiceError(null);
+          } catch (error) {
+            setVoiceError(error instanceof Error ? error.message : String(error));
+          }
+        } else if (voiceEnabled) {
+          const MIN_SPEECH_INTERVAL_S = 0.1;
+          // Each command is voiced to fit its own delay, so fast commands in a varied cadence are spoken faster.
+          const delay = commandDelay(event.command, commandInterval);
+          if (delay >= MIN_SPEECH_INTERVAL_S) {
+            commandPlayer.play(event.command, delay, ttsManualSpeed, ttsSpeedMultiplier);
+          } else {
+            commandPlayer.stop();
+          }
+        }
+        break;
       }
+      case 'positionApplied':
+        // Update the ref for the final outcome and the state for the UI.
+        tAndERef.current = event.positions;
+        setDisplayTAndE(event.positions);
+        if (callout) {
+          setRevealedIndex(event.index);
+          if (voiceEnabled) {
+            commandPlayer.play(commands[event.index], commandDelay(commands[event.index], commandInterval) / 2, ttsManualSpeed, ttsSpeedMultiplier);
+          }
+        } else if (commands[event.index].calledOff === 'disregard') {
+          // The move was not applied; the call comes where it would have landed.
+          setRevealedIndex(event.index);
+          if (voiceEnabled) {
+            commandPlayer.playDisregard(commandDelay(commands[event.index], commandInterval) / 2, ttsManualSpeed, ttsSpeedMultiplier);
+          }
+        }
+        break;
+      case 'stateChanged':
+        setEngineState(event.state);
+        if (event.state === 'paused') {
+          commandPlayer.stop();
+        }
+        break;
+      case 'restarted':
+        tAndERef.current = startPositions;
+        traineeRef.current = startPositions;
+        selectGun(0);
+        setRevealedIndex(-1);
+        setVoiceError(null);
+        inputsRef.current = [];
+        issuedAtRef.current = [];
+        pendingDigitsRef.current = '';
+        setPendingDigits('');
+        setDisplayTAndE(tAndERef.current);
+        setDisplayTraineeTAndE(traineeRef.current);
+        break;
+      case 'finished':
+        // The drill is over. `tAndERef` has the final, correct values.
+        finish();
+        break;
     }
+  }, [commands, commandInterval, finish, section, selectGun, startPositions, callout, voice, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier]);
 
-    // Timer to update the grid/display halfway through the interval.
-    const gridUpdateTimer = setTimeout(() => {
-      let { traverse, elevation } = tAndERef.current;
-      const { direction, value } = currentCommand;
+  // The engine outlives re-renders, so it always calls the latest event handler.
+  const handleEngineEventRef = useRef(handleEngineEvent);
+  useEffect(() => {
+    handleEngineEventRef.current = handleEngineEvent;
+  }, [handleEngineEvent]);
 
-      switch (direction) {
-        case Direction.Up:    elevation += value; break;
-        case Direction.Down:  elevation -= value; break;
-        case Direction.Left:  traverse  -= value; break;
-        case Direction.Right: traverse  += value; break;
-      }
-      
-      traverse = Math.max(-maxTAndE, Math.min(maxTAndE, traverse));
-      elevation = Math.max(-maxTAndE, Math.min(maxTAndE, elevation));
-      
-      // Update the ref for the next logical step.
-      tAndERef.current = { traverse, elevation };
-      // Update the state to trigger a re-render for the UI.
-      setDisplayTAndE({ traverse, elevation });
+  // One engine runs the whole drill; it is only rebuilt if the drill itself changes.
+  useEffect(() => {
+    if (commands.length === 0) return;
+    const engine = new DrillEngine(commands, commandInterval, profile.limits, start);
+    engineRef.current = engine;
+    engine.subscribe(event => handleEngineEventRef.current(event));
+    engine.start();
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [commands, commandInterval, profile, start]);
 
-    }, (commandInterval * 1000) / 2);
+  // Keyboard input for interactive mode: an arrow dials one click, or a number typed first sets the click count.
+  // In a section drill Tab moves to the next gun.
+  useEffect(() => {
+    if (!interactive) return;
 
-    // Timer to advance to the next command at the end of the interval.
-    const nextCommandTimer = setTimeout(() => {
-      if (currentCommandIndex >= commands.length - 1) {
-        // The drill is over. `tAndERef` has the final, correct values.
-        onFinish(tAndERef.current.traverse, tAndERef.current.elevation);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const direction = ARROW_KEY_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        const clicks = parseInt(pendingDigitsRef.current, 10) || 1;
+        const gun = activeGunRef.current;
+        // Input is timed on the drill clock, which stands still while paused.
+        inputsRef.current.push({ direction, clicks, at: engineRef.current?.now() ?? 0, ...(section && { gun: gun + 1 }) });
+
+        const delta = directionToDelta(direction, clicks);
+        const dialed = traineeRef.current[gun];
+        const positions = [...traineeRef.current];
+        positions[gun] = clampToLimits({
+          traverse: dialed.traverse + delta.traverse,
+          elevation: dialed.elevation + delta.elevation,
+        }, profile.limits);
+        traineeRef.current = positions;
+        setDisplayTraineeTAndE(positions);
+        pendingDigitsRef.current = '';
+      } else if (e.key === 'Tab' && section) {
+        e.preventDefault();
+        selectGun((activeGunRef.current + (e.shiftKey ? guns - 1 : 1)) % guns);
+        return;
+      } else if (/^[0-9]$/.test(e.key)) {
+        pendingDigitsRef.current = (pendingDigitsRef.current + e.key).slice(-MAX_PENDING_DIGITS);
+      } else if (e.key === 'Escape' || e.key === 'Backspace') {
+        pendingDigitsRef.current = '';
       } else {
-        setCurrentCommandIndex(prev => prev + 1);
+        return;
       }
-    }, commandInterval * 1000);
-
-    return () => {
-      clearTimeout(gridUpdateTimer);
-      clearTimeout(nextCommandTimer);
+      setPendingDigits(pendingDigitsRef.current);
     };
 
-  }, [currentCommandIndex, commands, commandInterval, onFinish, voiceEnabled, ttsManualSpeed, ttsSpeedMultiplier, currentCommand, maxTAndE]);
-  
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [interactive, profile, section, guns, selectGun]);
+
+  // The noise follows the drill clock, so it falls silent while the drill is paused.
+  useEffect(() => {
+    if (engineState !== 'running') return;
+    commandPlayer.playNoise(noise);
+    return () => commandPlayer.stopNoise();
+  }, [engineState, noise]);
+
   // Cleanup effect to stop any speech when the component unmounts
   useEffect(() => {
     return () => commandPlayer.stop();
@@ -110,8 +305,23 @@ const DrillRunner: React.FC<DrillRunnerProps> = ({ commands, commandInterval, vo
     commandPlayer.stop(); // Immediately stop any speech
     onReset(); // Then reset the drill state
   };
+
+  const handleRestartClick = () => {
+    commandPlayer.stop();
+    engineRef.current?.restart();
+  };
+
+  const handlePauseClick = () => {
+    if (engineState === 'paused') {
+      engineRef.current?.resume();
+    } else {
+      engineRef.current?.pause();
+    }
+  };
   
-  const progressPercentage = (currentCommandIndex / commands.length) * 100;
+  // Progress is drill time, so a varied cadence moves the bar at its own pace.
+  const startTimes = useMemo(() => commandStartTimes(commands, commandInterval), [commands, commandInterval]);
+  const progressPercentage = (startTimes[currentCommandIndex] / startTimes[commands.length]) * 100;
 
   if (!currentCommand) {
     return (
@@ -121,35 +331,135 @@ const DrillRunner: React.FC<DrillRunnerProps> = ({ commands, commandInterval, vo
     );
   }
 
+  // In interactive mode the trainee sees only what they have dialed themselves.
+  const shownPositions = interactive ? displayTraineeTAndE : displayTAndE;
+  const shownTAndE = shownPositions[activeGun];
+  const readoutPrefix = `${section ? `GUN ${activeGun + 1} ` : ''}${interactive ? 'YOUR ' : ''}`;
+  // A callout drill's targets are on the range card rather than set for the drill.
+  const showsPositions = !callout && (!isSamePosition(start, ORIGIN) || (mode !== 'quiz' && !isSamePosition(target, ORIGIN)));
+  const readoutClass = largePrint ? 'text-5xl md:text-8xl' : 'text-3xl';
+
   return (
     <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
-      <TEGrid traverse={displayTAndE.traverse} elevation={displayTAndE.elevation} maxTAndE={maxTAndE} />
-      <div className="grid grid-cols-2 gap-4 text-center">
-        <div>
-          <p className="text-sm text-gray-400">TRAVERSE (L/R)</p>
-          <p className="text-3xl font-bold text-white">{displayTAndE.traverse >= 0 ? `R ${displayTAndE.traverse}`: `L ${Math.abs(displayTAndE.traverse)}`}</p>
-        </div>
-        <div>
-          <p className="text-sm text-gray-400">ELEVATION (U/D)</p>
-          <p className="text-3xl font-bold text-white">{displayTAndE.elevation >= 0 ? `U ${displayTAndE.elevation}`: `D ${Math.abs(displayTAndE.elevation)}`}</p>
-        </div>
-      </div>
+      {stageLabel && (
+        <p className="text-center text-sm text-gray-400 uppercase">{stageLabel}</p>
+      )}
+      {traineeName && (
+        <p className="text-center text-lg text-gray-300">ON THE GUN: <span className="text-yellow-400 font-bold">{traineeName}</span></p>
+      )}
+      {showsPositions && (
+        <p className="text-center text-gray-300">
+          START <span className="text-white font-bold">{formatTraverse(start.traverse, profile)}, {formatElevation(start.elevation, profile)}</span>
+          {mode !== 'quiz' && (
+            <> → TARGET <span className="text-yellow-400 font-bold">{formatTraverse(target.traverse, profile)}, {formatElevation(target.elevation, profile)}</span></>
+          )}
+        </p>
+      )}
+      {mode === 'quiz' ? (
+        // The quiz tests tracking the T&E mentally, so the grid and readouts stay hidden.
+        <p className="text-center text-gray-400">Track the T&E in your head. You will call the final setting at the end.</p>
+      ) : (
+        <>
+          {!largePrint && <TEGrid
+            traverse={shownTAndE.traverse}
+            elevation={shownTAndE.elevation}
+            limits={profile.limits}
+            target={showsPositions ? target : undefined}
+            markers={callout?.card.targets.map(t => ({ label: t.name, position: t.position }))}
+            reticles={section ? shownPositions : undefined}
+          />}
+          {section && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {shownPositions.map((position, gun) => (
+                <button
+                  key={gun}
+                  type="button"
+                  onClick={() => selectGun(gun)}
+                  className={`px-3 py-1 rounded-md border text-sm ${gun === activeGun ? `${GUN_COLORS[gun % GUN_COLORS.length].border} bg-gray-700` : 'border-gray-700'}`}
+                  aria-pressed={gun === activeGun}
+                >
+                  <GunMarker gun={gun} />
+                  <span className={`font-bold ${GUN_COLORS[gun % GUN_COLORS.length].text}`}>GUN {gun + 1}</span>
+                  <span className="ml-2 text-gray-300">{formatTraverse(position.traverse, profile)}, {formatElevation(position.elevation, profile)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div>
+              <p className="text-sm text-gray-400">{readoutPrefix}TRAVERSE (L/R, {unitLabel(profile)})</p>
+              <p className={`${readoutClass} font-bold text-white`}>{formatTraverse(shownTAndE.traverse, profile)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">{readoutPrefix}ELEVATION (U/D, {unitLabel(profile)})</p>
+              <p className={`${readoutClass} font-bold text-white`}>{formatElevation(shownTAndE.elevation, profile)}</p>
+            </div>
+          </div>
+        </>
+      )}
+
+      {interactive && (
+        <p className="text-center text-sm text-gray-400" aria-live="polite">
+          Dial with the arrow keys (type a number first for multiple clicks){section && ', Tab to switch guns'}: <span className="text-yellow-400 font-bold">{pendingDigits || '1'}</span>
+        </p>
+      )}
       
       <div>
-        <p className="text-center text-gray-400 mb-2">COMMAND {currentCommandIndex + 1} / {commands.length}</p>
-        <CommandDisplay command={currentCommand} />
+        <p className="text-center text-gray-400 mb-2">
+          {callout ? 'CALLOUT' : 'COMMAND'} {currentCommandIndex + 1} / {commands.length}
+          {seed !== undefined && <span className="ml-4 text-gray-500">SEED {formatSeed(seed)}</span>}
+          {engineState === 'paused' && <span className="ml-4 text-yellow-400 font-bold">PAUSED</span>}
+        </p>
+        {callout ? (
+          <div className="bg-gray-900 p-6 rounded-lg border border-gray-700 text-center min-h-[100px] space-y-2">
+            <p className={`${largePrint ? 'text-6xl md:text-9xl' : 'text-4xl'} font-bold tracking-widest text-white`}>{callout.names[currentCommandIndex]}</p>
+            <p className="text-lg text-gray-400">
+              {revealedIndex === currentCommandIndex
+                ? <>CORRECTION: <span className="text-yellow-400 font-bold">{formatCommand(currentCommand, profile)}</span></>
+                : 'Work out the shift from your current setting.'}
+            </p>
+            {voiceError && <p className="text-sm text-yellow-400" role="alert">{voiceError}</p>}
+          </div>
+        ) : (
+          <CommandDisplay command={currentCommand} profile={profile} large={largePrint} disregarded={revealedIndex === currentCommandIndex && currentCommand.calledOff === 'disregard'} />
+        )}
       </div>
 
       <div className="w-full bg-gray-700 rounded-full h-2.5">
           <div className="bg-yellow-400 h-2.5 rounded-full" style={{ width: `${progressPercentage}%` }} title={`Drill progress: ${Math.round(progressPercentage)}%`}></div>
       </div>
 
-      <button
-        onClick={handleStopClick}
-        className="w-full bg-red-600 text-white font-bold py-3 px-4 rounded-md hover:bg-red-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-600 transition-all duration-200 text-lg"
-      >
-        Stop Drill
-      </button>
+      <div className="flex space-x-3">
+        <button
+          onClick={handlePauseClick}
+          disabled={engineState !== 'running' && engineState !== 'paused'}
+          className="flex-1 bg-gray-700 text-gray-200 font-bold py-3 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+        >
+          {engineState === 'paused' ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          onClick={() => engineRef.current?.step()}
+          disabled={engineState !== 'paused'}
+          title="Apply the current command and issue the next one"
+          className="flex-1 bg-gray-700 text-gray-200 font-bold py-3 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+        >
+          Step
+        </button>
+        <button
+          onClick={handleRestartClick}
+          disabled={engineState !== 'running' && engineState !== 'paused'}
+          title="Start the drill again from the first command"
+          className="flex-1 bg-gray-700 text-gray-200 font-bold py-3 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+        >
+          Restart
+        </button>
+        <button
+          onClick={handleStopClick}
+          className="flex-1 bg-red-600 text-white font-bold py-3 px-4 rounded-md hover:bg-red-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-600 transition-all duration-200 text-lg"
+        >
+          Stop Drill
+        </button>
+      </div>
     </div>
   );
 };
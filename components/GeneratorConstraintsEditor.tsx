@@ -0,0 +1,91 @@
+import React from 'react';
+import { DrillConstraints } from '../types';
+
+interface GeneratorConstraintsEditorProps {
+  constraints: DrillConstraints;
+  onChange: (constraints: DrillConstraints) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+
+const GeneratorConstraintsEditor: React.FC<GeneratorConstraintsEditorProps> = ({ constraints, onChange }) => {
+  const update = (changes: Partial<DrillConstraints>) => onChange({ ...constraints, ...changes });
+
+  return (
+    <fieldset className="space-y-4 rounded-md border border-gray-700 p-4">
+      <legend className="text-sm font-medium text-gray-400 px-2">Generator Constraints</legend>
+      <div>
+        <label htmlFor="valueWeights" className="block text-xs text-gray-400 mb-1">Click Value Weights</label>
+        <input
+          id="valueWeights"
+          type="text"
+          value={constraints.valueWeights}
+          onChange={(e) => update({ valueWeights: e.target.value })}
+          placeholder="Equal"
+          className={inputClass}
+          aria-describedby="valueWeights-help"
+        />
+        <p id="valueWeights-help" className="text-xs text-gray-500 mt-1">
+          Whole numbers in the same order as the click values, e.g. "3, 1" makes the first value three times as common.
+        </p>
+      </div>
+      <div>
+        <label htmlFor="traverseBias" className="block text-xs text-gray-400 mb-1">
+          Axis Bias ({Math.round(constraints.traverseBias * 100)}% traverse)
+        </label>
+        <input
+          id="traverseBias"
+          type="range"
+          min="0"
+          max="100"
+          step="5"
+          value={Math.round(constraints.traverseBias * 100)}
+          onChange={(e) => update({ traverseBias: parseInt(e.target.value, 10) / 100 })}
+          className="w-full accent-yellow-500"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="maxAxisRun" className="block text-xs text-gray-400 mb-1">Longest Run on One Axis</label>
+          <input
+            id="maxAxisRun"
+            type="number"
+            min="0"
+            value={constraints.maxAxisRun}
+            onChange={(e) => update({ maxAxisRun: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+            aria-describedby="maxAxisRun-help"
+          />
+          <p id="maxAxisRun-help" className="text-xs text-gray-500 mt-1">Commands in a row; 0 for no limit.</p>
+        </div>
+        <div>
+          <label htmlFor="minSpread" className="block text-xs text-gray-400 mb-1">Minimum Spread (%)</label>
+          <input
+            id="minSpread"
+            type="number"
+            min="0"
+            max="100"
+            step="10"
+            value={Math.round(constraints.minSpread * 100)}
+            onChange={(e) => update({ minSpread: (parseInt(e.target.value, 10) || 0) / 100 })}
+            className={inputClass}
+            aria-describedby="minSpread-help"
+          />
+          <p id="minSpread-help" className="text-xs text-gray-500 mt-1">How close to a T&E limit the snake must get.</p>
+        </div>
+      </div>
+      <div className="flex items-center justify-start space-x-3">
+        <input
+          id="noImmediateUndo"
+          type="checkbox"
+          checked={constraints.noImmediateUndo}
+          onChange={(e) => update({ noImmediateUndo: e.target.checked })}
+          className="h-5 w-5 rounded bg-gray-900 border-gray-600 text-yellow-500 focus:ring-yellow-400"
+        />
+        <label htmlFor="noImmediateUndo" className="text-sm font-medium text-gray-400">No Immediate Undo (e.g. "LEFT 5" then "RIGHT 5")</label>
+      </div>
+    </fieldset>
+  );
+};
+
+export default GeneratorConstraintsEditor;
@@ -0,0 +1,204 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { DrillConfig } from '../App';
+import {
+  SessionRecord, loadHistory, clearHistory, mergeHistory, historyToJson, historyToCsv, parseHistoryFile,
+} from '../services/history';
+import { downloadTextFile, readTextFile } from '../services/files';
+import { formatCadence } from '../services/cadence';
+
+interface HistoryViewProps {
+  config: DrillConfig;
+  onClose: () => void;
+}
+
+// Only the most recent sessions are listed; the charts use all of them.
+const MAX_LISTED_SESSIONS = 50;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 24;
+
+const SuccessByIntervalChart: React.FC<{ records: SessionRecord[] }> = ({ records }) => {
+  const groups = useMemo(() => {
+    const byInterval = new Map<number, { total: number; passed: number }>();
+    for (const record of records) {
+      const group = byInterval.get(record.config.commandInterval) ?? { total: 0, passed: 0 };
+      group.total++;
+      if (record.passed) group.passed++;
+      byInterval.set(record.config.commandInterval, group);
+    }
+    return [...byInterval.entries()].sort(([a], [b]) => a - b);
+  }, [records]);
+
+  const barSlot = (CHART_WIDTH - CHART_PADDING * 2) / Math.max(groups.length, 1);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Success rate by command interval">
+      <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-gray-600" />
+      {groups.map(([interval, { total, passed }], index) => {
+        const rate = passed / total;
+        const height = rate * plotHeight;
+        const x = CHART_PADDING + index * barSlot + barSlot * 0.15;
+        return (
+          <g key={interval}>
+            <rect x={x} y={CHART_HEIGHT - CHART_PADDING - height} width={barSlot * 0.7} height={height} className="fill-yellow-400" />
+            <text x={x + barSlot * 0.35} y={CHART_HEIGHT - CHART_PADDING - height - 4} fontSize="9" className="fill-gray-300" textAnchor="middle">
+              {Math.round(rate * 100)}%
+            </text>
+            <text x={x + barSlot * 0.35} y={CHART_HEIGHT - 8} fontSize="9" className="fill-gray-400" textAnchor="middle">{interval}s</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const IntervalTrendChart: React.FC<{ records: SessionRecord[] }> = ({ records }) => {
+  const maxInterval = Math.max(...records.map(r => r.config.commandInterval), 1);
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const x = (index: number) => CHART_PADDING + (records.length > 1 ? (index / (records.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (interval: number) => CHART_HEIGHT - CHART_PADDING - (interval / maxInterval) * plotHeight;
+
+  // Step line of the fastest interval passed so far.
+  let fastest = Infinity;
+  const fastestPoints: string[] = [];
+  records.forEach((record, index) => {
+    if (record.passed) fastest = Math.min(fastest, record.config.commandInterval);
+    if (fastest !== Infinity) fastestPoints.push(`${x(index)},${y(fastest)}`);
+  });
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Command interval per session over time">
+      <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-gray-600" />
+      <text x={4} y={CHART_PADDING} fontSize="9" className="fill-gray-400">{maxInterval}s</text>
+      <text x={4} y={CHART_HEIGHT - CHART_PADDING} fontSize="9" className="fill-gray-400">0s</text>
+      {fastestPoints.length > 1 && <polyline points={fastestPoints.join(' ')} fill="none" className="stroke-yellow-400" strokeWidth="1.5" />}
+      {records.map((record, index) => (
+        <circle key={record.id} cx={x(index)} cy={y(record.config.commandInterval)} r="3" className={record.passed ? 'fill-green-400' : 'fill-red-400'} />
+      ))}
+    </svg>
+  );
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({ config, onClose }) => {
+  const [records, setRecords] = useState<SessionRecord[]>(loadHistory);
+  const [message, setMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const passedRecords = records.filter(r => r.passed);
+  const passRate = records.length > 0 ? Math.round((passedRecords.length / records.length) * 100) : 0;
+  const fastestPassed = passedRecords.length > 0 ? Math.min(...passedRecords.map(r => r.config.commandInterval)) : null;
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadTextFile(`snake-drill-history-${date}.json`, historyToJson(records), 'application/json');
+    } else {
+      downloadTextFile(`snake-drill-history-${date}.csv`, historyToCsv(records), 'text/csv');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = mergeHistory(parseHistoryFile(await readTextFile(file), config));
+      setRecords(loadHistory());
+      setMessage(`Imported ${added} new session${added === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all saved sessions on this device?')) return;
+    clearHistory();
+    setRecords([]);
+    setMessage('History cleared.');
+  };
+
+  const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Session History</h3>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-gray-900 p-3 rounded-md">
+          <p className="text-xs text-gray-400">SESSIONS</p>
+          <p className="text-2xl font-bold text-white">{records.length}</p>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md">
+          <p className="text-xs text-gray-400">PASS RATE</p>
+          <p className="text-2xl font-bold text-white">{passRate}%</p>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md">
+          <p className="text-xs text-gray-400">FASTEST PASSED</p>
+          <p className="text-2xl font-bold text-white">{fastestPassed !== null ? `${fastestPassed}s` : '—'}</p>
+        </div>
+      </div>
+
+      {records.length > 0 && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="bg-gray-900 p-3 rounded-md">
+            <p className="text-sm text-gray-400 mb-2">Success Rate by Interval</p>
+            <SuccessByIntervalChart records={records} />
+          </div>
+          <div className="bg-gray-900 p-3 rounded-md">
+            <p className="text-sm text-gray-400 mb-2">Interval per Session <span className="text-yellow-400">(line: fastest passed)</span></p>
+            <IntervalTrendChart records={records} />
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-900 p-4 rounded-md max-h-72 overflow-y-auto">
+        {records.length === 0 ? (
+          <p className="text-center text-gray-500">No drills recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">Date</th>
+                <th className="text-left font-normal pb-1">Drill</th>
+                <th className="text-left font-normal pb-1">Score</th>
+                <th className="text-right font-normal pb-1">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.slice(-MAX_LISTED_SESSIONS).reverse().map(record => (
+                <tr key={record.id} className="border-t border-gray-800">
+                  <td className="py-1 text-gray-400">{new Date(record.timestamp).toLocaleString()}</td>
+                  <td className="py-1 text-gray-300">{record.commands.length} × [{record.config.clickValues}] @ {formatCadence(record.config.cadence, record.config.commandInterval)}</td>
+                  <td className="py-1 text-gray-300">{record.outcome.score ? `${record.outcome.score.correctCount}/${record.commands.length}` : '—'}</td>
+                  <td className={`py-1 text-right font-bold ${record.passed ? 'text-green-400' : 'text-red-400'}`}>{record.passed ? 'PASS' : 'FAIL'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={() => handleExport('json')} disabled={records.length === 0} className={buttonClass}>Export JSON</button>
+        <button onClick={() => handleExport('csv')} disabled={records.length === 0} className={buttonClass}>Export CSV</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import</button>
+        <button onClick={handleClear} disabled={records.length === 0} className={buttonClass}>Clear</button>
+        <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && <p className="text-sm text-center text-gray-300" role="status">{message}</p>}
+
+      <button
+        onClick={onClose}
+        className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg"
+      >
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { DrillConfig } from '../App';
+import {
+  DrillPreset, PresetSettings, BUILT_IN_PRESETS, findBuiltInPreset, loadCustomPresets, saveCustomPreset, deleteCustomPreset, matchesPreset,
+} from '../services/presets';
+
+interface PresetSelectorProps {
+  config: DrillConfig;
+  onApply: (settings: PresetSettings) => void;
+}
+
+const CUSTOM_SETTINGS_OPTION = '';
+
+const inputClass = 'flex-1 min-w-0 bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const PresetSelector: React.FC<PresetSelectorProps> = ({ config, onApply }) => {
+  const [customPresets, setCustomPresets] = useState<DrillPreset[]>(loadCustomPresets);
+  const [name, setName] = useState('');
+
+  // The preset shown is whichever one the current settings still match.
+  const current = [...BUILT_IN_PRESETS, ...customPresets].find(p => matchesPreset(config, p));
+  const isCustom = current !== undefined && findBuiltInPreset(current.id) === undefined;
+
+  const handleSelect = (id: string) => {
+    const selected = findBuiltInPreset(id) ?? customPresets.find(p => p.id === id);
+    if (selected) onApply(selected.settings);
+  };
+
+  const handleSave = () => {
+    if (name.trim() === '') return;
+    setCustomPresets(saveCustomPreset(name, config));
+    setName('');
+  };
+
+  return (
+    <div>
+      <label htmlFor="preset" className="block text-sm font-medium text-gray-400 mb-2">Preset</label>
+      <select
+        id="preset"
+        value={current?.id ?? CUSTOM_SETTINGS_OPTION}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+        aria-describedby="preset-help"
+      >
+        {!current && <option value={CUSTOM_SETTINGS_OPTION}>Custom settings</option>}
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </optgroup>
+        {customPresets.length > 0 && (
+          <optgroup label="Saved">
+            {customPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <p id="preset-help" className="text-xs text-gray-500 mt-1">
+        Sets the commands, click values, interval, compound share and mode. Weapon and voice settings are kept.
+      </p>
+      <div className="flex space-x-2 mt-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name these settings"
+          className={inputClass}
+          aria-label="Preset name"
+        />
+        <button type="button" onClick={handleSave} disabled={name.trim() === ''} className={buttonClass}>Save Preset</button>
+        {isCustom && (
+          <button type="button" onClick={() => setCustomPresets(deleteCustomPreset(current.id))} className={buttonClass}>Delete</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetSelector;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import type { DrillConfig } from '../App';
+import { Trainee, loadRoster } from '../services/roster';
+import {
+  BUILT_IN_PROGRAMS, ProgramProgress, TrainingProgram, goalDaysMet, loadProgramProgress, programDay, resetProgramProgress,
+} from '../services/programs';
+import { findDrillProblem } from '../services/drillGenerator';
+
+interface ProgramViewProps {
+  config: DrillConfig;
+  /** The trainee and program to show first, e.g. when coming back from a drill. */
+  traineeId?: string;
+  programId?: string;
+  /** Runs a drill on the trainee's current stage, with the current weapon and voice settings. */
+  onStartStage: (program: TrainingProgram, trainee: Trainee, progress: ProgramProgress) => void;
+  onShowRoster: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const ProgramView: React.FC<ProgramViewProps> = ({ config, traineeId: initialTraineeId, programId: initialProgramId, onStartStage, onShowRoster, onClose }) => {
+  const [roster] = useState<Trainee[]>(loadRoster);
+  const [traineeId, setTraineeId] = useState(() =>
+    roster.some(t => t.id === initialTraineeId) ? initialTraineeId! : roster[0]?.id ?? '');
+  const [programId, setProgramId] = useState(initialProgramId ?? BUILT_IN_PROGRAMS[0].id);
+  // Progress is read from storage on each render; bumping this re-renders after a reset.
+  const [resets, setResets] = useState(0);
+  const [message, setMessage] = useState('');
+
+  const trainee = roster.find(t => t.id === traineeId);
+  const program = BUILT_IN_PROGRAMS.find(p => p.id === programId) ?? BUILT_IN_PROGRAMS[0];
+  const progress = trainee ? loadProgramProgress(trainee.id, program.id) : null;
+  const complete = progress !== null && progress.stageIndex >= program.stages.length;
+
+  const handleStart = () => {
+    if (!trainee || !progress || complete) return;
+    const problem = findDrillProblem({ ...config, ...program.stages[progress.stageIndex].preset.settings });
+    if (problem) {
+      setMessage(problem);
+      return;
+    }
+    onStartStage(program, trainee, progress);
+  };
+
+  const handleReset = () => {
+    if (!trainee || !window.confirm(`Start ${trainee.name} over from the first stage of ${program.name}?`)) return;
+    resetProgramProgress(trainee.id, program.id);
+    setResets(resets + 1);
+    setMessage('');
+  };
+
+  if (roster.length === 0) {
+    return (
+      <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6 text-center">
+        <h3 className="text-2xl font-bold text-gray-200">Training Programs</h3>
+        <p className="text-sm text-gray-400">Progress is saved per trainee. Add trainees to the squad roster first.</p>
+        <button type="button" onClick={onShowRoster} className={buttonClass}>Go to Squad</button>
+      </div>
+    );
+  }
+
+  const today = progress && !complete ? programDay(progress, progress.stageIndex) : null;
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Training Programs</h3>
+      <p className="text-sm text-gray-400 text-center">
+        Pass the day's goal on enough days to clear a stage and unlock the next. Progress is saved on this device.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <select value={traineeId} onChange={(e) => { setTraineeId(e.target.value); setMessage(''); }} className={inputClass} aria-label="Trainee">
+          {roster.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <select value={program.id} onChange={(e) => { setProgramId(e.target.value); setMessage(''); }} className={inputClass} aria-label="Program">
+          {BUILT_IN_PROGRAMS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+
+      {progress && (
+        <ol className="divide-y divide-gray-700">
+          {program.stages.map((stage, index) => {
+            const met = goalDaysMet(program, progress, index);
+            const status = index < progress.stageIndex ? 'Cleared'
+              : index === progress.stageIndex ? `Day goal met ${met} / ${stage.days}`
+              : 'Locked';
+            return (
+              <li key={index} className="py-3 flex items-center justify-between">
+                <span className={index > progress.stageIndex ? 'text-gray-500' : 'text-gray-200'}>
+                  {index + 1}. {stage.preset.name}
+                </span>
+                <span className={`text-sm ${index < progress.stageIndex ? 'text-green-400' : index === progress.stageIndex ? 'text-yellow-400' : 'text-gray-500'}`}>
+                  {status}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {complete ? (
+        <p className="text-center text-green-400 font-bold">{trainee?.name} has completed {program.name}.</p>
+      ) : today && (
+        <p className="text-center text-gray-300">
+          Today: <span className="text-white font-bold">{Math.min(today.passes, program.dailyGoal)} / {program.dailyGoal}</span> drills passed
+          {today.passes >= program.dailyGoal && <span className="text-green-400"> — goal met, come back tomorrow</span>}
+        </p>
+      )}
+
+      {message && <p className="text-sm text-center text-yellow-400" role="alert">{message}</p>}
+
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={complete}
+          className="flex-1 bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 disabled:opacity-50"
+        >
+          Start Drill
+        </button>
+        <button type="button" onClick={handleReset} className={buttonClass}>Reset Progress</button>
+      </div>
+
+      <button onClick={onClose} className="w-full text-sm text-gray-400 hover:text-yellow-400">
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default ProgramView;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { QualificationStageResult, QualificationTable } from '../services/presets';
+
+interface QualificationSummaryProps {
+  table: QualificationTable;
+  /** One result per stage, in order. */
+  results: QualificationStageResult[];
+  onClose: () => void;
+}
+
+const QualificationSummary: React.FC<QualificationSummaryProps> = ({ table, results, onClose }) => {
+  const qualified = results.length === table.stages.length && results.every(r => r.passed);
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">{table.name}</h3>
+      <p className={`text-center text-4xl font-bold ${qualified ? 'text-green-400' : 'text-red-400'}`}>
+        {qualified ? 'QUALIFIED' : 'NOT QUALIFIED'}
+      </p>
+
+      <div className="bg-gray-900 p-4 rounded-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">Stage</th>
+              <th className="text-right font-normal pb-1">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, index) => (
+              <tr key={index} className="border-t border-gray-800">
+                <td className="py-1 text-white">
+                  {index + 1}. {result.name}
+                  <span className="block text-xs text-gray-500 break-all">{result.drillCode}</span>
+                </td>
+                <td className={`py-1 text-right font-bold ${result.passed ? 'text-green-400' : 'text-red-400'}`}>{result.passed ? 'PASS' : 'FAIL'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={onClose}
+        className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg"
+      >
+        Done
+      </button>
+    </div>
+  );
+};
+
+export default QualificationSummary;
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import type { DrillConfig } from '../App';
+import {
+  DrillPreset, QualificationTable, BUILT_IN_PRESETS, BUILT_IN_TABLES, loadCustomPresets, loadCustomTables, saveCustomTable, deleteCustomTable,
+  presetSettingsFrom, presetLibraryToJson, parsePresetLibrary, mergePresetLibrary,
+} from '../services/presets';
+import { downloadTextFile, readTextFile } from '../services/files';
+import { findDrillProblem } from '../services/drillGenerator';
+
+interface QualificationViewProps {
+  config: DrillConfig;
+  /** Runs every stage of the table in turn, with the current weapon and voice settings. */
+  onStartTable: (table: QualificationTable) => void;
+  onClose: () => void;
+}
+
+const CURRENT_SETTINGS_OPTION = '__current__';
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const QualificationView: React.FC<QualificationViewProps> = ({ config, onStartTable, onClose }) => {
+  const [customTables, setCustomTables] = useState<QualificationTable[]>(loadCustomTables);
+  const [customPresets, setCustomPresets] = useState<DrillPreset[]>(loadCustomPresets);
+  const [tableName, setTableName] = useState('');
+  const [stages, setStages] = useState<DrillPreset[]>([]);
+  const [stageToAdd, setStageToAdd] = useState(BUILT_IN_PRESETS[0].id);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddStage = () => {
+    const preset = stageToAdd === CURRENT_SETTINGS_OPTION
+      ? {
+          id: CURRENT_SETTINGS_OPTION,
+          name: `${config.numCommands} × [${config.clickValues}] @ ${config.commandInterval}s`,
+          settings: presetSettingsFrom(config),
+        }
+      : [...BUILT_IN_PRESETS, ...customPresets].find(p => p.id === stageToAdd);
+    if (preset) setStages(prev => [...prev, preset]);
+  };
+
+  const handleSaveTable = () => {
+    setCustomTables(saveCustomTable(tableName, stages));
+    setTableName('');
+    setStages([]);
+    setMessage('Table saved.');
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`snake-drill-presets-${date}.json`, presetLibraryToJson({ presets: customPresets, tables: customTables }), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = mergePresetLibrary(parsePresetLibrary(await readTextFile(file)));
+      setCustomPresets(loadCustomPresets());
+      setCustomTables(loadCustomTables());
+      setMessage(`Imported ${added} new preset${added === 1 ? '' : 's'} or table${added === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleStart = (table: QualificationTable) => {
+    // Check every stage up front so a table never stops halfway on settings that give no drill.
+    for (const [index, stage] of table.stages.entries()) {
+      const problem = findDrillProblem({ ...config, ...stage.settings });
+      if (problem) {
+        setMessage(`Stage ${index + 1} (${stage.name}): ${problem}`);
+        return;
+      }
+    }
+    onStartTable(table);
+  };
+
+  const renderTable = (table: QualificationTable, custom: boolean) => (
+    <li key={table.id} className="py-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-200 font-bold">{table.name}</span>
+        <div className="flex space-x-2">
+          {custom && (
+            <button type="button" onClick={() => setCustomTables(deleteCustomTable(table.id))} className="text-sm text-gray-500 hover:text-red-400">
+              Delete
+            </button>
+          )}
+          <button type="button" onClick={() => handleStart(table)} className={buttonClass}>Start</button>
+        </div>
+      </div>
+      <ol className="list-decimal list-inside text-sm text-gray-400">
+        {table.stages.map((stage, index) => <li key={index}>{stage.name}</li>)}
+      </ol>
+    </li>
+  );
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Qualification Tables</h3>
+      <p className="text-sm text-gray-400 text-center">
+        Each table runs its stages back to back. Pass every stage to qualify.
+      </p>
+
+      <ul className="divide-y divide-gray-700">
+        {BUILT_IN_TABLES.map(table => renderTable(table, false))}
+        {customTables.map(table => renderTable(table, true))}
+      </ul>
+
+      <fieldset className="space-y-3 rounded-md border border-gray-700 p-4">
+        <legend className="text-sm font-medium text-gray-400 px-2">New Table</legend>
+        <input
+          type="text"
+          value={tableName}
+          onChange={(e) => setTableName(e.target.value)}
+          placeholder="e.g., Section Qual Day 1"
+          className={inputClass}
+          aria-label="Table name"
+        />
+        <div className="flex space-x-2">
+          <select
+            value={stageToAdd}
+            onChange={(e) => setStageToAdd(e.target.value)}
+            className={inputClass}
+            aria-label="Stage preset"
+          >
+            {BUILT_IN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            {customPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            <option value={CURRENT_SETTINGS_OPTION}>Current settings</option>
+          </select>
+          <button type="button" onClick={handleAddStage} className={buttonClass}>Add Stage</button>
+        </div>
+        {stages.length > 0 && (
+          <ol className="space-y-1 text-sm">
+            {stages.map((stage, index) => (
+              <li key={index} className="flex items-center justify-between text-gray-300">
+                <span>{index + 1}. {stage.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}
+                  className="text-gray-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <button type="button" onClick={handleSaveTable} disabled={tableName.trim() === '' || stages.length === 0} className={buttonClass}>
+          Save Table
+        </button>
+      </fieldset>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={handleExport} disabled={customPresets.length === 0 && customTables.length === 0} className={buttonClass}>
+          Export Presets & Tables
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import</button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && <p className="text-sm text-center text-gray-300" role="status">{message}</p>}
+
+      <button onClick={onClose} className="w-full text-sm text-gray-400 hover:text-yellow-400">
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default QualificationView;
@@ -0,0 +1,242 @@
+import React, { useRef, useState } from 'react';
+import type { DrillConfig } from '../App';
+import { TAndE } from '../types';
+import TEGrid from './TEGrid';
+import {
+  RangeCard, RangeCardTarget, createRangeCard, createRangeCardTarget, loadRangeCards, saveRangeCard, deleteRangeCard,
+  rangeCardsToJson, parseRangeCards, mergeRangeCards, findCalloutProblem,
+} from '../services/rangeCards';
+import { downloadTextFile, readTextFile } from '../services/files';
+import { formatElevation, formatTraverse } from '../services/weaponProfiles';
+
+interface RangeCardViewProps {
+  config: DrillConfig;
+  /** Runs a target-callout drill on a card with the current weapon and voice settings. */
+  onStartCallout: (card: RangeCard, count: number, commandInterval: number) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const RangeCardView: React.FC<RangeCardViewProps> = ({ config, onStartCallout, onClose }) => {
+  const profile = config.weaponProfile;
+  const [cards, setCards] = useState<RangeCard[]>(loadRangeCards);
+  const [card, setCard] = useState<RangeCard>(() => cards[0] ?? createRangeCard());
+  const [calloutCount, setCalloutCount] = useState(8);
+  const [calloutInterval, setCalloutInterval] = useState(5);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isSaved = cards.some(c => c.id === card.id);
+  const problem = findCalloutProblem(card, profile.limits);
+
+  const updateTarget = (id: string, changes: Partial<RangeCardTarget>) =>
+    setCard(prev => ({ ...prev, targets: prev.targets.map(t => t.id === id ? { ...t, ...changes } : t) }));
+
+  const handleAddTarget = (position: TAndE) =>
+    setCard(prev => ({ ...prev, targets: [...prev.targets, createRangeCardTarget(prev, position)] }));
+
+  const handleSelectCard = (id: string) => {
+    const selected = cards.find(c => c.id === id);
+    setCard(selected ?? createRangeCard());
+    setMessage('');
+  };
+
+  const handleSave = () => {
+    setCards(saveRangeCard(card));
+    setMessage('Range card saved.');
+  };
+
+  const handleDelete = () => {
+    const remaining = deleteRangeCard(card.id);
+    setCards(remaining);
+    setCard(remaining[0] ?? createRangeCard());
+    setMessage('Range card deleted.');
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`snake-drill-range-cards-${date}.json`, rangeCardsToJson(cards), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = mergeRangeCards(parseRangeCards(await readTextFile(file)));
+      setCards(loadRangeCards());
+      setMessage(`Imported ${added} new range card${added === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleStart = () => {
+    if (!Number.isInteger(calloutCount) || calloutCount < 1) {
+      setMessage('Number of callouts must be at least 1.');
+      return;
+    }
+    if (!(calloutInterval > 0)) {
+      setMessage('Time per callout must be a positive number.');
+      return;
+    }
+    onStartCallout(card, calloutCount, calloutInterval);
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Range Cards</h3>
+      <p className="text-sm text-gray-400 text-center">
+        Click the grid to place a target, then name it. A callout drill calls the targets by name in random order.
+      </p>
+
+      <div className="flex space-x-2">
+        <select
+          value={isSaved ? card.id : ''}
+          onChange={(e) => handleSelectCard(e.target.value)}
+          className={inputClass}
+          aria-label="Range card"
+        >
+          {!isSaved && <option value="">New card</option>}
+          {cards.map(c => <option key={c.id} value={c.id}>{c.name || 'Untitled card'}</option>)}
+        </select>
+        <button type="button" onClick={() => handleSelectCard('')} className={buttonClass}>New Card</button>
+      </div>
+
+      <input
+        type="text"
+        value={card.name}
+        onChange={(e) => setCard(prev => ({ ...prev, name: e.target.value }))}
+        placeholder="e.g., Hill 210 Range Card"
+        className={inputClass}
+        aria-label="Range card name"
+      />
+
+      <TEGrid
+        traverse={0}
+        elevation={0}
+        limits={profile.limits}
+        markers={card.targets.map(t => ({ label: t.name, position: t.position }))}
+        onSelectPosition={handleAddTarget}
+      />
+
+      {card.targets.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">Target</th>
+              <th className="text-left font-normal pb-1">Traverse (clicks)</th>
+              <th className="text-left font-normal pb-1">Elevation (clicks)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {card.targets.map(target => (
+              <tr key={target.id}>
+                <td className="py-1 pr-2">
+                  <input
+                    type="text"
+                    value={target.name}
+                    onChange={(e) => updateTarget(target.id, { name: e.target.value })}
+                    className={inputClass}
+                    aria-label="Target name"
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    value={target.position.traverse}
+                    onChange={(e) => updateTarget(target.id, { position: { ...target.position, traverse: parseInt(e.target.value, 10) || 0 } })}
+                    className={inputClass}
+                    aria-label={`${target.name} traverse`}
+                    title={formatTraverse(target.position.traverse, profile)}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    value={target.position.elevation}
+                    onChange={(e) => updateTarget(target.id, { position: { ...target.position, elevation: parseInt(e.target.value, 10) || 0 } })}
+                    className={inputClass}
+                    aria-label={`${target.name} elevation`}
+                    title={formatElevation(target.position.elevation, profile)}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => setCard(prev => ({ ...prev, targets: prev.targets.filter(t => t.id !== target.id) }))}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button type="button" onClick={handleSave} disabled={card.name.trim() === '' || card.targets.length === 0} className={buttonClass}>
+          Save Card
+        </button>
+        {isSaved && <button type="button" onClick={handleDelete} className={buttonClass}>Delete Card</button>}
+        <button type="button" onClick={handleExport} disabled={cards.length === 0} className={buttonClass}>Export Cards</button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import</button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+
+      <fieldset className="space-y-3 rounded-md border border-gray-700 p-4">
+        <legend className="text-sm font-medium text-gray-400 px-2">Callout Drill</legend>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="calloutCount" className="block text-xs text-gray-400 mb-1">Number of Callouts</label>
+            <input
+              id="calloutCount"
+              type="number"
+              min="1"
+              value={calloutCount}
+              onChange={(e) => setCalloutCount(parseInt(e.target.value, 10) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="calloutInterval" className="block text-xs text-gray-400 mb-1">Time per Callout (seconds)</label>
+            <input
+              id="calloutInterval"
+              type="number"
+              min="1"
+              step="0.5"
+              value={calloutInterval}
+              onChange={(e) => setCalloutInterval(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Dial onto each target with the arrow keys. The correction is shown{config.voiceEnabled ? ' and spoken' : ''} halfway through each callout.
+        </p>
+        {problem && <p className="text-sm text-yellow-400" role="alert">{problem}</p>}
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={problem !== null}
+          className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+        >
+          Start Callout Drill
+        </button>
+      </fieldset>
+
+      {message && <p className="text-sm text-center text-gray-300" role="status">{message}</p>}
+
+      <button onClick={onClose} className="w-full text-sm text-gray-400 hover:text-yellow-400">
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default RangeCardView;
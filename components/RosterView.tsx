@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Trainee, loadRoster, addTrainee, removeTrainee, loadSquadSessions, clearSquadSessions, squadSessionsToCsv } from '../services/roster';
+import { downloadTextFile } from '../services/files';
+
+interface RosterViewProps {
+  /** Starts one drill that the selected trainees run in turn, in roster order. */
+  onStartSquad: (trainees: Trainee[]) => void;
+  /** Why the current drill setup gives no drill, if it does not. */
+  drillProblem: string | null;
+  onClose: () => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+const RosterView: React.FC<RosterViewProps> = ({ onStartSquad, drillProblem, onClose }) => {
+  const [roster, setRoster] = useState<Trainee[]>(loadRoster);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(loadRoster().map(t => t.id)));
+  const [name, setName] = useState('');
+  const [sessionCount, setSessionCount] = useState(() => loadSquadSessions().length);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() === '') return;
+    const updated = addTrainee(name);
+    setRoster(updated);
+    setSelected(prev => new Set(prev).add(updated[updated.length - 1].id));
+    setName('');
+  };
+
+  const handleRemove = (id: string) => {
+    setRoster(removeTrainee(id));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`snake-drill-squad-results-${date}.csv`, squadSessionsToCsv(loadSquadSessions()), 'text/csv');
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all saved squad results on this device? The roster is kept.')) return;
+    clearSquadSessions();
+    setSessionCount(0);
+  };
+
+  const squad = roster.filter(t => selected.has(t.id));
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Squad Roster</h3>
+      <p className="text-sm text-gray-400 text-center">
+        Everyone selected runs the same drill in turn, using the current drill setup.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex space-x-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., LCpl Smith"
+          className={inputClass}
+          aria-label="Trainee name"
+        />
+        <button type="submit" disabled={name.trim() === ''} className={buttonClass}>Add</button>
+      </form>
+
+      {roster.length === 0 ? (
+        <p className="text-center text-gray-500">No trainees on the roster yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {roster.map(trainee => (
+            <li key={trainee.id} className="flex items-center justify-between py-2">
+              <label className="flex items-center space-x-3 text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={selected.has(trainee.id)}
+                  onChange={() => toggleSelected(trainee.id)}
+                  className="h-5 w-5 rounded bg-gray-900 border-gray-600 text-yellow-500 focus:ring-yellow-400"
+                />
+                <span>{trainee.name}</span>
+              </label>
+              <button type="button" onClick={() => handleRemove(trainee.id)} className="text-sm text-gray-500 hover:text-red-400">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={handleExport} disabled={sessionCount === 0} className={buttonClass}>Export Squad Results CSV</button>
+        <button onClick={handleClear} disabled={sessionCount === 0} className={buttonClass}>Clear Squad Results</button>
+      </div>
+      <p className="text-xs text-center text-gray-500">{sessionCount} squad drill{sessionCount === 1 ? '' : 's'} saved on this device.</p>
+
+      {drillProblem && <p className="text-red-400 text-sm text-center" role="alert">{drillProblem}</p>}
+
+      <button
+        onClick={() => onStartSquad(squad)}
+        disabled={squad.length === 0 || drillProblem !== null}
+        className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg disabled:opacity-50"
+      >
+        Start Squad Drill ({squad.length})
+      </button>
+      <button onClick={onClose} className="w-full text-sm text-gray-400 hover:text-yellow-400">
+        Back to Drill Setup
+      </button>
+    </div>
+  );
+};
+
+export default RosterView;
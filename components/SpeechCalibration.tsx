@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceSettings, WeaponProfile } from '../types';
+import { MAX_SPEECH_RATE, speechPlayer } from '../services/speech';
+import { possibleCommands } from '../services/commands';
+import { phraseCommand } from '../services/phrasing';
+
+interface SpeechCalibrationProps {
+  clickValues: number[];
+  includeCompound: boolean;
+  profile: WeaponProfile;
+  voice: VoiceSettings;
+  commandInterval: number;
+  /** Whether a manual speech rate overrides the calibrated ones. */
+  manualSpeed: boolean;
+}
+
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+/**
+ * Measures how long the selected voice takes to say each possible command and
+ * warns when the interval is too short for the slowest one.
+ */
+const SpeechCalibration: React.FC<SpeechCalibrationProps> = ({ clickValues, includeCompound, profile, voice, commandInterval, manualSpeed }) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState('');
+
+  // Leaving the settings abandons a calibration in progress.
+  useEffect(() => () => speechPlayer.stop(), []);
+
+  const handleCalibrate = async () => {
+    setMessage('');
+    const commands = possibleCommands(clickValues, false);
+    setProgress({ done: 0, total: commands.length });
+    const measured = await speechPlayer.calibrate(commands, profile, voice, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    setMessage(measured === commands.length
+      ? `Measured ${measured} commands.`
+      : `Measured ${measured} of ${commands.length} commands; this voice did not report timings for the rest.`);
+  };
+
+  const fit = commandInterval > 0
+    ? speechPlayer.checkFit(possibleCommands(clickValues, includeCompound), profile, voice, commandInterval)
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-3">
+        <button type="button" onClick={handleCalibrate} disabled={progress !== null || clickValues.length === 0} className={buttonClass}>
+          Calibrate Voice
+        </button>
+        <span className="text-xs text-gray-400" role="status">
+          {progress ? `Calibrating ${progress.done} / ${progress.total}…` : message}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500">
+        Speaks each command once to time it, so every command gets the rate it needs to finish in time.
+      </p>
+      {fit && !manualSpeed && fit.requiredRate > MAX_SPEECH_RATE && (
+        <p className="text-yellow-400 text-sm" role="alert">
+          "{phraseCommand(fit.command, profile, voice)}" cannot be spoken within {commandInterval}s even at the fastest rate.
+          Use an interval of at least {Math.ceil(fit.minInterval * 10) / 10}s.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SpeechCalibration;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { WeaponProfile } from '../types';
+import { SquadSession, squadSessionsToCsv } from '../services/roster';
+import { downloadTextFile } from '../services/files';
+import { formatElevation, formatTraverse } from '../services/weaponProfiles';
+
+interface SquadSummaryProps {
+  session: SquadSession;
+  profile: WeaponProfile;
+  onClose: () => void;
+}
+
+const SquadSummary: React.FC<SquadSummaryProps> = ({ session, profile, onClose }) => {
+  const passedCount = session.results.filter(r => r.passed).length;
+  const showCorrect = session.results.some(r => r.correctCount !== undefined);
+
+  const handleExport = () => {
+    const date = new Date(session.timestamp).toISOString().slice(0, 10);
+    downloadTextFile(`snake-drill-squad-${date}.csv`, squadSessionsToCsv([session]), 'text/csv');
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-lg shadow-2xl border border-gray-700 space-y-6">
+      <h3 className="text-2xl font-bold text-center text-gray-200">Squad Summary</h3>
+      <p className="text-center text-gray-300">
+        {passedCount} of {session.results.length} passed.
+      </p>
+
+      <div className="bg-gray-900 p-4 rounded-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">Trainee</th>
+              {showCorrect && <th className="text-right font-normal pb-1">Correct</th>}
+              <th className="text-right font-normal pb-1">{session.mode === 'quiz' ? 'Called' : 'Final T&E'}</th>
+              <th className="text-right font-normal pb-1">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {session.results.map((result, index) => (
+              <tr key={index} className="border-t border-gray-800">
+                <td className="py-1 text-white">{result.name}</td>
+                {showCorrect && <td className="py-1 text-right text-gray-300">{result.correctCount ?? '—'} / {result.commandCount}</td>}
+                <td className="py-1 text-right text-gray-300">{formatTraverse(result.final.traverse, profile)}, {formatElevation(result.final.elevation, profile)}</td>
+                <td className={`py-1 text-right font-bold ${result.passed ? 'text-green-400' : 'text-red-400'}`}>{result.passed ? 'PASS' : 'FAIL'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-center text-gray-500 break-all">Drill code: {session.drillCode}</p>
+
+      <div className="flex justify-center">
+        <button
+          onClick={handleExport}
+          className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <button
+        onClick={onClose}
+        className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-md hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-yellow-500 transition-all duration-200 text-lg"
+      >
+        Done
+      </button>
+    </div>
+  );
+};
+
+export default SquadSummary;
@@ -1,49 +1,171 @@
 import React from 'react';
+import { TAndE, TAndELimits } from '../types';
+import { clampToLimits } from '../services/weaponProfiles';
 
 interface TEGridProps {
   traverse: number;
   elevation: number;
-  maxTAndE: number;
+  limits: TAndELimits;
+  /** Positions to draw as the snake path, starting before the first command. */
+  path?: TAndE[];
+  /** A second path drawn dashed for comparison, e.g. what the trainee dialed. */
+  comparePath?: TAndE[];
+  /** Number of commands of the path to highlight as completed. */
+  pathProgress?: number;
+  /** A position to mark as the drill's target. */
+  target?: TAndE;
+  /** Named points to mark, e.g. the targets on a range card. */
+  markers?: { label: string; position: TAndE }[];
+  /** Makes the grid clickable, reporting the clicked position in whole clicks. */
+  onSelectPosition?: (position: TAndE) => void;
+  /** Every gun's position in a section drill, drawn as numbered reticles in place of the single one. */
+  reticles?: TAndE[];
 }
 
-const TEGrid: React.FC<TEGridProps> = ({ traverse, elevation, maxTAndE }) => {
+/**
+ * The colour and reticle shape of each gun in a section drill, by gun index.
+ * The night theme turns every colour a shade of red, so the shape tells the guns apart there.
+ */
+export const GUN_COLORS = [
+  { text: 'text-yellow-400', border: 'border-yellow-400', bg: 'bg-yellow-400', shape: 'rounded-full border-2', name: 'circle' },
+  { text: 'text-blue-400', border: 'border-blue-400', bg: 'bg-blue-400', shape: 'border-2', name: 'square' },
+  { text: 'text-green-400', border: 'border-green-400', bg: 'bg-green-400', shape: 'rotate-45 scale-90 border-2', name: 'diamond' },
+  { text: 'text-red-400', border: 'border-red-400', bg: 'bg-red-400', shape: 'rounded-full border-double border-4', name: 'double ring' },
+];
+
+/**
+ * A gun's reticle shape in its colour, for the grid and for the gun buttons
+ * that refer to it.
+ */
+export const GunMarker: React.FC<{ gun: number; className?: string }> = ({ gun, className = 'inline-block w-3 h-3 mr-1.5 align-middle' }) => {
+  const color = GUN_COLORS[gun % GUN_COLORS.length];
+  return <span className={`${className} ${color.border} ${color.bg} bg-opacity-20 ${color.shape}`} aria-hidden="true" />;
+};
+
+const TEGrid: React.FC<TEGridProps> = ({ traverse, elevation, limits, path, comparePath, pathProgress, target, markers, onSelectPosition, reticles }) => {
   // Clamp values to prevent the reticle from going too far off-grid visually
-  const clampedTraverse = Math.max(-maxTAndE, Math.min(maxTAndE, traverse));
-  const clampedElevation = Math.max(-maxTAndE, Math.min(maxTAndE, elevation));
+  const clamped = clampToLimits({ traverse, elevation }, limits);
+
+  // Each axis spans its full travel, so the zero crosshairs sit off-center when the limits are asymmetric.
+  // Elevation is inverted for screen coordinates.
+  const toLeftPercent = (value: number) => ((value + limits.left) / (limits.left + limits.right)) * 100;
+  const toTopPercent = (value: number) => ((limits.up - value) / (limits.up + limits.down)) * 100;
+  const leftPos = toLeftPercent(clamped.traverse);
+  const topPos = toTopPercent(clamped.elevation);
+  const toPoints = (positions: TAndE[]) => positions
+    .map(position => clampToLimits(position, limits))
+    .map(position => `${toLeftPercent(position.traverse)},${toTopPercent(position.elevation)}`)
+    .join(' ');
+  const progress = pathProgress ?? (path ? path.length - 1 : 0);
 
-  // Calculate percentage positions for top/left. Elevation is inverted for screen coordinates.
-  const leftPos = 50 + (clampedTraverse / maxTAndE) * 50;
-  const topPos = 50 - (clampedElevation / maxTAndE) * 50;
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSelectPosition) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    onSelectPosition(clampToLimits({
+      traverse: Math.round(x * (limits.left + limits.right) - limits.left),
+      elevation: Math.round(limits.up - y * (limits.up + limits.down)),
+    }, limits));
+  };
 
   return (
     <div
-      className="relative w-full aspect-square max-w-[250px] mx-auto bg-gray-900 rounded-lg border-2 border-gray-600 overflow-hidden"
+      onClick={handleClick}
+      className={`relative w-full aspect-square ${path || markers ? 'max-w-[360px]' : 'max-w-[250px]'} mx-auto ${onSelectPosition ? 'cursor-crosshair' : ''} bg-gray-900 rounded-lg border-2 border-gray-600 overflow-hidden`}
       style={{
         backgroundImage: `
-          linear-gradient(rgba(107, 114, 128, 0.2) 1px, transparent 1px),
-          linear-gradient(90deg, rgba(107, 114, 128, 0.2) 1px, transparent 1px)
+          linear-gradient(rgb(var(--color-gray-500) / 0.2) 1px, transparent 1px),
+          linear-gradient(90deg, rgb(var(--color-gray-500) / 0.2) 1px, transparent 1px)
         `,
         backgroundSize: '10% 10%',
       }}
       aria-label={`T&E Grid. Current position: Traverse ${traverse}, Elevation ${elevation}`}
     >
       {/* Center crosshairs */}
-      <div className="absolute top-1/2 left-0 w-full h-px bg-gray-500" />
-      <div className="absolute left-1/2 top-0 w-px h-full bg-gray-500" />
-
-      {/* Reticle */}
-      <div
-        className="absolute w-4 h-4 -mt-2 -ml-2 rounded-full border-2 border-yellow-400 bg-yellow-400 bg-opacity-20 transition-all duration-200 ease-in-out"
-        style={{
-          top: `${topPos}%`,
-          left: `${leftPos}%`,
-        }}
-        role="img"
-        aria-label="Target reticle"
-      >
-        <div className="absolute top-1/2 left-0 w-full h-px bg-yellow-400" />
-        <div className="absolute left-1/2 top-0 w-px h-full bg-yellow-400" />
-      </div>
+      <div className="absolute left-0 w-full h-px bg-gray-500" style={{ top: `${toTopPercent(0)}%` }} />
+      <div className="absolute top-0 w-px h-full bg-gray-500" style={{ left: `${toLeftPercent(0)}%` }} />
+
+      {/* Snake path with numbered waypoints; the part not yet reached is dimmed */}
+      {path && (
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+          {comparePath && (
+            <polyline points={toPoints(comparePath)} fill="none" className="stroke-blue-400" strokeWidth="0.6" strokeDasharray="2 1.5" />
+          )}
+          <polyline points={toPoints(path)} fill="none" className="stroke-yellow-400/30" strokeWidth="0.6" />
+          <polyline points={toPoints(path.slice(0, progress + 1))} fill="none" className="stroke-yellow-400" strokeWidth="0.8" />
+          {path.slice(1).map((position, index) => {
+            const point = clampToLimits(position, limits);
+            const x = toLeftPercent(point.traverse);
+            const y = toTopPercent(point.elevation);
+            return (
+              <g key={index} opacity={index < progress ? 1 : 0.4}>
+                <circle cx={x} cy={y} r="1.6" className="fill-gray-900 stroke-yellow-400" strokeWidth="0.4" />
+                <text x={x + 2} y={y - 2} fontSize="3.5" className="fill-gray-200">{index + 1}</text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {/* Named markers */}
+      {markers?.map((marker, index) => {
+        const point = clampToLimits(marker.position, limits);
+        return (
+          <div
+            key={index}
+            className="absolute pointer-events-none"
+            style={{ top: `${toTopPercent(point.elevation)}%`, left: `${toLeftPercent(point.traverse)}%` }}
+          >
+            <div className="w-2.5 h-2.5 -mt-1.5 -ml-1.5 rotate-45 bg-red-400" />
+            <span className="absolute left-2 -top-4 whitespace-nowrap text-xs text-gray-200">{marker.label}</span>
+          </div>
+        );
+      })}
+
+      {/* Target marker */}
+      {target && (
+        <div
+          className="absolute w-5 h-5 -mt-2.5 -ml-2.5 border-2 border-dashed border-red-400"
+          style={{
+            top: `${toTopPercent(clampToLimits(target, limits).elevation)}%`,
+            left: `${toLeftPercent(clampToLimits(target, limits).traverse)}%`,
+          }}
+          role="img"
+          aria-label={`Target: Traverse ${target.traverse}, Elevation ${target.elevation}`}
+        />
+      )}
+
+      {/* Reticle, or one per gun in a section drill */}
+      {reticles ? reticles.map((position, index) => {
+        const point = clampToLimits(position, limits);
+        const color = GUN_COLORS[index % GUN_COLORS.length];
+        return (
+          <div
+            key={index}
+            className="absolute w-4 h-4 -mt-2 -ml-2 transition-all duration-200 ease-in-out"
+            style={{ top: `${toTopPercent(point.elevation)}%`, left: `${toLeftPercent(point.traverse)}%` }}
+            role="img"
+            aria-label={`Gun ${index + 1} reticle (${color.name}): Traverse ${position.traverse}, Elevation ${position.elevation}`}
+          >
+            <GunMarker gun={index} className="absolute inset-0" />
+            <span className={`absolute left-4 -top-4 text-xs font-bold ${color.text}`}>{index + 1}</span>
+          </div>
+        );
+      }) : (
+        <div
+          className="absolute w-4 h-4 -mt-2 -ml-2 rounded-full border-2 border-yellow-400 bg-yellow-400 bg-opacity-20 transition-all duration-200 ease-in-out"
+          style={{
+            top: `${topPos}%`,
+            left: `${leftPos}%`,
+          }}
+          role="img"
+          aria-label="Target reticle"
+        >
+          <div className="absolute top-1/2 left-0 w-full h-px bg-yellow-400" />
+          <div className="absolute left-1/2 top-0 w-px h-full bg-yellow-400" />
+        </div>
+      )}
     </div>
   );
 };
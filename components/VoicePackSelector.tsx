@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { recordedAudioPlayer, VoicePackInfo } from '../services/recordedAudio';
+
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm disabled:opacity-50';
+
+interface VoicePackSelectorProps {
+  /** Optional words the configured drill calls, warned about if the pack has no clip for them. */
+  drillWords: string[];
+}
+
+/**
+ * Shows the voice pack the recorded-audio backend plays and lets an instructor
+ * import their own, as a zip or as a set of clip files.
+ */
+const VoicePackSelector: React.FC<VoicePackSelectorProps> = ({ drillWords }) => {
+  const [pack, setPack] = useState<VoicePackInfo | null>(() => recordedAudioPlayer.getPack());
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Re-checked on every render, since `pack` changes whenever the clips do.
+  const missingDrillWords = recordedAudioPlayer.missingClips(drillWords);
+
+  const load = async (loadPack: () => Promise<VoicePackInfo>) => {
+    setLoading(true);
+    setMessage('');
+    try {
+      setPack(await loadPack());
+    } catch (error) {
+      setMessage(`Voice pack failed to load: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!recordedAudioPlayer.getPack()) {
+      load(() => recordedAudioPlayer.loadDefaultPack());
+    }
+  }, []);
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      load(() => recordedAudioPlayer.importVoicePack(files));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-400" role="status">
+        Voice pack: <span className="text-gray-200">{loading ? 'Loading…' : pack?.name ?? 'None'}</span>
+      </p>
+      {pack && !loading && missingDrillWords.length > 0 && (
+        <p className="text-xs text-yellow-400" role="alert">
+          The voice pack has no clip for {missingDrillWords.map(word => `"${word.toUpperCase()}"`).join(', ')}, which this drill calls; those calls will be shown but not voiced. Import a pack with the clips or use speech synthesis.
+        </p>
+      )}
+      {pack && pack.missingWords.length > 0 && (
+        <p className="text-xs text-yellow-400">Missing clips, skipped when spoken: {pack.missingWords.join(', ')}</p>
+      )}
+      <div className="flex space-x-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={loading} className={buttonClass}>
+          Import Voice Pack
+        </button>
+        <button type="button" onClick={() => load(() => recordedAudioPlayer.loadDefaultPack())} disabled={loading} className={buttonClass}>
+          Use Default Voice
+        </button>
+        <input ref={fileInputRef} type="file" multiple accept=".zip,.json,audio/*" onChange={handleImport} className="hidden" />
+      </div>
+      <p className="text-xs text-gray-500">
+        A zip or a set of clips named after their words (left.wav, up.wav, 5.wav, 20.wav, hundred.wav, mils.wav…), plus gun.wav, disregard.wav and correction.wav for section drills and distractors. Imported packs last until the page is reloaded.
+      </p>
+      {message && <p className="text-red-400 text-sm" role="alert">{message}</p>}
+    </div>
+  );
+};
+
+export default VoicePackSelector;
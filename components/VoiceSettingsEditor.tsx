@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { AudioBackend, NumberStyle, VoiceSettings, WeaponProfile } from '../types';
+import { speechPlayer } from '../services/speech';
+import { PHRASING_PRESETS, PHRASING_TOKENS, SAMPLE_COMMAND, phraseCommand } from '../services/phrasing';
+
+interface VoiceSettingsEditorProps {
+  voice: VoiceSettings;
+  backend: AudioBackend;
+  profile: WeaponProfile;
+  onChange: (voice: VoiceSettings) => void;
+  onPreview: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm';
+
+const CUSTOM_PHRASING_OPTION = '__custom__';
+
+const VoiceSettingsEditor: React.FC<VoiceSettingsEditorProps> = ({ voice, backend, profile, onChange, onPreview }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => speechPlayer.getVoices());
+  const speech = backend === 'speech';
+
+  useEffect(() => speechPlayer.subscribeToVoices(() => setVoices(speechPlayer.getVoices())), []);
+
+  const update = (changes: Partial<VoiceSettings>) => onChange({ ...voice, ...changes });
+  const preset = PHRASING_PRESETS.find(p => p.phrasing === voice.phrasing);
+
+  return (
+    <div className="space-y-4">
+      {speech && (
+        <div>
+          <label htmlFor="voiceURI" className="block text-sm font-medium text-gray-400 mb-2">Voice</label>
+          <select id="voiceURI" value={voice.voiceURI} onChange={(e) => update({ voiceURI: e.target.value })} className={inputClass}>
+            <option value="">Browser Default</option>
+            {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className={`grid gap-4 ${speech ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {speech && (
+          <div>
+            <label htmlFor="voicePitch" className="block text-xs text-gray-400 mb-1">Pitch ({voice.pitch.toFixed(1)})</label>
+            <input
+              id="voicePitch"
+              type="range"
+              min="0"
+              max="2"
+              step="0.1"
+              value={voice.pitch}
+              onChange={(e) => update({ pitch: parseFloat(e.target.value) })}
+              className="w-full accent-yellow-500"
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="voiceVolume" className="block text-xs text-gray-400 mb-1">Volume ({Math.round(voice.volume * 100)}%)</label>
+          <input
+            id="voiceVolume"
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={voice.volume}
+            onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+            className="w-full accent-yellow-500"
+          />
+        </div>
+      </div>
+
+      {speech && (
+        <div>
+          <label htmlFor="phrasingPreset" className="block text-sm font-medium text-gray-400 mb-2">Phrasing</label>
+          <select
+            id="phrasingPreset"
+            value={preset ? preset.phrasing : CUSTOM_PHRASING_OPTION}
+            onChange={(e) => e.target.value !== CUSTOM_PHRASING_OPTION && update({ phrasing: e.target.value })}
+            className={`${inputClass} mb-2`}
+          >
+            {PHRASING_PRESETS.map(p => <option key={p.phrasing} value={p.phrasing}>{p.label}</option>)}
+            <option value={CUSTOM_PHRASING_OPTION}>Custom</option>
+          </select>
+          <input
+            id="phrasing"
+            type="text"
+            value={voice.phrasing}
+            onChange={(e) => update({ phrasing: e.target.value })}
+            className={inputClass}
+            aria-describedby="phrasing-help"
+          />
+          <p id="phrasing-help" className="text-xs text-gray-500 mt-1">
+            Placeholders: {PHRASING_TOKENS.join(' ')}. Sample: "{phraseCommand(SAMPLE_COMMAND, profile, voice)}"
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="numberStyle" className="block text-sm font-medium text-gray-400 mb-2">Numbers</label>
+        <select id="numberStyle" value={voice.numberStyle} onChange={(e) => update({ numberStyle: e.target.value as NumberStyle })} className={inputClass}>
+          <option value="numerals">Whole Numbers (TEN)</option>
+          <option value="digits">Digit by Digit (ONE ZERO)</option>
+        </select>
+      </div>
+
+      <button type="button" onClick={onPreview} className={buttonClass}>
+        Preview Voice
+      </button>
+    </div>
+  );
+};
+
+export default VoiceSettingsEditor;
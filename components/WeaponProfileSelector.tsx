@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { DisplayUnit, TAndELimits, WeaponProfile } from '../types';
+import {
+  BUILT_IN_PROFILES, findBuiltInProfile, loadCustomProfiles, saveCustomProfile, deleteCustomProfile, createCustomProfileId,
+} from '../services/weaponProfiles';
+
+interface WeaponProfileSelectorProps {
+  profile: WeaponProfile;
+  onChange: (profile: WeaponProfile) => void;
+}
+
+const NEW_PROFILE_OPTION = '__new__';
+
+const LIMIT_FIELDS: { key: keyof TAndELimits; label: string }[] = [
+  { key: 'left', label: 'Left' },
+  { key: 'right', label: 'Right' },
+  { key: 'up', label: 'Up' },
+  { key: 'down', label: 'Down' },
+];
+
+const inputClass = 'w-full bg-gray-900 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const buttonClass = 'bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-sm';
+
+const WeaponProfileSelector: React.FC<WeaponProfileSelectorProps> = ({ profile, onChange }) => {
+  const [customProfiles, setCustomProfiles] = useState<WeaponProfile[]>(loadCustomProfiles);
+  const isBuiltIn = findBuiltInProfile(profile.id) !== undefined;
+  const isSaved = customProfiles.some(p => p.id === profile.id);
+
+  const handleSelect = (id: string) => {
+    if (id === NEW_PROFILE_OPTION) {
+      onChange({ ...profile, id: createCustomProfileId(), name: 'Custom Profile' });
+      return;
+    }
+    const selected = findBuiltInProfile(id) ?? customProfiles.find(p => p.id === id);
+    if (selected) onChange(selected);
+  };
+
+  const handleLimitChange = (key: keyof TAndELimits, value: string) => {
+    onChange({ ...profile, limits: { ...profile.limits, [key]: parseInt(value, 10) || 0 } });
+  };
+
+  const { left, right, up, down } = profile.limits;
+
+  return (
+    <div>
+      <label htmlFor="weaponProfile" className="block text-sm font-medium text-gray-400 mb-2">Weapon Profile</label>
+      <select
+        id="weaponProfile"
+        value={profile.id}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full bg-gray-900 text-white p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
+        aria-describedby="weaponProfile-help"
+      >
+        {BUILT_IN_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        {!isBuiltIn && !isSaved && <option value={profile.id}>{profile.name} (unsaved)</option>}
+        <option value={NEW_PROFILE_OPTION}>New Custom Profile…</option>
+      </select>
+      <p id="weaponProfile-help" className="text-xs text-gray-500 mt-1">
+        Traverse L {left} / R {right}, elevation U {up} / D {down} clicks; {profile.traverseMilsPerClick} mil per traverse click and {profile.elevationMilsPerClick} per elevation click, shown in {profile.unit}.
+      </p>
+
+      {!isBuiltIn && (
+        <div className="mt-4 space-y-3 rounded-md border border-gray-700 p-4">
+          <div>
+            <label htmlFor="profileName" className="block text-xs text-gray-400 mb-1">Profile Name</label>
+            <input id="profileName" type="text" value={profile.name} onChange={(e) => onChange({ ...profile, name: e.target.value })} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {LIMIT_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label htmlFor={`limit-${key}`} className="block text-xs text-gray-400 mb-1">{label}</label>
+                <input
+                  id={`limit-${key}`}
+                  type="number"
+                  min="1"
+                  value={profile.limits[key]}
+                  onChange={(e) => handleLimitChange(key, e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label htmlFor="traverseMilsPerClick" className="block text-xs text-gray-400 mb-1">Traverse Mils per Click</label>
+              <input
+                id="traverseMilsPerClick"
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={profile.traverseMilsPerClick}
+                onChange={(e) => onChange({ ...profile, traverseMilsPerClick: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="elevationMilsPerClick" className="block text-xs text-gray-400 mb-1">Elevation Mils per Click</label>
+              <input
+                id="elevationMilsPerClick"
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={profile.elevationMilsPerClick}
+                onChange={(e) => onChange({ ...profile, elevationMilsPerClick: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="displayUnit" className="block text-xs text-gray-400 mb-1">Display Units</label>
+              <select
+                id="displayUnit"
+                value={profile.unit}
+                onChange={(e) => onChange({ ...profile, unit: e.target.value as DisplayUnit })}
+                className={inputClass}
+              >
+                <option value="clicks">Clicks</option>
+                <option value="mils">Mils</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <button type="button" onClick={() => setCustomProfiles(saveCustomProfile(profile))} className={buttonClass}>
+              Save Profile
+            </button>
+            {isSaved && (
+              <button
+                type="button"
+                onClick={() => {
+                  setCustomProfiles(deleteCustomProfile(profile.id));
+                  onChange(BUILT_IN_PROFILES[0]);
+                }}
+                className={buttonClass}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeaponProfileSelector;
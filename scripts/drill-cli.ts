@@ -0,0 +1,192 @@
+/**
+ * Generates snake drills without a browser, for printing dry-practice sheets.
+ *
+ *   npm run drill -- --commands 12 --values 5,10 --count 4 --format html --output drills.html
+ *
+ * Run with `--help` for every option. The settings match the drill setup
+ * screen, and each drill's code opens the same drill in the app.
+ */
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { DrillConfig } from '../App';
+import { CadenceKind, DrillMode, TAndE, WeaponProfile } from '../types';
+import { DEFAULT_CONSTRAINTS, DEFAULT_POSITIONS, findDrillProblem, MAX_GUNS, validateDrillConfig } from '../services/drillGenerator';
+import { SHEET_FORMATS, SheetFormat, formatDrillSheets, generateDrillSheets } from '../services/drillSheets';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, findBuiltInProfile } from '../services/weaponProfiles';
+import { DEFAULT_VOICE_SETTINGS } from '../services/phrasing';
+import { parseSeed, randomSeed } from '../services/random';
+import { DEFAULT_CADENCE } from '../services/cadence';
+import { DEFAULT_NOISE_SETTINGS } from '../services/backgroundNoise';
+
+const DRILL_MODES: DrillMode[] = ['watch', 'interactive', 'quiz'];
+const CADENCE_KINDS: CadenceKind[] = ['fixed', 'jitter', 'ramp', 'burst'];
+
+const USAGE = `Usage: npm run drill -- [options]
+
+Drill settings:
+  --commands <n>          Number of commands (default 10)
+  --values <list>         Click values, comma-separated (default "5, 10")
+  --interval <seconds>    Command interval of a fixed cadence (default 1)
+  --cadence <kind>        ${CADENCE_KINDS.join(', ')} (default fixed)
+  --min-interval <s>      Shortest interval of a varied cadence (default ${DEFAULT_CADENCE.minInterval})
+  --max-interval <s>      Longest interval of a varied cadence (default ${DEFAULT_CADENCE.maxInterval})
+  --burst <n>             Commands per burst (default ${DEFAULT_CADENCE.burstLength})
+  --profile <id>          Weapon profile: ${BUILT_IN_PROFILES.map(p => p.id).join(', ')} (default ${DEFAULT_PROFILE.id})
+  --limits <L,R,U,D>      Custom T&E limits in clicks, instead of a profile's
+  --mode <mode>           ${DRILL_MODES.join(', ')} (default watch); a quiz ends anywhere
+  --compound <percent>    Share of commands that move both axes (default 0)
+  --distractors <percent> Share of commands given a wrong move that is called off first (default 0)
+  --guns <n>              Guns in the section, each with its own commands (default 1, most ${MAX_GUNS})
+  --weights <list>        Relative weight of each click value
+  --bias <percent>        Share of single-axis moves on traverse (default 50)
+  --max-run <n>           Most single-axis commands in a row on one axis; 0 for no limit
+  --no-undo               Never follow a command with its exact opposite
+  --spread <percent>      How far toward a T&E limit the path must reach (default 0)
+  --start <T,E>           Start position in clicks (default 0,0); write --start=-5,10 for a negative value
+  --target <T,E>          Target position in clicks (default 0,0)
+  --random-positions      Random start and target within the T&E limits
+
+Output:
+  --seed <seed>           Seed of the first drill; the rest count up from it (default random)
+  --count <n>             Number of drills (default 1)
+  --format <format>       ${SHEET_FORMATS.join(', ')} (default text)
+  --output <file>         Write to a file instead of standard output
+  --help                  Show this help
+`;
+
+const fail = (message: string): never => {
+  console.error(`drill: ${message}`);
+  process.exit(1);
+};
+
+const parseNumber = (text: string | undefined, fallback: number, name: string): number => {
+  if (text === undefined) return fallback;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : fail(`--${name} must be a number.`);
+};
+
+const parsePosition = (text: string | undefined, fallback: TAndE, name: string): TAndE => {
+  if (text === undefined) return fallback;
+  const [traverse, elevation, ...rest] = text.split(',').map(v => Number(v.trim()));
+  if (rest.length > 0 || !Number.isInteger(traverse) || !Number.isInteger(elevation)) {
+    return fail(`--${name} must be two whole numbers of clicks, traverse then elevation, e.g. -5,10.`);
+  }
+  return { traverse, elevation };
+};
+
+const parseProfile = (profileId: string | undefined, limitsText: string | undefined): WeaponProfile => {
+  const profile = profileId === undefined ? DEFAULT_PROFILE : findBuiltInProfile(profileId) ?? fail(`Unknown weapon profile "${profileId}".`);
+  if (limitsText === undefined) return profile;
+  const limits = limitsText.split(',').map(v => Number(v.trim()));
+  if (limits.length !== 4 || !limits.every(Number.isInteger)) {
+    return fail('--limits must be four whole numbers of clicks: left, right, up, down.');
+  }
+  const [left, right, up, down] = limits;
+  return { ...profile, id: 'custom-cli', name: `Custom (L${left} R${right} U${up} D${down})`, limits: { left, right, up, down } };
+};
+
+const CLI_OPTIONS = {
+  commands: { type: 'string' },
+  values: { type: 'string' },
+  interval: { type: 'string' },
+  cadence: { type: 'string' },
+  'min-interval': { type: 'string' },
+  'max-interval': { type: 'string' },
+  burst: { type: 'string' },
+  profile: { type: 'string' },
+  limits: { type: 'string' },
+  mode: { type: 'string' },
+  compound: { type: 'string' },
+  distractors: { type: 'string' },
+  guns: { type: 'string' },
+  weights: { type: 'string' },
+  bias: { type: 'string' },
+  'max-run': { type: 'string' },
+  'no-undo': { type: 'boolean' },
+  spread: { type: 'string' },
+  start: { type: 'string' },
+  target: { type: 'string' },
+  'random-positions': { type: 'boolean' },
+  seed: { type: 'string' },
+  count: { type: 'string' },
+  format: { type: 'string' },
+  output: { type: 'string' },
+  help: { type: 'boolean' },
+} as const;
+
+const readArgs = () => {
+  try {
+    return parseArgs({ options: CLI_OPTIONS }).values;
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const main = () => {
+  const args = readArgs();
+
+  if (args.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const mode = (args.mode ?? 'watch') as DrillMode;
+  if (!DRILL_MODES.includes(mode)) fail(`--mode must be one of ${DRILL_MODES.join(', ')}.`);
+  const cadenceKind = (args.cadence ?? DEFAULT_CADENCE.kind) as CadenceKind;
+  if (!CADENCE_KINDS.includes(cadenceKind)) fail(`--cadence must be one of ${CADENCE_KINDS.join(', ')}.`);
+  const format = (args.format ?? 'text') as SheetFormat;
+  if (!SHEET_FORMATS.includes(format)) fail(`--format must be one of ${SHEET_FORMATS.join(', ')}.`);
+  const count = parseNumber(args.count, 1, 'count');
+  if (!Number.isInteger(count) || count < 1) fail('--count must be at least 1.');
+
+  const config: DrillConfig = {
+    numCommands: parseNumber(args.commands, 10, 'commands'),
+    clickValues: args.values ?? '5, 10',
+    commandInterval: parseNumber(args.interval, 1, 'interval'),
+    voiceEnabled: false,
+    audioBackend: 'speech',
+    voice: DEFAULT_VOICE_SETTINGS,
+    noise: DEFAULT_NOISE_SETTINGS,
+    ttsSpeedMultiplier: 2,
+    ttsManualSpeed: false,
+    weaponProfile: parseProfile(args.profile, args.limits),
+    mode,
+    seed: args.seed ?? '',
+    compoundRatio: parseNumber(args.compound, 0, 'compound') / 100,
+    distractorRate: parseNumber(args.distractors, 0, 'distractors') / 100,
+    adaptive: false,
+    guns: parseNumber(args.guns, 1, 'guns'),
+    constraints: {
+      valueWeights: args.weights ?? DEFAULT_CONSTRAINTS.valueWeights,
+      traverseBias: parseNumber(args.bias, DEFAULT_CONSTRAINTS.traverseBias * 100, 'bias') / 100,
+      maxAxisRun: parseNumber(args['max-run'], DEFAULT_CONSTRAINTS.maxAxisRun, 'max-run'),
+      noImmediateUndo: args['no-undo'] ?? DEFAULT_CONSTRAINTS.noImmediateUndo,
+      minSpread: parseNumber(args.spread, DEFAULT_CONSTRAINTS.minSpread * 100, 'spread') / 100,
+    },
+    positions: {
+      start: parsePosition(args.start, DEFAULT_POSITIONS.start, 'start'),
+      target: parsePosition(args.target, DEFAULT_POSITIONS.target, 'target'),
+      random: args['random-positions'] ?? DEFAULT_POSITIONS.random,
+    },
+    cadence: {
+      kind: cadenceKind,
+      minInterval: parseNumber(args['min-interval'], DEFAULT_CADENCE.minInterval, 'min-interval'),
+      maxInterval: parseNumber(args['max-interval'], DEFAULT_CADENCE.maxInterval, 'max-interval'),
+      burstLength: parseNumber(args.burst, DEFAULT_CADENCE.burstLength, 'burst'),
+    },
+  };
+
+  const problem = validateDrillConfig(config) ?? findDrillProblem(config);
+  if (problem) fail(problem);
+
+  const firstSeed = config.seed.trim() === '' ? randomSeed() : parseSeed(config.seed) as number;
+  const output = formatDrillSheets(generateDrillSheets(config, count, firstSeed), format);
+  if (args.output) {
+    writeFileSync(args.output, output);
+    console.error(`Wrote ${count} drill${count === 1 ? '' : 's'} to ${args.output}.`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main();
@@ -0,0 +1,36 @@
+// Caches the whole app, voice pack included, so it runs with no connection.
+// The build writes this file out as `sw.js`, filling in every file to cache
+// and a version that changes whenever any of them does.
+const CACHE_PREFIX = 'snake-drill-';
+const CACHE_NAME = CACHE_PREFIX + __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const APP_SHELL_URL = new URL('./', self.location.href).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Every page is the same app; shared drill links only differ in the query string.
+  const cached = request.mode === 'navigate'
+    ? caches.match(APP_SHELL_URL, { cacheName: CACHE_NAME })
+    : caches.match(request, { cacheName: CACHE_NAME });
+  event.respondWith(cached.then((response) => response ?? fetch(request)));
+});
@@ -0,0 +1,78 @@
+import type { DrillConfig } from '../App';
+
+/**
+ * The settings adaptive mode takes over from the setup screen.
+ */
+export type AdaptiveSettings = Pick<DrillConfig, 'numCommands' | 'clickValues' | 'commandInterval'>;
+
+/**
+ * Adaptive difficulty levels, easiest first. Each level shortens the interval,
+ * widens the click values or lengthens the drill over the one before, and all
+ * of them fit the training grid's ±25 clicks.
+ */
+export const ADAPTIVE_LEVELS: AdaptiveSettings[] = [
+  { numCommands: 6, clickValues: '5, 10', commandInterval: 3 },
+  { numCommands: 8, clickValues: '5, 10', commandInterval: 2.5 },
+  { numCommands: 8, clickValues: '5, 10', commandInterval: 2 },
+  { numCommands: 10, clickValues: '1, 5, 10', commandInterval: 2 },
+  { numCommands: 10, clickValues: '1, 5, 10', commandInterval: 1.5 },
+  { numCommands: 12, clickValues: '1, 2, 3, 5, 10', commandInterval: 1.5 },
+  { numCommands: 14, clickValues: '1, 2, 3, 5, 10', commandInterval: 1 },
+  { numCommands: 16, clickValues: '1, 2, 3, 4, 5, 10, 15', commandInterval: 1 },
+  { numCommands: 18, clickValues: '1, 2, 3, 4, 5, 10, 15', commandInterval: 0.75 },
+  { numCommands: 20, clickValues: '1, 2, 3, 4, 5, 10, 15', commandInterval: 0.5 },
+];
+
+const ADAPTIVE_STORAGE_KEY = 'snakeDrill.adaptive.v1';
+
+const clampLevel = (level: number): number => Math.min(ADAPTIVE_LEVELS.length, Math.max(1, Math.round(level) || 1));
+
+/**
+ * Applies an adaptive level's settings over the setup screen's; adaptive drills use one gun.
+ * @param config - The drill configuration.
+ * @param level - The level, from 1.
+ * @returns The configuration to run the drill with.
+ */
+export const withAdaptiveLevel = (config: DrillConfig, level: number): DrillConfig =>
+  ({ ...config, ...ADAPTIVE_LEVELS[clampLevel(level) - 1], guns: 1 });
+
+/**
+ * Moves one level up after a pass and one level down after a fail.
+ * @param level - The level the drill was run at.
+ * @param passed - Whether the drill was passed.
+ * @returns The level for the next drill, within the table.
+ */
+export const nextAdaptiveLevel = (level: number, passed: boolean): number => clampLevel(level + (passed ? 1 : -1));
+
+/**
+ * A short description of a level's settings, e.g. "8 commands, 5/10 clicks @ 2s".
+ */
+export const describeAdaptiveLevel = (level: number): string => {
+  const { numCommands, clickValues, commandInterval } = ADAPTIVE_LEVELS[clampLevel(level) - 1];
+  const values = clickValues.split(',').map(v => v.trim()).join('/');
+  return `${numCommands} commands, ${values} clicks @ ${commandInterval}s`;
+};
+
+/**
+ * Loads the adaptive level reached on this device.
+ */
+export const loadAdaptiveLevel = (): number => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ADAPTIVE_STORAGE_KEY) ?? '{}');
+    return clampLevel(stored?.level ?? 1);
+  } catch (error) {
+    console.error('Failed to read adaptive level:', error);
+    return 1;
+  }
+};
+
+/**
+ * Saves the adaptive level reached on this device.
+ */
+export const saveAdaptiveLevel = (level: number): void => {
+  try {
+    localStorage.setItem(ADAPTIVE_STORAGE_KEY, JSON.stringify({ level: clampLevel(level) }));
+  } catch (error) {
+    console.error('Failed to save adaptive level:', error);
+  }
+};
@@ -0,0 +1,235 @@
+import { NoiseSettings, NoiseTrack } from '../types';
+
+/** Drills are quiet unless a track is chosen. */
+export const DEFAULT_NOISE_SETTINGS: NoiseSettings = {
+  track: 'off',
+  level: 0.3,
+};
+
+export const NOISE_TRACKS: { track: NoiseTrack; name: string }[] = [
+  { track: 'off', name: 'Off' },
+  { track: 'gunfire', name: 'Gunfire' },
+  { track: 'engine', name: 'Engine' },
+  { track: 'static', name: 'Radio Static' },
+];
+
+// Length of the looped engine and static buffers, long enough that the loop is not heard.
+const LOOP_S = 4;
+// Gunfire is booked on the audio clock a little ahead of time, by a timer that runs more often than that.
+const SCHEDULER_PERIOD_MS = 100;
+const SCHEDULE_AHEAD_S = 0.3;
+// Bursts of a few rounds at about 600 rounds a minute, with a pause after each.
+const ROUND_SPACING_S = 0.1;
+const MIN_BURST_ROUNDS = 3;
+const MAX_BURST_ROUNDS = 7;
+const MIN_BURST_PAUSE_S = 0.8;
+const MAX_BURST_PAUSE_S = 3;
+const SHOT_S = 0.6;
+
+const between = (min: number, max: number) => min + Math.random() * (max - min);
+
+/**
+ * Synthesizes the background noise tracks with the Web Audio API, so none has
+ * to be recorded or downloaded. The noise has an output of its own and does
+ * not pass through either playback backend, so it plays the same under speech
+ * synthesis and recorded clips.
+ */
+class BackgroundNoisePlayer {
+  public isSupported: boolean = false;
+  private context: AudioContext | null = null;
+  private buffers = new Map<string, AudioBuffer>();
+  private output: GainNode | null = null;
+  private sources: AudioScheduledSourceNode[] = [];
+  private scheduler: ReturnType<typeof setInterval> | undefined;
+  private nextShotAt = 0;
+  private roundsLeft = 0;
+
+  constructor() {
+    if (typeof window !== 'undefined' && 'AudioContext' in window) {
+      this.isSupported = true;
+      window.addEventListener('beforeunload', () => this.stop());
+    }
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  /**
+   * Fills a mono buffer sample by sample, once per kind of sound.
+   */
+  private buffer(name: string, seconds: number, sample: (time: number, white: number) => number): AudioBuffer {
+    const cached = this.buffers.get(name);
+    if (cached) return cached;
+    const context = this.getContext();
+    const buffer = context.createBuffer(1, Math.round(seconds * context.sampleRate), context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = sample(i / context.sampleRate, Math.random() * 2 - 1);
+    }
+    this.buffers.set(name, buffer);
+    return buffer;
+  }
+
+  /**
+   * Starts a source and keeps it so `stop` can silence it.
+   */
+  private startSource(source: AudioScheduledSourceNode, at = 0): void {
+    this.sources.push(source);
+    source.onended = () => {
+      this.sources = this.sources.filter(s => s !== source);
+    };
+    source.start(at);
+  }
+
+  private loop(buffer: AudioBuffer, destination: AudioNode): void {
+    const source = this.getContext().createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(destination);
+    this.startSource(source);
+  }
+
+  /**
+   * Chains filters from a source to the output.
+   * @returns The first filter, to connect the source to.
+   */
+  private filters(output: AudioNode, ...specs: [BiquadFilterType, number, number?][]): AudioNode {
+    const context = this.getContext();
+    return specs.reduceRight<AudioNode>((next, [type, frequency, q]) => {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      if (q !== undefined) filter.Q.value = q;
+      filter.connect(next);
+      return filter;
+    }, output);
+  }
+
+  /**
+   * Band-limited hiss that flutters in level, with the odd crackle.
+   */
+  private startStatic(output: AudioNode): void {
+    const flutterStep = 0.02;
+    let level = 0.6;
+    let nextStep = 0;
+    const hiss = this.buffer('static', LOOP_S, (time, white) => {
+      if (time >= nextStep) {
+        level = Math.min(1, Math.max(0.3, level + between(-0.15, 0.15)));
+        nextStep = time + flutterStep;
+      }
+      return Math.random() < 0.0005 ? Math.sign(white) : white * level * 0.6;
+    });
+    this.loop(hiss, this.filters(output, ['highpass', 300], ['bandpass', 2000, 0.7]));
+  }
+
+  /**
+   * A low rumble with the engine's firing note drifting slowly around idle.
+   */
+  private startEngine(output: AudioNode): void {
+    const context = this.getContext();
+    let brown = 0;
+    const rumble = this.buffer('engine', LOOP_S, (_, white) => {
+      brown = (brown + 0.02 * white) / 1.02;
+      return brown * 3.5;
+    });
+    this.loop(rumble, this.filters(output, ['lowpass', 180]));
+
+    const note = context.createGain();
+    note.gain.value = 0.25;
+    note.connect(this.filters(output, ['lowpass', 250]));
+    const drift = context.createOscillator();
+    drift.frequency.value = 0.2;
+    const driftDepth = context.createGain();
+    driftDepth.gain.value = 2;
+    drift.connect(driftDepth);
+    for (const frequency of [38, 57]) {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'sawtooth';
+      oscillator.frequency.value = frequency;
+      driftDepth.connect(oscillator.frequency);
+      oscillator.connect(note);
+      this.startSource(oscillator);
+    }
+    this.startSource(drift);
+  }
+
+  /**
+   * Bursts of rounds, each a sharp crack over a short boom.
+   */
+  private startGunfire(output: AudioNode): void {
+    const shot = this.buffer('shot', SHOT_S, (time, white) =>
+      white * Math.exp(-time / 0.04) * 0.9 + Math.sin(2 * Math.PI * 60 * time) * Math.exp(-time / 0.15) * 0.6);
+    const destination = this.filters(output, ['lowpass', 3000]);
+    const context = this.getContext();
+    this.nextShotAt = context.currentTime;
+    this.roundsLeft = 0;
+
+    const schedule = () => {
+      while (this.nextShotAt < context.currentTime + SCHEDULE_AHEAD_S) {
+        if (this.roundsLeft === 0) {
+          this.roundsLeft = Math.floor(between(MIN_BURST_ROUNDS, MAX_BURST_ROUNDS + 1));
+        }
+        const source = context.createBufferSource();
+        source.buffer = shot;
+        source.playbackRate.value = between(0.9, 1.1);
+        const gain = context.createGain();
+        gain.gain.value = between(0.7, 1);
+        source.connect(gain);
+        gain.connect(destination);
+        this.startSource(source, this.nextShotAt);
+
+        this.roundsLeft--;
+        this.nextShotAt += this.roundsLeft > 0 ? ROUND_SPACING_S : between(MIN_BURST_PAUSE_S, MAX_BURST_PAUSE_S);
+      }
+    };
+    schedule();
+    this.scheduler = setInterval(schedule, SCHEDULER_PERIOD_MS);
+  }
+
+  /**
+   * Starts a track, replacing any already playing.
+   * @param noise - The track and its level; `off` or a level of 0 plays nothing.
+   */
+  public play(noise: NoiseSettings): void {
+    this.stop();
+    if (!this.isSupported || noise.track === 'off' || !(noise.level > 0)) return;
+    const context = this.getContext();
+    context.resume().catch(() => {});
+
+    const output = context.createGain();
+    output.gain.value = Math.min(1, noise.level);
+    output.connect(context.destination);
+    this.output = output;
+    switch (noise.track) {
+      case 'gunfire': this.startGunfire(output); break;
+      case 'engine': this.startEngine(output); break;
+      case 'static': this.startStatic(output); break;
+    }
+  }
+
+  /**
+   * Immediately silences the track.
+   */
+  public stop(): void {
+    if (this.scheduler !== undefined) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    for (const source of this.sources) {
+      try {
+        source.stop();
+      } catch {
+        // The source had not been started or has already ended.
+      }
+    }
+    this.sources = [];
+    this.output?.disconnect();
+    this.output = null;
+  }
+}
+
+export const backgroundNoise = new BackgroundNoisePlayer();
@@ -0,0 +1,86 @@
+import { DrillCadence, DrillCommand } from '../types';
+import { createRng } from './random';
+
+/**
+ * Drills run at a fixed interval unless set otherwise, as they did before cadences.
+ */
+export const DEFAULT_CADENCE: DrillCadence = {
+  kind: 'fixed',
+  minInterval: 0.5,
+  maxInterval: 2,
+  burstLength: 3,
+};
+
+// Jitter is drawn from a stream of its own, so a drill's commands do not depend on its cadence.
+const CADENCE_SEED_SALT = 0x85ebca6b;
+
+// Delays are kept to whole milliseconds, as the drill code carries them.
+const roundDelay = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * The time from a command to the next one.
+ * @param command - The drill command.
+ * @param commandInterval - The drill's command interval in seconds, for commands without their own delay.
+ * @returns The delay in seconds.
+ */
+export const commandDelay = (command: DrillCommand, commandInterval: number): number => command.delay ?? commandInterval;
+
+/**
+ * The drill time at which each command is issued, and when the drill ends.
+ * @param commands - The drill commands.
+ * @param commandInterval - The drill's command interval in seconds, for commands without their own delay.
+ * @returns Seconds from the start to each command by index, then the total length of the drill.
+ */
+export const commandStartTimes = (commands: DrillCommand[], commandInterval: number): number[] => {
+  const times = [0];
+  commands.forEach(command => times.push(times[times.length - 1] + commandDelay(command, commandInterval)));
+  return times;
+};
+
+/**
+ * Gives every command of a drill its delay under a cadence.
+ * @param commands - The drill commands.
+ * @param cadence - The cadence to follow.
+ * @param commandInterval - The interval of a `fixed` cadence, in seconds.
+ * @param seed - Optional seed; the same seed always gives the same jitter.
+ * @returns The commands with their delays set.
+ */
+export const applyCadence = (commands: DrillCommand[], cadence: DrillCadence, commandInterval: number, seed?: number): DrillCommand[] => {
+  const { minInterval, maxInterval, burstLength } = cadence;
+  const random = seed === undefined ? Math.random : createRng(seed ^ CADENCE_SEED_SALT);
+  const last = Math.max(commands.length - 1, 1);
+
+  const delayAt = (index: number): number => {
+    switch (cadence.kind) {
+      case 'fixed': return commandInterval;
+      case 'jitter': return minInterval + random() * (maxInterval - minInterval);
+      case 'ramp': return maxInterval + (minInterval - maxInterval) * (index / last);
+      // The pause comes after the last command of each run.
+      case 'burst': return (index + 1) % burstLength === 0 ? maxInterval : minInterval;
+    }
+  };
+  return commands.map((command, index) => ({ ...command, delay: roundDelay(delayAt(index)) }));
+};
+
+/**
+ * The shortest time a command of the drill has to be voiced in.
+ * @param cadence - The drill's cadence.
+ * @param commandInterval - The interval of a `fixed` cadence, in seconds.
+ */
+export const shortestInterval = (cadence: DrillCadence, commandInterval: number): number =>
+  cadence.kind === 'fixed' ? commandInterval : Math.min(cadence.minInterval, cadence.maxInterval);
+
+/**
+ * Describes a cadence in a few words, e.g. "0.5-2s jitter".
+ * @param cadence - The drill's cadence.
+ * @param commandInterval - The interval of a `fixed` cadence, in seconds.
+ */
+export const formatCadence = (cadence: DrillCadence, commandInterval: number): string => {
+  const { minInterval, maxInterval, burstLength } = cadence;
+  switch (cadence.kind) {
+    case 'fixed': return `${commandInterval}s`;
+    case 'jitter': return `${minInterval}-${maxInterval}s jitter`;
+    case 'ramp': return `${maxInterval}s to ${minInterval}s ramp`;
+    case 'burst': return `bursts of ${burstLength} @ ${minInterval}s, ${maxInterval}s pauses`;
+  }
+};
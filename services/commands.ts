@@ -0,0 +1,133 @@
+import { Axis, CommandPart, Direction, DrillCommand, TAndE, WeaponProfile } from '../types';
+import { toDisplayValue } from './weaponProfiles';
+
+/** The T&E at center, where drills start and end unless set otherwise. */
+export const ORIGIN: TAndE = { traverse: 0, elevation: 0 };
+
+export const isSamePosition = (a: TAndE, b: TAndE): boolean =>
+  a.traverse === b.traverse && a.elevation === b.elevation;
+
+export const isVerticalDirection = (direction: Direction): boolean =>
+  direction === Direction.Up || direction === Direction.Down;
+
+/**
+ * The axis a direction moves the gun on.
+ */
+export const directionAxis = (direction: Direction): Axis => isVerticalDirection(direction) ? 'elevation' : 'traverse';
+
+/**
+ * Converts a direction and click count into a traverse/elevation delta.
+ * @param direction - The direction of the adjustment.
+ * @param clicks - The number of clicks.
+ * @returns The signed change in traverse and elevation.
+ */
+export const directionToDelta = (direction: Direction, clicks: number): TAndE => {
+  switch (direction) {
+    case Direction.Up:    return { traverse: 0, elevation: clicks };
+    case Direction.Down:  return { traverse: 0, elevation: -clicks };
+    case Direction.Left:  return { traverse: -clicks, elevation: 0 };
+    case Direction.Right: return { traverse: clicks, elevation: 0 };
+  }
+};
+
+/**
+ * Builds a command from its parts, placing each on its axis.
+ * @param parts - One part, or a traverse part and an elevation part.
+ * @returns The command.
+ */
+export const createCommand = (...parts: CommandPart[]): DrillCommand => {
+  const traverse = parts.find(part => !isVerticalDirection(part.direction));
+  const elevation = parts.find(part => isVerticalDirection(part.direction));
+  return {
+    ...(traverse && { traverse }),
+    ...(elevation && { elevation }),
+  };
+};
+
+/**
+ * Lists a command's parts in the order they are spoken: traverse, then elevation.
+ */
+export const commandParts = (command: DrillCommand): CommandPart[] =>
+  [command.traverse, command.elevation].filter((part): part is CommandPart => part !== undefined);
+
+export const isCompoundCommand = (command: DrillCommand): boolean =>
+  command.traverse !== undefined && command.elevation !== undefined;
+
+/**
+ * Index of the gun a command is for, from 0; a drill with one gun uses gun 0.
+ */
+export const gunIndex = (command: DrillCommand): number => (command.gun ?? 1) - 1;
+
+/**
+ * Counts the guns a drill's commands are given to.
+ */
+export const gunCount = (commands: DrillCommand[]): number =>
+  commands.reduce((count, command) => Math.max(count, gunIndex(command) + 1), 1);
+
+/**
+ * Creates a unique string key for a command, used to cache its playback.
+ * Compound commands join their parts, e.g. `LEFT_5+UP_10`, and a gun or
+ * correction call is keyed apart from the same move given plainly
+ * (`GUN2+LEFT_5`, `CORRECTION+LEFT_10`).
+ */
+export const commandKey = (command: DrillCommand): string => [
+  ...(command.gun ? [`GUN${command.gun}`] : []),
+  ...(command.correction ? ['CORRECTION'] : []),
+  ...commandParts(command).map(part => `${part.direction}_${part.value}`),
+].join('+');
+
+/**
+ * Computes the total traverse/elevation change a command makes. A command
+ * that is called off makes none.
+ */
+export const commandDelta = (command: DrillCommand): TAndE => command.calledOff ? { traverse: 0, elevation: 0 } : {
+  traverse: command.traverse ? directionToDelta(command.traverse.direction, command.traverse.value).traverse : 0,
+  elevation: command.elevation ? directionToDelta(command.elevation.direction, command.elevation.value).elevation : 0,
+};
+
+/**
+ * Builds the command that shifts the T&E from one position to another: one
+ * part per axis that moves, so a shift on both axes is a compound command.
+ * @returns The command, or null if the positions are the same.
+ */
+export const shiftCommand = (from: TAndE, to: TAndE): DrillCommand | null => {
+  const traverse = to.traverse - from.traverse;
+  const elevation = to.elevation - from.elevation;
+  const parts: CommandPart[] = [
+    ...(traverse !== 0 ? [{ direction: traverse > 0 ? Direction.Right : Direction.Left, value: Math.abs(traverse) }] : []),
+    ...(elevation !== 0 ? [{ direction: elevation > 0 ? Direction.Up : Direction.Down, value: Math.abs(elevation) }] : []),
+  ];
+  return parts.length > 0 ? createCommand(...parts) : null;
+};
+
+/**
+ * Formats a command for display, e.g. "LEFT 5, UP 10", with any gun and
+ * distractor call: "GUN 2, CORRECTION, LEFT 10" or "LEFT 5 (DISREGARD)".
+ * @param command - The command to format.
+ * @param profile - The weapon profile whose display units to use.
+ */
+export const formatCommand = (command: DrillCommand, profile: WeaponProfile): string => {
+  const text = [
+    ...(command.gun ? [`GUN ${command.gun}`] : []),
+    ...(command.correction ? ['CORRECTION'] : []),
+    ...commandParts(command).map(part => `${part.direction} ${toDisplayValue(part.value, profile, directionAxis(part.direction))}`),
+  ].join(', ');
+  return command.calledOff === 'disregard' ? `${text} (DISREGARD)` : text;
+};
+
+/**
+ * Lists every command a drill could contain for the given click values.
+ * @param clickValues - The possible click values.
+ * @param includeCompound - Whether to include commands that move both axes.
+ * @returns Single-axis commands for each direction and value, then any compound ones.
+ */
+export const possibleCommands = (clickValues: number[], includeCompound: boolean): DrillCommand[] => {
+  const partsFor = (directions: Direction[]) =>
+    directions.flatMap(direction => clickValues.map(value => ({ direction, value })));
+  const traverseParts = partsFor([Direction.Left, Direction.Right]);
+  const elevationParts = partsFor([Direction.Up, Direction.Down]);
+
+  const singles = [...traverseParts, ...elevationParts].map(part => createCommand(part));
+  if (!includeCompound) return singles;
+  return [...singles, ...traverseParts.flatMap(traverse => elevationParts.map(elevation => createCommand(traverse, elevation)))];
+};
@@ -0,0 +1,140 @@
+import { Direction, DrillCommand, TAndE, WeaponProfile } from '../types';
+import { ORIGIN, commandDelta, commandParts, gunCount, gunIndex, isSamePosition } from './commands';
+import { isMoveValid } from './drillGenerator';
+import { formatElevation, formatTraverse } from './weaponProfiles';
+import { createId, loadList, saveList } from './storage';
+
+/**
+ * A drill written or edited by hand: a fixed command list with the positions
+ * it starts from and must end on.
+ */
+export interface CustomDrill {
+  id: string;
+  name: string;
+  commands: DrillCommand[];
+  start: TAndE;
+  target: TAndE;
+}
+
+/**
+ * What a drill's commands do to the T&E, checked as the drill is edited.
+ */
+export interface DrillCheck {
+  /** The T&E of the command's gun after each command, by index, as written rather than clamped. */
+  positions: TAndE[];
+  /** Commands that take their gun past a T&E limit; a drill with any cannot be run. */
+  outOfLimits: number[];
+  /** Everything that looks wrong, in words, in drill order. */
+  warnings: string[];
+}
+
+const CUSTOM_DRILLS_STORAGE_KEY = 'snakeDrill.customDrills.v1';
+
+const LIMIT_NAMES: Record<Direction, string> = {
+  [Direction.Up]: 'up',
+  [Direction.Down]: 'down',
+  [Direction.Left]: 'left',
+  [Direction.Right]: 'right',
+};
+
+/**
+ * Creates an unsaved drill from a command list.
+ * @param commands - The commands, e.g. a generated drill's.
+ * @param start - Where the T&E is before the first command.
+ * @param target - Where the commands must leave the T&E.
+ */
+export const createCustomDrill = (commands: DrillCommand[], start: TAndE = ORIGIN, target: TAndE = ORIGIN): CustomDrill => ({
+  id: createId('drill'),
+  name: '',
+  // Timing comes from the cadence the drill is run with, not from the drill it was built from.
+  commands: commands.map(({ delay: _delay, ...command }) => command),
+  start,
+  target,
+});
+
+/**
+ * Loads the saved hand-built drills.
+ */
+export const loadCustomDrills = (): CustomDrill[] => loadList<CustomDrill>(CUSTOM_DRILLS_STORAGE_KEY, 'custom drills');
+
+/**
+ * Saves a drill, replacing the saved drill with the same id.
+ * @returns The updated list of drills.
+ */
+export const saveCustomDrill = (drill: CustomDrill): CustomDrill[] => {
+  const saved = { ...drill, name: drill.name.trim() };
+  const existing = loadCustomDrills();
+  const drills = existing.some(d => d.id === drill.id)
+    ? existing.map(d => d.id === drill.id ? saved : d)
+    : [...existing, saved];
+  saveList(CUSTOM_DRILLS_STORAGE_KEY, 'custom drills', drills);
+  return drills;
+};
+
+/**
+ * Deletes a saved drill.
+ * @returns The updated list of drills.
+ */
+export const deleteCustomDrill = (id: string): CustomDrill[] => {
+  const drills = loadCustomDrills().filter(d => d.id !== id);
+  saveList(CUSTOM_DRILLS_STORAGE_KEY, 'custom drills', drills);
+  return drills;
+};
+
+/**
+ * Walks a drill's commands the way the drill engine would, without clamping,
+ * to find every move past a T&E limit and every gun left off the target.
+ * @param commands - The drill's commands.
+ * @param profile - The weapon profile whose limits to check against.
+ * @param start - Where every gun is before the first command.
+ * @param target - Where the commands must leave every gun.
+ * @param endAnywhere - Whether the drill may end anywhere, as a quiz does.
+ * @returns The running T&E and what is wrong with the drill.
+ */
+export const checkDrill = (
+  commands: DrillCommand[],
+  profile: WeaponProfile,
+  start: TAndE,
+  target: TAndE,
+  endAnywhere = false
+): DrillCheck => {
+  const guns = gunCount(commands);
+  const gunPositions = Array.from({ length: guns }, () => start);
+  const outOfLimits: number[] = [];
+  const warnings: string[] = [];
+  const gunLabel = (gun: number) => guns > 1 ? `gun ${gun + 1}` : 'the T&E';
+
+  const positions = commands.map((command, index) => {
+    const gun = gunIndex(command);
+    const before = gunPositions[gun];
+    const past = command.calledOff
+      ? undefined
+      : commandParts(command).find(part => !isMoveValid(part, before.traverse, before.elevation, profile.limits));
+    if (past) {
+      outOfLimits.push(index);
+      warnings.push(`Command ${index + 1} takes ${gunLabel(gun)} past the ${LIMIT_NAMES[past.direction]} limit.`);
+    }
+    if (command.calledOff === 'correction' && !commands[index + 1]?.correction) {
+      warnings.push(`Command ${index + 1} is called off by a correction, but command ${index + 2} is not a correction.`);
+    }
+    if (command.correction && commands[index - 1]?.calledOff !== 'correction') {
+      warnings.push(`Command ${index + 1} is a correction, but command ${index} is not called off by one.`);
+    }
+    const delta = commandDelta(command);
+    gunPositions[gun] = { traverse: before.traverse + delta.traverse, elevation: before.elevation + delta.elevation };
+    return gunPositions[gun];
+  });
+
+  if (commands.length === 0) {
+    warnings.push('Add at least one command.');
+  } else if (!endAnywhere) {
+    gunPositions.forEach((position, gun) => {
+      if (!isSamePosition(position, target)) {
+        const where = `${formatTraverse(position.traverse, profile)}, ${formatElevation(position.elevation, profile)}`;
+        warnings.push(`The drill leaves ${gunLabel(gun)} at ${where}, not on the target.`);
+      }
+    });
+  }
+
+  return { positions, outOfLimits, warnings };
+};
@@ -0,0 +1,60 @@
+import { DisplaySettings, DisplayTheme } from '../types';
+
+/**
+ * A theme as offered in the display settings.
+ */
+export interface DisplayThemeOption {
+  id: DisplayTheme;
+  name: string;
+  /** Browser and title bar colour for the theme, matching its page background. */
+  themeColor: string;
+}
+
+export const DISPLAY_THEMES: DisplayThemeOption[] = [
+  { id: 'standard', name: 'Standard', themeColor: '#111827' },
+  { id: 'night', name: 'Night (Red)', themeColor: '#000000' },
+  { id: 'contrast', name: 'High Contrast', themeColor: '#000000' },
+];
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  theme: 'standard',
+  largePrint: false,
+};
+
+const DISPLAY_STORAGE_KEY = 'snakeDrill.display.v1';
+
+/**
+ * Loads the saved display settings, with defaults for anything missing.
+ */
+export const loadDisplaySettings = (): DisplaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DISPLAY_STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_DISPLAY_SETTINGS, ...(typeof stored === 'object' && stored !== null ? stored : {}) };
+    return DISPLAY_THEMES.some(t => t.id === settings.theme) ? settings : { ...settings, theme: DEFAULT_DISPLAY_SETTINGS.theme };
+  } catch (error) {
+    console.error('Failed to read display settings:', error);
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+};
+
+/**
+ * Saves the display settings.
+ */
+export const saveDisplaySettings = (settings: DisplaySettings): void => {
+  try {
+    localStorage.setItem(DISPLAY_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save display settings:', error);
+  }
+};
+
+/**
+ * Switches the page to a theme. The palette for each theme is set in
+ * `index.css` on the root element's `data-theme` attribute, so every
+ * colour class in the app follows it.
+ */
+export const applyDisplayTheme = (theme: DisplayTheme): void => {
+  document.documentElement.dataset.theme = theme;
+  const option = DISPLAY_THEMES.find(t => t.id === theme) ?? DISPLAY_THEMES[0];
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', option.themeColor);
+};
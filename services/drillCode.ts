@@ -0,0 +1,341 @@
+import type { DrillConfig } from '../App';
+import { CadenceKind, DistractorCall, DrillCadence, DrillCommand, DrillConstraints, DrillPositions, Direction, DrillMode, TAndE, WeaponProfile } from '../types';
+import { formatSeed, parseSeed } from './random';
+import { DEFAULT_PROFILE, findBuiltInProfile } from './weaponProfiles';
+import { ORIGIN, commandParts, createCommand, isSamePosition } from './commands';
+import { DEFAULT_CONSTRAINTS, DEFAULT_POSITIONS, MAX_GUNS } from './drillGenerator';
+import { DEFAULT_CADENCE } from './cadence';
+
+/**
+ * A drill as carried by a drill code: the settings plus either the seed that
+ * generates it or the literal command list.
+ */
+export interface SharedDrill {
+  config: Partial<DrillConfig>;
+  seed?: number;
+  commands?: DrillCommand[];
+}
+
+/** Name of the URL query parameter that carries a drill code. */
+export const DRILL_CODE_PARAM = 'drill';
+
+const DIRECTION_LETTERS: Record<Direction, string> = {
+  [Direction.Up]: 'U',
+  [Direction.Down]: 'D',
+  [Direction.Left]: 'L',
+  [Direction.Right]: 'R',
+};
+
+// Drill modes are stored by index so the original `t0`/`t1` codes keep their meaning.
+const DRILL_MODES: DrillMode[] = ['watch', 'interactive', 'quiz'];
+
+const LETTER_DIRECTIONS: Record<string, Direction> = {
+  U: Direction.Up,
+  D: Direction.Down,
+  L: Direction.Left,
+  R: Direction.Right,
+};
+
+const UNIT_LETTERS = { clicks: 'c', mils: 'm' } as const;
+
+/**
+ * Generator constraints are written only where they differ from the defaults,
+ * so codes for unconstrained drills stay as they were.
+ */
+const encodeConstraints = (constraints: DrillConstraints): string[] => {
+  const fields: string[] = [];
+  const weights = constraints.valueWeights.split(',').map(w => w.trim()).filter(Boolean);
+  if (weights.length > 0) fields.push(`v${weights.join('_')}`);
+  if (constraints.traverseBias !== DEFAULT_CONSTRAINTS.traverseBias) fields.push(`b${Math.round(constraints.traverseBias * 100)}`);
+  if (constraints.maxAxisRun > 0) fields.push(`r${constraints.maxAxisRun}`);
+  if (constraints.noImmediateUndo) fields.push('u1');
+  if (constraints.minSpread > 0) fields.push(`p${Math.round(constraints.minSpread * 100)}`);
+  return fields;
+};
+
+/**
+ * Start and target positions are written as `a<traverse>_<elevation>` and
+ * `z<traverse>_<elevation>`, and only when they are not zero. Random positions
+ * are written as the ones drawn, so the code runs the same drill again.
+ */
+const encodePositions = (positions: DrillPositions): string[] => {
+  const fields: string[] = [];
+  if (!isSamePosition(positions.start, ORIGIN)) fields.push(`a${positions.start.traverse}_${positions.start.elevation}`);
+  if (!isSamePosition(positions.target, ORIGIN)) fields.push(`z${positions.target.traverse}_${positions.target.elevation}`);
+  return fields;
+};
+
+const decodePosition = (text: string): TAndE | null => {
+  if (!/^-?\d+_-?\d+$/.test(text)) return null;
+  const [traverse, elevation] = text.split('_').map(Number);
+  return { traverse, elevation };
+};
+
+const CADENCE_LETTERS: Record<Exclude<CadenceKind, 'fixed'>, string> = { jitter: 'j', ramp: 'r', burst: 'b' };
+
+/**
+ * A cadence other than `fixed` is written as `d<kind><shortest ms>_<longest ms>_<burst length>`,
+ * e.g. `dj500_2000_3`; a fixed cadence is the `i` interval alone.
+ */
+const encodeCadence = (cadence: DrillCadence): string[] => cadence.kind === 'fixed'
+  ? []
+  : [`d${CADENCE_LETTERS[cadence.kind]}${Math.round(cadence.minInterval * 1000)}_${Math.round(cadence.maxInterval * 1000)}_${cadence.burstLength}`];
+
+const decodeCadence = (text: string): DrillCadence | null => {
+  const kind = (Object.keys(CADENCE_LETTERS) as Exclude<CadenceKind, 'fixed'>[]).find(k => CADENCE_LETTERS[k] === text[0]);
+  if (!kind || !/^\d+_\d+_\d+$/.test(text.slice(1))) return null;
+  const [min, max, burstLength] = text.slice(1).split('_').map(Number);
+  if (min < 1 || max < min || burstLength < 1) return null;
+  return { kind, minInterval: min / 1000, maxInterval: max / 1000, burstLength };
+};
+
+// Fields are split on ".", so a fractional click size writes its point as "p" ("0p5").
+const encodeDecimal = (value: number) => String(value).replace('.', 'p');
+const decodeDecimal = (text: string) => Number(text.replace('p', '.'));
+
+/**
+ * Built-in profiles are referenced by id; custom ones carry their limits,
+ * click size and unit so they open the same on another device.
+ */
+const encodeProfile = (profile: WeaponProfile): string => {
+  const builtIn = findBuiltInProfile(profile.id);
+  const isUnchanged = builtIn
+    && builtIn.traverseMilsPerClick === profile.traverseMilsPerClick
+    && builtIn.elevationMilsPerClick === profile.elevationMilsPerClick
+    && builtIn.unit === profile.unit
+    && (['left', 'right', 'up', 'down'] as const).every(key => builtIn.limits[key] === profile.limits[key]);
+  if (isUnchanged) {
+    return `w${profile.id}`;
+  }
+  const { left, right, up, down } = profile.limits;
+  const clickSizes = [profile.traverseMilsPerClick, profile.elevationMilsPerClick].map(encodeDecimal);
+  return `l${[left, right, up, down, ...clickSizes, UNIT_LETTERS[profile.unit]].join('_')}`;
+};
+
+// Codes made before each axis had its own click size carry one size for both.
+const decodeCustomProfile = (text: string): WeaponProfile | null => {
+  const parts = text.split('_');
+  if (parts.length !== 6 && parts.length !== 7) return null;
+  const [left, right, up, down] = parts.slice(0, 4).map(Number);
+  const traverseMilsPerClick = decodeDecimal(parts[4]);
+  const elevationMilsPerClick = parts.length === 7 ? decodeDecimal(parts[5]) : traverseMilsPerClick;
+  const unitLetter = parts[parts.length - 1];
+  const unit = unitLetter === 'm' ? 'mils' : unitLetter === 'c' ? 'clicks' : null;
+  if (!unit || [left, right, up, down].some(v => !Number.isInteger(v) || v < 1)
+    || !(traverseMilsPerClick > 0) || !(elevationMilsPerClick > 0)) return null;
+  return { id: 'shared', name: 'Shared Profile', limits: { left, right, up, down }, traverseMilsPerClick, elevationMilsPerClick, unit };
+};
+
+const CALL_LETTERS: Record<DistractorCall, string> = { disregard: 'd', correction: 'c' };
+
+// Commands are written back to back ("L5U10"); a compound command joins its parts with "~" ("L5~U10").
+// A command that is called off ends in its call's letter ("L5d"); the command after a `c` is its correction.
+// In a section drill each command starts with its gun ("g2L5").
+const encodeCommands = (commands: DrillCommand[]) =>
+  commands
+    .map(command => (command.gun ? `g${command.gun}` : '')
+      + commandParts(command).map(part => `${DIRECTION_LETTERS[part.direction]}${part.value}`).join('~')
+      + (command.calledOff ? CALL_LETTERS[command.calledOff] : ''))
+    .join('');
+
+const decodeCommands = (text: string): DrillCommand[] | null => {
+  const tokens = text.match(/(g\d)?[UDLR]\d+(~[UDLR]\d+)?[dc]?/g);
+  if (!tokens || tokens.join('') !== text) return null;
+  const commands: DrillCommand[] = [];
+  for (const token of tokens) {
+    const gun = token.startsWith('g') ? Number(token[1]) : undefined;
+    const move = gun === undefined ? token : token.slice(2);
+    const call = (Object.keys(CALL_LETTERS) as DistractorCall[]).find(c => move.endsWith(CALL_LETTERS[c]));
+    const parts = (call ? move.slice(0, -1) : move).split('~').map(part => ({ direction: LETTER_DIRECTIONS[part[0]], value: parseInt(part.slice(1), 10) }));
+    const command: DrillCommand = createCommand(...parts);
+    // A compound command must move both axes, not the same axis twice.
+    if (commandParts(command).length !== parts.length) return null;
+    if (gun !== undefined) {
+      if (gun < 1 || gun > MAX_GUNS) return null;
+      command.gun = gun;
+    }
+    if (call) command.calledOff = call;
+    if (commands[commands.length - 1]?.calledOff === 'correction') command.correction = true;
+    commands.push(command);
+  }
+  // A correction must follow the command it replaces.
+  if (commands[commands.length - 1]?.calledOff === 'correction') return null;
+  return commands;
+};
+
+/**
+ * Packs the drill-defining settings and the seed (or the literal commands) into
+ * a compact, URL-safe string of dot-separated `<key><value>` fields, e.g.
+ * `n10.c5_10.i1000.wtraining.t0.s1Z4K9Q`. Voice settings are left out since they
+ * belong to the device playing the drill, not the drill itself.
+ * @param config - The drill configuration.
+ * @param drill - The seed or literal command list that defines the drill.
+ * @returns The drill code.
+ */
+export const encodeDrillCode = (config: DrillConfig, drill: { seed?: number; commands?: DrillCommand[] }): string => {
+  const fields = [
+    `n${config.numCommands}`,
+    `c${config.clickValues.split(',').map(v => v.trim()).filter(Boolean).join('_')}`,
+    `i${Math.round(config.commandInterval * 1000)}`,
+    encodeProfile(config.weaponProfile),
+    `t${DRILL_MODES.indexOf(config.mode)}`,
+    `x${Math.round(config.compoundRatio * 100)}`,
+    ...(config.distractorRate > 0 ? [`y${Math.round(config.distractorRate * 100)}`] : []),
+    ...(config.guns > 1 ? [`g${config.guns}`] : []),
+    ...encodeConstraints(config.constraints),
+    ...encodePositions(config.positions),
+    ...encodeCadence(config.cadence),
+  ];
+  if (drill.seed !== undefined) {
+    fields.push(`s${formatSeed(drill.seed)}`);
+  } else if (drill.commands) {
+    fields.push(`k${encodeCommands(drill.commands)}`);
+  }
+  return fields.join('.');
+};
+
+/**
+ * Unpacks a drill code produced by `encodeDrillCode`.
+ * @param code - The drill code.
+ * @returns The shared drill, or null if the code is malformed.
+ */
+export const decodeDrillCode = (code: string): SharedDrill | null => {
+  // A code without constraint, position, cadence, distractor or gun fields was made without them.
+  const constraints: DrillConstraints = { ...DEFAULT_CONSTRAINTS };
+  const positions: DrillPositions = { ...DEFAULT_POSITIONS };
+  const shared: SharedDrill = { config: { constraints, positions, cadence: DEFAULT_CADENCE, distractorRate: 0, guns: 1 } };
+
+  for (const field of code.trim().split('.')) {
+    const key = field[0];
+    const value = field.slice(1);
+    const number = Number(value);
+
+    switch (key) {
+      case 'n':
+        if (!Number.isInteger(number) || number < 1) return null;
+        shared.config.numCommands = number;
+        break;
+      case 'c':
+        if (!/^\d+(_\d+)*$/.test(value)) return null;
+        shared.config.clickValues = value.split('_').join(', ');
+        break;
+      case 'i':
+        if (!Number.isInteger(number) || number < 1) return null;
+        shared.config.commandInterval = number / 1000;
+        break;
+      case 'w': {
+        const profile = findBuiltInProfile(value);
+        if (!profile) return null;
+        shared.config.weaponProfile = profile;
+        break;
+      }
+      case 'l': {
+        const profile = decodeCustomProfile(value);
+        if (!profile) return null;
+        shared.config.weaponProfile = profile;
+        break;
+      }
+      case 'm':
+        // Codes from before weapon profiles carry one symmetric limit.
+        if (!Number.isInteger(number) || number < 1) return null;
+        shared.config.weaponProfile = {
+          ...DEFAULT_PROFILE,
+          id: 'shared',
+          name: 'Shared Profile',
+          limits: { left: number, right: number, up: number, down: number },
+        };
+        break;
+      case 't': {
+        const mode = DRILL_MODES[number];
+        if (!mode) return null;
+        shared.config.mode = mode;
+        break;
+      }
+      case 'x':
+        if (!Number.isInteger(number) || number < 0 || number > 100) return null;
+        shared.config.compoundRatio = number / 100;
+        break;
+      case 'y':
+        if (!Number.isInteger(number) || number < 1 || number > 100) return null;
+        shared.config.distractorRate = number / 100;
+        break;
+      case 'g':
+        if (!Number.isInteger(number) || number < 2 || number > MAX_GUNS) return null;
+        shared.config.guns = number;
+        break;
+      case 'v':
+        if (!/^\d+(_\d+)*$/.test(value)) return null;
+        constraints.valueWeights = value.split('_').join(', ');
+        break;
+      case 'b':
+        if (!Number.isInteger(number) || number < 0 || number > 100) return null;
+        constraints.traverseBias = number / 100;
+        break;
+      case 'r':
+        if (!Number.isInteger(number) || number < 1) return null;
+        constraints.maxAxisRun = number;
+        break;
+      case 'u':
+        constraints.noImmediateUndo = value === '1';
+        break;
+      case 'p':
+        if (!Number.isInteger(number) || number < 0 || number > 100) return null;
+        constraints.minSpread = number / 100;
+        break;
+      case 'a': {
+        const start = decodePosition(value);
+        if (!start) return null;
+        positions.start = start;
+        break;
+      }
+      case 'z': {
+        const target = decodePosition(value);
+        if (!target) return null;
+        positions.target = target;
+        break;
+      }
+      case 'd': {
+        const cadence = decodeCadence(value);
+        if (!cadence) return null;
+        shared.config.cadence = cadence;
+        break;
+      }
+      case 's': {
+        const seed = parseSeed(value);
+        if (seed === null) return null;
+        shared.seed = seed;
+        break;
+      }
+      case 'k': {
+        const commands = decodeCommands(value);
+        if (!commands) return null;
+        shared.commands = commands;
+        break;
+      }
+      default:
+        // Unknown fields are skipped so older builds can still open newer codes.
+        break;
+    }
+  }
+
+  return shared;
+};
+
+/**
+ * Builds a link that opens the app with the given drill code loaded.
+ */
+export const buildDrillLink = (code: string): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set(DRILL_CODE_PARAM, code);
+  return url.toString();
+};
+
+/**
+ * Reads a drill code from the current page URL, if one is present.
+ */
+export const readDrillCodeFromUrl = (): SharedDrill | null => {
+  if (typeof window === 'undefined') return null;
+  const code = new URLSearchParams(window.location.search).get(DRILL_CODE_PARAM);
+  return code ? decodeDrillCode(code) : null;
+};
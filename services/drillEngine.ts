@@ -0,0 +1,239 @@
+import { DrillCommand, TAndE, TAndELimits } from '../types';
+import { ORIGIN, commandDelta, gunCount, gunIndex } from './commands';
+import { commandStartTimes } from './cadence';
+import { clampToLimits } from './weaponProfiles';
+
+/**
+ * Where a drill engine is in its run:
+ * - `ready`: created but not started.
+ * - `running`: issuing commands on schedule.
+ * - `paused`: the drill clock is stopped; `step` moves on by hand.
+ * - `finished`: every command has been issued and applied.
+ */
+export type DrillEngineState = 'ready' | 'running' | 'paused' | 'finished';
+
+/**
+ * What a drill engine reports to its subscribers. Times are in milliseconds of
+ * drill time, which starts at 0 and stands still while the drill is paused.
+ * `position` is that of the gun the command is for, or of gun 1 at the end;
+ * `positions` has every gun's, for section drills.
+ */
+export type DrillEngineEvent =
+  | { type: 'commandIssued'; index: number; command: DrillCommand; at: number }
+  | { type: 'positionApplied'; index: number; position: TAndE; positions: TAndE[]; at: number }
+  | { type: 'finished'; position: TAndE; positions: TAndE[]; at: number }
+  | { type: 'stateChanged'; state: DrillEngineState }
+  | { type: 'restarted' };
+
+export type DrillEngineListener = (event: DrillEngineEvent) => void;
+
+/** One scheduled moment of the drill: a command is issued, or its move lands halfway through its delay. */
+interface TimelineStep {
+  at: number;
+  kind: 'issue' | 'apply' | 'finish';
+  index: number;
+}
+
+/**
+ * Runs a drill's timing and T&E state outside of React. Every step is
+ * scheduled against a fixed timeline on the `performance.now()` clock rather
+ * than chained from the previous timer, so timer lateness never accumulates
+ * into drift, even at sub-second intervals.
+ */
+export class DrillEngine {
+  private readonly timeline: TimelineStep[];
+  private listeners = new Set<DrillEngineListener>();
+  private state: DrillEngineState = 'ready';
+  private nextStep = 0;
+  /** The T&E of each gun, by gun index; a drill with one gun has one. */
+  private positions: TAndE[];
+  /** `performance.now()` at drill time 0, moved forward by every pause. */
+  private origin = 0;
+  /** Drill time while not running. */
+  private stoppedAt = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @param commands - The drill's commands.
+   * @param commandInterval - The time between commands in seconds, for commands without their own delay.
+   * @param limits - The T&E limits positions are clamped to.
+   * @param startPosition - Where the T&E of every gun is before the first command.
+   */
+  constructor(
+    private readonly commands: DrillCommand[],
+    commandInterval: number,
+    private readonly limits: TAndELimits,
+    private readonly startPosition: TAndE = ORIGIN
+  ) {
+    this.positions = this.startPositions();
+    const times = commandStartTimes(commands, commandInterval).map(seconds => Math.round(seconds * 1000));
+    this.timeline = commands.flatMap((_, index): TimelineStep[] => [
+      { at: times[index], kind: 'issue', index },
+      { at: (times[index] + times[index + 1]) / 2, kind: 'apply', index },
+    ]);
+    this.timeline.push({ at: times[commands.length], kind: 'finish', index: commands.length });
+  }
+
+  /**
+   * Registers a listener for the engine's events.
+   * @returns A function that removes the listener.
+   */
+  public subscribe(listener: DrillEngineListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public getState(): DrillEngineState {
+    return this.state;
+  }
+
+  /**
+   * The current drill time in milliseconds. Use it to timestamp trainee input
+   * so that pauses do not count against them.
+   */
+  public now(): number {
+    return this.state === 'running' ? performance.now() - this.origin : this.stoppedAt;
+  }
+
+  /**
+   * Starts the drill from the beginning. Does nothing once started.
+   */
+  public start(): void {
+    if (this.state !== 'ready') return;
+    this.origin = performance.now() - this.stoppedAt;
+    this.setState('running');
+    this.tick();
+  }
+
+  public pause(): void {
+    if (this.state !== 'running') return;
+    this.stoppedAt = this.now();
+    this.clearTimer();
+    this.setState('paused');
+  }
+
+  public resume(): void {
+    if (this.state !== 'paused') return;
+    this.origin = performance.now() - this.stoppedAt;
+    this.setState('running');
+    this.tick();
+  }
+
+  /**
+   * Moves a paused drill on by one command: the current command's move is
+   * applied and the next command is issued. A running drill is paused first.
+   */
+  public step(): void {
+    this.pause();
+    if (this.state !== 'paused') return;
+    while (this.nextStep < this.timeline.length) {
+      const step = this.timeline[this.nextStep++];
+      this.stoppedAt = step.at;
+      this.runStep(step);
+      if (step.kind !== 'apply') break;
+    }
+  }
+
+  /**
+   * Jumps to just before a command is issued, with every earlier command
+   * applied, and leaves the drill paused there. Nothing is emitted for the
+   * skipped commands; `resume` carries on from the new point.
+   * @param index - The command to issue next; the command count jumps to the end.
+   */
+  public seek(index: number): void {
+    this.clearTimer();
+    const target = Math.max(0, Math.min(index, this.commands.length));
+    this.positions = this.startPositions();
+    this.commands.slice(0, target).forEach(command => this.applyCommand(command));
+    // Each command has an issue and an apply step.
+    this.nextStep = target * 2;
+    this.stoppedAt = this.timeline[this.nextStep].at;
+    if (this.state !== 'paused') {
+      this.setState('paused');
+    }
+  }
+
+  /**
+   * Returns to the first command with the T&E at the start and runs the drill again.
+   */
+  public restart(): void {
+    this.clearTimer();
+    this.nextStep = 0;
+    this.stoppedAt = 0;
+    this.positions = this.startPositions();
+    this.state = 'ready';
+    this.emit({ type: 'restarted' });
+    this.start();
+  }
+
+  /**
+   * Stops all timers and drops every listener.
+   */
+  public dispose(): void {
+    this.clearTimer();
+    this.listeners.clear();
+  }
+
+  private tick(): void {
+    this.clearTimer();
+    // Run every step that is due, catching up in order if the timer fired late.
+    while (this.state === 'running' && this.nextStep < this.timeline.length && this.timeline[this.nextStep].at <= this.now()) {
+      this.runStep(this.timeline[this.nextStep++]);
+    }
+    if (this.state === 'running' && this.nextStep < this.timeline.length) {
+      this.timer = setTimeout(() => this.tick(), this.timeline[this.nextStep].at - this.now());
+    }
+  }
+
+  private runStep(step: TimelineStep): void {
+    switch (step.kind) {
+      case 'issue':
+        this.emit({ type: 'commandIssued', index: step.index, command: this.commands[step.index], at: step.at });
+        break;
+      case 'apply': {
+        const position = this.applyCommand(this.commands[step.index]);
+        this.emit({ type: 'positionApplied', index: step.index, position, positions: [...this.positions], at: step.at });
+        break;
+      }
+      case 'finish':
+        this.stoppedAt = step.at;
+        this.setState('finished');
+        this.emit({ type: 'finished', position: this.positions[0], positions: [...this.positions], at: step.at });
+        break;
+    }
+  }
+
+  private startPositions(): TAndE[] {
+    return Array.from({ length: gunCount(this.commands) }, () => this.startPosition);
+  }
+
+  /**
+   * Moves the gun a command is for.
+   * @returns The gun's new position.
+   */
+  private applyCommand(command: DrillCommand): TAndE {
+    const gun = gunIndex(command);
+    const delta = commandDelta(command);
+    this.positions[gun] = clampToLimits({
+      traverse: this.positions[gun].traverse + delta.traverse,
+      elevation: this.positions[gun].elevation + delta.elevation,
+    }, this.limits);
+    return this.positions[gun];
+  }
+
+  private setState(state: DrillEngineState): void {
+    this.state = state;
+    this.emit({ type: 'stateChanged', state });
+  }
+
+  private emit(event: DrillEngineEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -1,98 +1,786 @@
-import { DrillCommand, Direction } from '../types';
+import type { DrillConfig } from '../App';
+import { CommandPart, DistractorCall, DrillCommand, DrillConstraints, DrillPositions, Direction, TAndE, TAndELimits } from '../types';
+import { createRng, parseSeed, RandomSource } from './random';
+import { ORIGIN, commandDelta, commandKey, commandParts, createCommand, isCompoundCommand, isSamePosition, isVerticalDirection, possibleCommands } from './commands';
+import { tracePath } from './scoring';
+import { searchDrill } from './drillSearch';
+
+const ALL_DIRECTIONS = [Direction.Up, Direction.Down, Direction.Left, Direction.Right];
+const TRAVERSE_DIRECTIONS = [Direction.Left, Direction.Right];
+const ELEVATION_DIRECTIONS = [Direction.Up, Direction.Down];
+
+/**
+ * Constraints that leave generation exactly as it was before they existed,
+ * so seeds from older drill codes still give the same drills.
+ */
+export const DEFAULT_CONSTRAINTS: DrillConstraints = {
+  valueWeights: '',
+  traverseBias: 0.5,
+  maxAxisRun: 0,
+  noImmediateUndo: false,
+  minSpread: 0,
+};
 
 /**
- * Checks if a given command is valid from the current T&E state.
- * @param command The command to validate.
+ * Drills start and end at zero unless set otherwise.
+ */
+export const DEFAULT_POSITIONS: DrillPositions = {
+  start: ORIGIN,
+  target: ORIGIN,
+  random: false,
+};
+
+/**
+ * A generated drill and how hard it is.
+ */
+export interface GeneratedDrill {
+  /** The commands, or an empty array if no drill could be generated. */
+  commands: DrillCommand[];
+  /** From 0 to 100; see `rateDifficulty`. */
+  difficulty: number;
+  /** Where the drill starts; drawn by the generator when the positions are random. */
+  start: TAndE;
+  /** Where the commands must leave the T&E. */
+  target: TAndE;
+  /** Why no drill could be generated, in words for the drill setup screen. */
+  problem?: string;
+  /**
+   * False when the generator gave up on the problem rather than ruled every
+   * drill out, e.g. the search reached its limit; another seed may find one.
+   */
+  proven?: boolean;
+}
+
+/**
+ * Checks if a given single-axis move is valid from the current T&E state.
+ * @param part The move to validate.
  * @param currentTraverse The current simulated traverse value.
  * @param currentElevation The current simulated elevation value.
- * @param maxTAndE The maximum allowed value for traverse and elevation.
+ * @param limits The T&E travel limits in each direction.
  * @returns True if the move is valid, false otherwise.
  */
-const isMoveValid = (
-  command: DrillCommand,
+export const isMoveValid = (
+  part: CommandPart,
   currentTraverse: number,
   currentElevation: number,
-  maxTAndE: number
+  limits: TAndELimits
 ): boolean => {
-  const { direction, value } = command;
+  const { direction, value } = part;
   switch (direction) {
     case Direction.Up:
-      return currentElevation + value <= maxTAndE;
+      return currentElevation + value <= limits.up;
     case Direction.Down:
-      return currentElevation - value >= -maxTAndE;
+      return currentElevation - value >= -limits.down;
     case Direction.Left:
-      return currentTraverse - value >= -maxTAndE;
+      return currentTraverse - value >= -limits.left;
     case Direction.Right:
-      return currentTraverse + value <= maxTAndE;
+      return currentTraverse + value <= limits.right;
     default:
       return false;
   }
 };
 
-export const generateDrill = (numCommands: number, clickValues: number[], maxTAndE: number): DrillCommand[] => {
-  if (clickValues.length === 0 || clickValues.some(v => v > maxTAndE)) {
-    // Also check if any click values are impossible from the start.
-    return [];
+const fitsTraverse = (value: number, limits: TAndELimits) => value <= Math.max(limits.left, limits.right);
+const fitsElevation = (value: number, limits: TAndELimits) => value <= Math.max(limits.up, limits.down);
+
+const pick = <T>(items: T[], random: RandomSource): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Picks a click value, in proportion to its weight if the values are weighted.
+ */
+const pickValue = (values: number[], weights: number[] | undefined, random: RandomSource): number => {
+  if (!weights) return pick(values, random);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < values.length; i++) {
+    target -= weights[i];
+    if (target < 0) return values[i];
+  }
+  return values[values.length - 1];
+};
+
+/**
+ * Parses the click value weights typed in the drill setup.
+ * @param text - Comma-separated weights in the same order as the click values.
+ * @param count - The number of click values; missing weights count as 1.
+ * @returns The weights, undefined if they are blank or all equal, or null if any is not a whole number of 0 or more, or all are 0.
+ */
+export const parseValueWeights = (text: string, count: number): number[] | undefined | null => {
+  if (text.trim() === '') return undefined;
+  const typed = text.split(',').map(w => w.trim() === '' ? NaN : Number(w));
+  if (typed.some(w => !Number.isInteger(w) || w < 0)) return null;
+  const weights = Array.from({ length: count }, (_, i) => typed[i] ?? 1);
+  if (weights.every(w => w === 0)) return null;
+  return weights.every(w => w === weights[0]) ? undefined : weights;
+};
+
+/**
+ * Tracks the commands placed so far and which next moves the constraints rule out.
+ */
+class ConstraintTracker {
+  private previous: DrillCommand | undefined;
+  private runVertical: boolean | undefined;
+  private runLength = 0;
+
+  constructor(private readonly constraints: DrillConstraints) {}
+
+  /**
+   * Whether a single-axis move may come next.
+   */
+  public allowsPart(part: CommandPart): boolean {
+    const vertical = isVerticalDirection(part.direction);
+    const { maxAxisRun, noImmediateUndo } = this.constraints;
+    if (maxAxisRun > 0 && this.runVertical === vertical && this.runLength >= maxAxisRun) return false;
+    return !noImmediateUndo || !this.undoesPrevious(createCommand(part));
+  }
+
+  /**
+   * Whether a two-axis command may come next. Compound commands never extend a run on one axis.
+   */
+  public allowsCompound(command: DrillCommand): boolean {
+    return !this.constraints.noImmediateUndo || !this.undoesPrevious(command);
+  }
+
+  public push(command: DrillCommand): void {
+    if (isCompoundCommand(command)) {
+      this.runVertical = undefined;
+      this.runLength = 0;
+    } else {
+      const vertical = command.elevation !== undefined;
+      this.runLength = this.runVertical === vertical ? this.runLength + 1 : 1;
+      this.runVertical = vertical;
+    }
+    this.previous = command;
+  }
+
+  private undoesPrevious(command: DrillCommand): boolean {
+    if (!this.previous || isCompoundCommand(this.previous) !== isCompoundCommand(command)) return false;
+    const before = commandDelta(this.previous);
+    const after = commandDelta(command);
+    return before.traverse + after.traverse === 0 && before.elevation + after.elevation === 0;
+  }
+}
+
+/**
+ * How far along the path gets toward the T&E limits: the largest share of a
+ * limit reached on either axis, from 0 to 1.
+ */
+const pathSpread = (commands: DrillCommand[], limits: TAndELimits, start: TAndE = ORIGIN): number =>
+  tracePath(commands, start).reduce((spread, { traverse, elevation }) => Math.max(
+    spread,
+    traverse === 0 ? 0 : Math.abs(traverse) / (traverse > 0 ? limits.right : limits.left),
+    elevation === 0 ? 0 : Math.abs(elevation) / (elevation > 0 ? limits.up : limits.down),
+  ), 0);
+
+/**
+ * Names a difficulty score's band, e.g. "Hard".
+ */
+export const difficultyLabel = (difficulty: number): string => {
+  if (difficulty < 25) return 'Easy';
+  if (difficulty < 50) return 'Moderate';
+  if (difficulty < 75) return 'Hard';
+  return 'Very Hard';
+};
+
+/**
+ * Rates how hard a drill is to follow, from 0 to 100. Every command adds to
+ * the load, with extra for giving both axes at once, for switching axis, and
+ * for click values that are not multiples of 5; paths that range further
+ * toward the limits weigh more. The load is eased onto the scale so that long,
+ * busy drills approach 100 without passing it.
+ * @param commands - The drill's commands.
+ * @param limits - The T&E limits the drill runs within.
+ * @param start - Where the drill starts.
+ */
+export const rateDifficulty = (commands: DrillCommand[], limits: TAndELimits, start: TAndE = ORIGIN): number => {
+  const load = commands.reduce((sum, command, index) => {
+    const previous = commands[index - 1];
+    const switchesAxis = previous !== undefined && (isCompoundCommand(command)
+      || isCompoundCommand(previous)
+      || (command.elevation !== undefined) !== (previous.elevation !== undefined));
+    const oddValues = [command.traverse, command.elevation].filter(part => part && part.value % 5 !== 0).length;
+    return sum + 1 + (isCompoundCommand(command) ? 1 : 0) + (switchesAxis ? 0.5 : 0) + 0.5 * oddValues;
+  }, 0);
+  return Math.round(100 * (1 - Math.exp(-(load * (1 + pathSpread(commands, limits, start))) / 40)));
+};
+
+export interface GenerateDrillOptions {
+  /**
+   * Let the drill end wherever the commands lead instead of back at zero.
+   * Used by the mental-math quiz, where the trainee calls the final setting.
+   */
+  endAnywhere?: boolean;
+  /**
+   * Share of commands (0 to 1) that move both axes at once, e.g. "LEFT 5, UP 10".
+   */
+  compoundRatio?: number;
+  /**
+   * Value weights, axis bias and sequence rules; see `DrillConstraints`.
+   */
+  constraints?: DrillConstraints;
+  /**
+   * Where the drill starts and must end, or random positions; see `DrillPositions`.
+   */
+  positions?: DrillPositions;
+  /**
+   * Share of commands (0 to 1) given a distractor first: a wrong move that is
+   * called off by "DISREGARD", or replaced by the command given as a correction.
+   */
+  distractorRate?: number;
+  /**
+   * Guns in the section, each with a T&E of its own; with more than one, every
+   * command is for one gun. See `MAX_GUNS`.
+   */
+  guns?: number;
+}
+
+/** Most guns a section drill can give commands to. */
+export const MAX_GUNS = 4;
+
+// Quick random attempts come before the full search. They draw exactly as the
+// generator always has, so existing seeds and drill codes keep their drills.
+const MAX_GENERATION_ATTEMPTS = 10;
+
+/**
+ * Generates a random walk of exactly `numCommands` valid commands. If the chosen
+ * click value has no valid direction from the current position, any valid
+ * move with another click value is used instead. A walk that gets stuck or
+ * never reaches the minimum spread is thrown away and drawn again.
+ */
+const generateOpenDrill = (
+  numCommands: number,
+  clickValues: number[],
+  limits: TAndELimits,
+  compoundRatio: number,
+  constraints: DrillConstraints,
+  weights: number[] | undefined,
+  random: RandomSource
+): DrillCommand[] => {
+  // The fallback may use any value, but never one weighted out entirely.
+  const fallbackValues = weights ? clickValues.filter((_, index) => weights[index] > 0) : clickValues;
+
+  attempts: for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const drill: DrillCommand[] = [];
+    const tracker = new ConstraintTracker(constraints);
+    let simTraverse = 0;
+    let simElevation = 0;
+
+    const validParts = (directions: Direction[], values: number[]) =>
+      values
+        .flatMap(value => directions.map(direction => ({ direction, value })))
+        .filter(part => isMoveValid(part, simTraverse, simElevation, limits));
+
+    for (let i = 0; i < numCommands; i++) {
+      let command: DrillCommand | null = null;
+
+      if (compoundRatio > 0 && random() < compoundRatio) {
+        const traverseParts = validParts(TRAVERSE_DIRECTIONS, [pickValue(clickValues, weights, random)]);
+        const elevationParts = validParts(ELEVATION_DIRECTIONS, [pickValue(clickValues, weights, random)]);
+        if (traverseParts.length > 0 && elevationParts.length > 0) {
+          command = createCommand(pick(traverseParts, random), pick(elevationParts, random));
+          if (!tracker.allowsCompound(command)) command = null;
+        }
+      }
+
+      if (!command) {
+        // An axis bias picks the axis first; without one every direction is equally likely.
+        const directions = constraints.traverseBias === DEFAULT_CONSTRAINTS.traverseBias
+          ? ALL_DIRECTIONS
+          : random() < constraints.traverseBias ? TRAVERSE_DIRECTIONS : ELEVATION_DIRECTIONS;
+        let parts = validParts(directions, [pickValue(clickValues, weights, random)]).filter(part => tracker.allowsPart(part));
+        if (parts.length === 0) {
+          parts = validParts(ALL_DIRECTIONS, fallbackValues).filter(part => tracker.allowsPart(part));
+        }
+        if (parts.length === 0) {
+          continue attempts;
+        }
+        command = createCommand(pick(parts, random));
+      }
+
+      drill.push(command);
+      tracker.push(command);
+      const delta = commandDelta(command);
+      simTraverse += delta.traverse;
+      simElevation += delta.elevation;
+    }
+
+    if (pathSpread(drill, limits) >= constraints.minSpread) {
+      return drill;
+    }
   }
 
+  return [];
+};
+
+/**
+ * Generates a drill whose commands return to zero: half the moves are drawn
+ * as UP/RIGHT, mirrored into DOWN/LEFT, and the pool is then shuffled into an
+ * order that stays within the limits.
+ * @returns The commands, or an empty array if every attempt got stuck.
+ */
+const generateBalancedDrill = (
+  numCommands: number,
+  clickValues: number[],
+  limits: TAndELimits,
+  compoundRatio: number,
+  constraints: DrillConstraints,
+  weights: number[] | undefined,
+  random: RandomSource
+): DrillCommand[] => {
+  const totalCommands = numCommands % 2 === 0 ? numCommands : numCommands + 1;
+  // Each compound command uses two parts, and the parts must pair up into an even, balanced set.
+  const compoundCommands = Math.min(totalCommands, 2 * Math.round((totalCommands * compoundRatio) / 2));
+  const halfParts = (totalCommands + compoundCommands) / 2;
+
   // We might need to retry if a random sequence gets stuck, so we wrap in a loop.
-  const MAX_GENERATION_ATTEMPTS = 10;
   for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
-    const totalCommands = numCommands % 2 === 0 ? numCommands : numCommands + 1;
-    const halfCommands = totalCommands / 2;
-    const positiveCommands: DrillCommand[] = [];
-
-    // 1. Generate one half of the drill with "positive" movements (UP/RIGHT)
-    for (let i = 0; i < halfCommands; i++) {
-      const value = clickValues[Math.floor(Math.random() * clickValues.length)];
-      const isHorizontal = Math.random() > 0.5;
-      positiveCommands.push({ direction: isHorizontal ? Direction.Right : Direction.Up, value });
+    const positiveParts: CommandPart[] = [];
+
+    // 1. Generate one half of the drill with "positive" movements (UP/RIGHT).
+    // Compound commands need one part on each axis, so reserve enough of both.
+    const reservedPerAxis = compoundCommands / 2;
+    for (let i = 0; i < halfParts; i++) {
+      const value = pickValue(clickValues, weights, random);
+      let isHorizontal: boolean;
+      if (i < reservedPerAxis * 2 && fitsTraverse(value, limits) && fitsElevation(value, limits)) {
+        isHorizontal = i < reservedPerAxis;
+      } else {
+        // Values too large for one axis can only be used on the other.
+        isHorizontal = !fitsElevation(value, limits) || (fitsTraverse(value, limits) && random() > 1 - constraints.traverseBias);
+      }
+      positiveParts.push({ direction: isHorizontal ? Direction.Right : Direction.Up, value });
     }
 
-    // 2. Create the exact opposite commands to ensure the drill is balanced
-    const negativeCommands: DrillCommand[] = positiveCommands.map(command => ({
-      direction: command.direction === Direction.Right ? Direction.Left : Direction.Down,
-      value: command.value,
+    // 2. Create the exact opposite movements to ensure the drill is balanced
+    const negativeParts: CommandPart[] = positiveParts.map(part => ({
+      direction: part.direction === Direction.Right ? Direction.Left : Direction.Down,
+      value: part.value,
     }));
 
-    let availableCommands = [...positiveCommands, ...negativeCommands];
+    const availableParts = [...positiveParts, ...negativeParts];
     const finalDrill: DrillCommand[] = [];
+    const tracker = new ConstraintTracker(constraints);
+    let compoundsRemaining = compoundCommands;
     let simTraverse = 0;
     let simElevation = 0;
 
+    const validPartIndices = (vertical?: boolean) => availableParts
+      .map((_, index) => index)
+      .filter(index => vertical === undefined || isVerticalDirection(availableParts[index].direction) === vertical)
+      .filter(index => isMoveValid(availableParts[index], simTraverse, simElevation, limits));
+
     // 3. Iteratively build the drill by picking valid moves
-    while (availableCommands.length > 0) {
-      const validMoveIndices = availableCommands
-        .map((_, index) => index)
-        .filter(index => isMoveValid(availableCommands[index], simTraverse, simElevation, maxTAndE));
-
-      if (validMoveIndices.length === 0) {
-        // This random sequence is stuck. Break and let the outer loop try again.
-        break;
+    while (availableParts.length > 0) {
+      const commandsRemaining = availableParts.length - compoundsRemaining;
+      // Spread the compound commands evenly through the drill.
+      const wantCompound = compoundsRemaining > 0 && random() < compoundsRemaining / commandsRemaining;
+
+      let chosenIndices: number[] = [];
+      if (wantCompound) {
+        const traverseIndices = validPartIndices(false);
+        const elevationIndices = validPartIndices(true);
+        if (traverseIndices.length > 0 && elevationIndices.length > 0) {
+          chosenIndices = [pick(traverseIndices, random), pick(elevationIndices, random)];
+          if (tracker.allowsCompound(createCommand(...chosenIndices.map(index => availableParts[index])))) {
+            compoundsRemaining--;
+          } else {
+            chosenIndices = [];
+          }
+        }
+      }
+
+      if (chosenIndices.length === 0) {
+        const validMoveIndices = validPartIndices().filter(index => tracker.allowsPart(availableParts[index]));
+        if (validMoveIndices.length === 0) {
+          // This random sequence is stuck. Break and let the outer loop try again.
+          break;
+        }
+        // Pick a random valid move from the list of possible moves
+        chosenIndices = [pick(validMoveIndices, random)];
       }
 
-      // Pick a random valid move from the list of possible moves
-      const randomValidIndex = validMoveIndices[Math.floor(Math.random() * validMoveIndices.length)];
-      
-      // Remove the chosen command from the pool and add it to the final drill
-      const [chosenCommand] = availableCommands.splice(randomValidIndex, 1);
+      // Remove the chosen parts from the pool (highest index first) and add the command to the final drill
+      const chosenParts = [...chosenIndices]
+        .sort((a, b) => b - a)
+        .map(index => availableParts.splice(index, 1)[0]);
+      const chosenCommand = createCommand(...chosenParts);
       finalDrill.push(chosenCommand);
+      tracker.push(chosenCommand);
 
       // Update the simulated state
-      switch (chosenCommand.direction) {
-        case Direction.Up:    simElevation += chosenCommand.value; break;
-        case Direction.Down:  simElevation -= chosenCommand.value; break;
-        case Direction.Left:  simTraverse  -= chosenCommand.value; break;
-        case Direction.Right: simTraverse  += chosenCommand.value; break;
-      }
+      const delta = commandDelta(chosenCommand);
+      simTraverse += delta.traverse;
+      simElevation += delta.elevation;
     }
 
-    if (finalDrill.length === totalCommands) {
+    if (availableParts.length === 0 && finalDrill.length === totalCommands && pathSpread(finalDrill, limits) >= constraints.minSpread) {
       return finalDrill; // Success!
     }
   }
-  
-  // If all attempts fail, log an error and return an empty array.
-  console.error(`Failed to generate a valid drill after ${MAX_GENERATION_ATTEMPTS} attempts. Please try different settings.`);
+
   return [];
-};
\ No newline at end of file
+};
+
+// Random positions are drawn from a stream of their own, so the commands between
+// them come out the same as when the positions are typed in from a drill code.
+const POSITIONS_SEED_SALT = 0x9e3779b9;
+const MAX_POSITION_ATTEMPTS = 20;
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+/**
+ * Draws a multiple of `step` between `min` and `max`, which must include one.
+ */
+const drawOnGrid = (min: number, max: number, step: number, random: RandomSource): number => {
+  const first = Math.ceil(min / step);
+  const last = Math.floor(max / step);
+  return step * (first + Math.floor(random() * (last - first + 1)));
+};
+
+const isWithinLimits = (position: TAndE, limits: TAndELimits): boolean =>
+  position.traverse >= -limits.left && position.traverse <= limits.right &&
+  position.elevation >= -limits.down && position.elevation <= limits.up;
+
+/**
+ * Generates a drill between two set positions: the quick attempts when it
+ * runs from zero back to zero (or anywhere), otherwise the full search.
+ */
+const generateBetween = (
+  numCommands: number,
+  clickValues: number[],
+  limits: TAndELimits,
+  seed: number | undefined,
+  options: GenerateDrillOptions,
+  weights: number[] | undefined,
+  start: TAndE,
+  target: TAndE
+): GeneratedDrill => {
+  const random = seed === undefined ? Math.random : createRng(seed);
+  const compoundRatio = Math.max(0, Math.min(1, options.compoundRatio ?? 0));
+  const constraints = options.constraints ?? DEFAULT_CONSTRAINTS;
+  const endAnywhere = options.endAnywhere ?? false;
+  const failed = (problem: string): GeneratedDrill => ({ commands: [], difficulty: 0, start, target, problem });
+
+  if (!isWithinLimits(start, limits)) {
+    return failed('The start position is outside the T&E limits.');
+  }
+  if (!endAnywhere && !isWithinLimits(target, limits)) {
+    return failed('The target position is outside the T&E limits.');
+  }
+
+  // The quick attempts only make drills from zero, and balanced ones of an even length back to zero.
+  const fromZero = isSamePosition(start, ORIGIN);
+  const quickDrill = !fromZero ? []
+    : endAnywhere ? generateOpenDrill(numCommands, clickValues, limits, compoundRatio, constraints, weights, random)
+    : isSamePosition(target, ORIGIN) && numCommands % 2 === 0 ? generateBalancedDrill(numCommands, clickValues, limits, compoundRatio, constraints, weights, random)
+    : [];
+  if (quickDrill.length > 0) {
+    return { commands: quickDrill, difficulty: rateDifficulty(quickDrill, limits), start, target };
+  }
+
+  const result = searchDrill({
+    numCommands,
+    clickValues: weights ? clickValues.filter((_, index) => weights[index] > 0) : clickValues,
+    weights: weights?.filter(weight => weight > 0),
+    limits,
+    start,
+    target,
+    endAnywhere,
+    compoundCommands: Math.min(numCommands, 2 * Math.round((numCommands * compoundRatio) / 2)),
+    compoundRatio,
+    constraints,
+  }, random);
+  if ('problem' in result) {
+    return { ...failed(result.problem), proven: result.proven };
+  }
+  return { commands: result.commands, difficulty: rateDifficulty(result.commands, limits, start), start, target };
+};
+
+// Distractors are drawn from a stream of their own, so a drill keeps its commands at any rate.
+const DISTRACTOR_SEED_SALT = 0xc2b2ae35;
+
+/**
+ * Gives some commands of a drill a distractor first. The wrong move stays
+ * within the limits, since the trainee may dial it before it is called off,
+ * and a correction's wrong move is on the same direction where one fits.
+ * The moves that land are unchanged, so the drill still ends on its target.
+ */
+const addDistractors = (drill: GeneratedDrill, clickValues: number[], limits: TAndELimits, rate: number, seed: number | undefined): GeneratedDrill => {
+  if (!(rate > 0) || drill.commands.length === 0) return drill;
+  const random = seed === undefined ? Math.random : createRng(seed ^ DISTRACTOR_SEED_SALT);
+  const path = [drill.start, ...tracePath(drill.commands, drill.start)];
+
+  const commands = drill.commands.flatMap((command, index): DrillCommand[] => {
+    if (random() >= rate) return [command];
+    const calledOff: DistractorCall = random() < 0.5 ? 'disregard' : 'correction';
+    const wrongMoves = possibleCommands(clickValues, false).filter(move => {
+      const delta = commandDelta(move);
+      const position = { traverse: path[index].traverse + delta.traverse, elevation: path[index].elevation + delta.elevation };
+      return commandKey(move) !== commandKey(command) && isWithinLimits(position, limits);
+    });
+    const direction = commandParts(command)[0].direction;
+    const sameDirection = wrongMoves.filter(move => commandParts(move)[0].direction === direction);
+    const candidates = calledOff === 'correction' && sameDirection.length > 0 ? sameDirection : wrongMoves;
+    if (candidates.length === 0) return [command];
+
+    const wrongMove = { ...pick(candidates, random), calledOff };
+    return [wrongMove, calledOff === 'correction' ? { ...command, correction: true } : command];
+  });
+  return { ...drill, commands, difficulty: rateDifficulty(commands, limits, drill.start) };
+};
+
+// Each gun's commands come from a seed of its own, and the order the guns are called in from another.
+const GUN_SEED_SALT = 0x27d4eb2f;
+const GUN_ORDER_SEED_SALT = 0x165667b1;
+
+/**
+ * Calls the guns' drills in a random order, keeping each gun's commands in
+ * their own order. A gun with more commands left is more likely to be called
+ * next, so the guns finish at about the same time, and a correction is always
+ * called right after the command it replaces.
+ */
+const interleaveGuns = (drills: GeneratedDrill[], seed: number | undefined): DrillCommand[] => {
+  const random = seed === undefined ? Math.random : createRng(seed ^ GUN_ORDER_SEED_SALT);
+  const queues = drills.map((drill, gun) => drill.commands.reduce<DrillCommand[][]>((calls, command, index) => {
+    const gunCommand = { ...command, gun: gun + 1 };
+    if (drill.commands[index - 1]?.calledOff === 'correction') {
+      calls[calls.length - 1].push(gunCommand);
+    } else {
+      calls.push([gunCommand]);
+    }
+    return calls;
+  }, []));
+
+  const commands: DrillCommand[] = [];
+  let left = queues.reduce((total, queue) => total + queue.length, 0);
+  while (left > 0) {
+    let draw = random() * left;
+    const queue = queues.find(q => (draw -= q.length) < 0) ?? queues.find(q => q.length > 0)!;
+    commands.push(...queue.shift()!);
+    left--;
+  }
+  return commands;
+};
+
+/**
+ * Generates a section drill: a drill of its own for each gun, from the same
+ * start to the same target, split as evenly as the command count allows and
+ * called in an interleaved order.
+ */
+const generateSectionDrill = (
+  numCommands: number,
+  clickValues: number[],
+  limits: TAndELimits,
+  seed: number | undefined,
+  options: GenerateDrillOptions,
+  weights: number[] | undefined,
+  guns: number,
+  distractorRate: number
+): GeneratedDrill => {
+  const { start, target } = options.positions ?? DEFAULT_POSITIONS;
+  const drills: GeneratedDrill[] = [];
+  for (let gun = 0; gun < guns; gun++) {
+    // Gun 1 gets the seed itself, so a section drill opens like the one-gun drill of its seed.
+    const gunSeed = seed === undefined || gun === 0 ? seed : (seed ^ Math.imul(gun, GUN_SEED_SALT)) >>> 0;
+    const count = Math.floor(numCommands / guns) + (gun < numCommands % guns ? 1 : 0);
+    const drill = generateBetween(count, clickValues, limits, gunSeed, options, weights, start, target);
+    if (drill.problem) {
+      return { ...drill, problem: `Gun ${gun + 1}: ${drill.problem}` };
+    }
+    drills.push(addDistractors(drill, clickValues, limits, distractorRate, gunSeed));
+  }
+  const difficulty = Math.round(drills.reduce((total, drill) => total + drill.difficulty, 0) / guns);
+  return { commands: interleaveGuns(drills, seed), difficulty, start, target };
+};
+
+/**
+ * Generates a random drill that stays within the T&E limits and ends on the
+ * target, which is zero unless set otherwise. A few quick random attempts are
+ * made first; if they all get stuck, or the drill does not run from zero, a
+ * full search takes over, which finds a drill whenever one exists and
+ * otherwise reports why none can, unless it reaches its limit first; see `proven`.
+ *
+ * With random positions, the start is drawn anywhere within the limits and
+ * the target within reach of it, both on the grid of the click values, until
+ * a pair is found that a drill can join. Distractors, if any, come on top of
+ * the `numCommands` commands that land.
+ *
+ * With several guns, the commands are shared out between them, each gun's
+ * leading from the start to the target on its own.
+ * @param numCommands - The number of commands.
+ * @param clickValues - The click values commands may use.
+ * @param limits - The T&E travel limits in each direction.
+ * @param seed - Optional seed; the same seed and settings always produce the same drill.
+ * @param options - Optional generation settings.
+ * @returns The drill commands, positions and difficulty, or no commands and the problem.
+ */
+export const generateDrill = (
+  numCommands: number,
+  clickValues: number[],
+  limits: TAndELimits,
+  seed?: number,
+  options: GenerateDrillOptions = {}
+): GeneratedDrill => {
+  const positions = options.positions ?? DEFAULT_POSITIONS;
+  const constraints = options.constraints ?? DEFAULT_CONSTRAINTS;
+  const weights = parseValueWeights(constraints.valueWeights, clickValues.length);
+  const failed = (problem: string): GeneratedDrill => ({ commands: [], difficulty: 0, start: positions.start, target: positions.target, problem });
+
+  if (clickValues.length === 0) {
+    return failed('Enter at least one click value.');
+  }
+  if (weights === null) {
+    return failed('Click value weights must be whole numbers of 0 or more, and not all 0.');
+  }
+  const tooLarge = clickValues.find(v => !fitsTraverse(v, limits) && !fitsElevation(v, limits));
+  if (tooLarge !== undefined) {
+    return failed(`Click value ${tooLarge} is larger than every T&E limit.`);
+  }
+
+  const distractorRate = Math.max(0, Math.min(1, options.distractorRate ?? 0));
+  const guns = Math.max(1, Math.floor(options.guns ?? 1));
+  if (guns > 1) {
+    if (guns > MAX_GUNS) {
+      return failed(`A section drill can have at most ${MAX_GUNS} guns.`);
+    }
+    if (positions.random) {
+      return failed('Section drills start every gun at the same set position. Turn off random positions.');
+    }
+    if (numCommands < 2 * guns) {
+      return failed(`Use at least ${2 * guns} commands, 2 for each gun.`);
+    }
+    return generateSectionDrill(numCommands, clickValues, limits, seed, options, weights, guns, distractorRate);
+  }
+  if (!positions.random) {
+    const drill = generateBetween(numCommands, clickValues, limits, seed, options, weights, positions.start, positions.target);
+    return addDistractors(drill, clickValues, limits, distractorRate, seed);
+  }
+
+  const random = seed === undefined ? Math.random : createRng(seed ^ POSITIONS_SEED_SALT);
+  const step = clickValues.reduce(greatestCommonDivisor, 0);
+  // How far one axis can move in a quarter of the commands, which leaves room to wander on the way.
+  const reach = Math.ceil(numCommands / 4) * Math.max(...clickValues);
+  for (let attempt = 0; attempt < MAX_POSITION_ATTEMPTS; attempt++) {
+    const start = {
+      traverse: drawOnGrid(-limits.left, limits.right, step, random),
+      elevation: drawOnGrid(-limits.down, limits.up, step, random),
+    };
+    const target = options.endAnywhere ? ORIGIN : {
+      traverse: drawOnGrid(Math.max(-limits.left, start.traverse - reach), Math.min(limits.right, start.traverse + reach), step, random),
+      elevation: drawOnGrid(Math.max(-limits.down, start.elevation - reach), Math.min(limits.up, start.elevation + reach), step, random),
+    };
+    const drill = generateBetween(numCommands, clickValues, limits, seed, options, weights, start, target);
+    if (drill.commands.length > 0) {
+      return addDistractors(drill, clickValues, limits, distractorRate, seed);
+    }
+  }
+  return { ...failed('No random start and target could be joined with these settings. Set the positions, or use more commands or other click values.'), proven: false };
+};
+
+/**
+ * Reads the click values typed as a comma-separated list, skipping anything
+ * that is not a positive whole number.
+ */
+export const parseClickValues = (text: string): number[] =>
+  text
+    .split(',')
+    .map(v => parseInt(v.trim(), 10))
+    .filter(v => !isNaN(v) && v > 0);
+
+/**
+ * Checks the drill settings one by one, before any drill is generated.
+ * @param config - The drill settings.
+ * @returns What is wrong with the first invalid setting, or null if they are all valid.
+ */
+export const validateDrillConfig = (config: DrillConfig): string | null => {
+  const clickValues = parseClickValues(config.clickValues);
+  const { weaponProfile, constraints } = config;
+  const { left, right, up, down } = weaponProfile.limits;
+
+  if (clickValues.length === 0) {
+    return 'Please enter at least one valid, positive number for click values.';
+  }
+  if (config.numCommands < 2) {
+    return 'Number of commands must be at least 2.';
+  }
+  if ([left, right, up, down].some(limit => limit < 5)) {
+    return 'Each T&E limit must be at least 5 clicks.';
+  }
+  if (!(weaponProfile.traverseMilsPerClick > 0) || !(weaponProfile.elevationMilsPerClick > 0)) {
+    return 'Mils per click must be a positive number on both axes.';
+  }
+  if (clickValues.some(v => v > Math.max(left, right) && v > Math.max(up, down))) {
+    return 'Click values cannot be greater than the weapon\'s T&E limits.';
+  }
+  if (config.compoundRatio < 0 || config.compoundRatio > 1) {
+    return 'Compound commands must be between 0 and 100%.';
+  }
+  if (config.distractorRate < 0 || config.distractorRate > 1) {
+    return 'Distractors must be between 0 and 100%.';
+  }
+  if (!Number.isInteger(config.guns) || config.guns < 1 || config.guns > MAX_GUNS) {
+    return `Guns must be a whole number from 1 to ${MAX_GUNS}.`;
+  }
+  if (config.guns > 1 && config.mode === 'quiz') {
+    return 'Section drills cannot be run as a mental math quiz.';
+  }
+  const weights = parseValueWeights(constraints.valueWeights, clickValues.length);
+  if (weights === null || constraints.valueWeights.split(',').length > clickValues.length) {
+    return 'Click value weights must be whole numbers, one per click value, and not all 0.';
+  }
+  if (!Number.isInteger(constraints.maxAxisRun) || constraints.maxAxisRun < 0) {
+    return 'The longest run on one axis must be 0 or more.';
+  }
+  if (constraints.minSpread < 0 || constraints.minSpread > 1) {
+    return 'Minimum spread must be between 0 and 100%.';
+  }
+  if (config.commandInterval <= 0) {
+    return 'Command interval must be a positive number.';
+  }
+  if (config.cadence.kind !== 'fixed') {
+    const { minInterval, maxInterval, burstLength } = config.cadence;
+    if (!(minInterval > 0)) {
+      return 'Shortest interval must be a positive number.';
+    }
+    if (!(maxInterval >= minInterval)) {
+      return 'Longest interval cannot be shorter than the shortest interval.';
+    }
+    if (config.cadence.kind === 'burst' && (!Number.isInteger(burstLength) || burstLength < 1)) {
+      return 'Commands per burst must be at least 1.';
+    }
+  }
+  if (config.seed.trim() !== '' && parseSeed(config.seed) === null) {
+    return 'Drill seed must be up to 7 letters or digits.';
+  }
+  return null;
+};
+
+// How many seeds the drill check tries before it reports that the generator gave up.
+const PROBLEM_CHECK_SEEDS = 3;
+
+/**
+ * Checks that a drill can be generated with the given settings. A problem the
+ * generator proves holds for every seed; but the search may give up at its
+ * limit, and random positions are only sampled, so those depend on the seed.
+ * The check then tries a few more seeds before reporting that no drill was
+ * found, which, unlike a proven problem, does not mean none exists.
+ * @param config - The drill settings.
+ * @returns Why no drill can be generated, or that none was found, or null if one was.
+ */
+export const findDrillProblem = (config: DrillConfig): string | null => {
+  const clickValues = parseClickValues(config.clickValues);
+  let problem: string | null = null;
+  for (let seed = 1; seed <= PROBLEM_CHECK_SEEDS; seed++) {
+    const drill = generateDrill(config.numCommands, clickValues, config.weaponProfile.limits, seed, {
+      endAnywhere: config.mode === 'quiz',
+      compoundRatio: config.compoundRatio,
+      constraints: config.constraints,
+      positions: config.positions,
+      guns: config.guns,
+    });
+    if (!drill.problem) return null;
+    problem = drill.problem;
+    if (drill.proven !== false) break;
+  }
+  return problem;
+};
@@ -0,0 +1,396 @@
+import { CommandPart, DrillCommand, DrillConstraints, Direction, TAndE, TAndELimits } from '../types';
+import { RandomSource } from './random';
+import { ORIGIN, commandKey, createCommand, isSamePosition, isVerticalDirection } from './commands';
+
+/**
+ * Everything that decides whether a drill can exist, in the form the search uses.
+ */
+export interface DrillProblem {
+  numCommands: number;
+  /** The click values the drill may use, with their weights; values weighted 0 are left out. */
+  clickValues: number[];
+  weights?: number[];
+  limits: TAndELimits;
+  /** Where the T&E is before the first command. */
+  start: TAndE;
+  /** Where the last command must leave the T&E. */
+  target: TAndE;
+  /** End anywhere within the limits instead of on the target. */
+  endAnywhere: boolean;
+  /** Exactly how many commands move both axes, or with `endAnywhere` the share to aim for. */
+  compoundCommands: number;
+  compoundRatio: number;
+  constraints: DrillConstraints;
+}
+
+/**
+ * The outcome of a search: the commands found, or why there are none.
+ * `proven` is false only when the search gave up before trying everything.
+ */
+export type DrillSearchResult =
+  | { commands: DrillCommand[] }
+  | { problem: string; proven: boolean };
+
+// Enough to finish any realistic drill; a search that needs more is reported rather than left to hang the page.
+const MAX_SEARCH_NODES = 5000;
+const SEARCH_LIMIT_REACHED = new Error('Drill search limit reached');
+
+/**
+ * Reachability on one axis, ignoring the other: from each position, whether a
+ * given number of moves can end on target (a set position, or anywhere) without leaving
+ * the limits, and whether they can do so while passing a spread position.
+ * Since the axes only meet in compound commands, which move each axis once,
+ * the two tables together decide exactly which T&E states can still finish.
+ */
+class AxisReach {
+  private readonly size: number;
+  private readonly reach: Uint8Array;
+  private readonly reachSpread: Uint8Array;
+
+  /**
+   * @param low - How far the axis travels in the negative direction (left or down).
+   * @param high - How far it travels in the positive direction (right or up).
+   * @param values - The click values a move may use.
+   * @param maxMoves - The most moves ever asked about.
+   * @param target - The position the moves must end on.
+   * @param endAnywhere - Whether any end position counts, not only the target.
+   * @param minSpread - The share of a limit that counts as a spread position.
+   */
+  constructor(
+    private readonly low: number,
+    private readonly high: number,
+    values: number[],
+    maxMoves: number,
+    target: number,
+    endAnywhere: boolean,
+    private readonly minSpread: number
+  ) {
+    this.size = low + high + 1;
+    this.reach = new Uint8Array((maxMoves + 1) * this.size);
+    this.reachSpread = new Uint8Array((maxMoves + 1) * this.size);
+
+    for (let p = -low; p <= high; p++) {
+      this.reach[this.index(0, p)] = endAnywhere || p === target ? 1 : 0;
+    }
+    for (let m = 1; m <= maxMoves; m++) {
+      for (let p = -low; p <= high; p++) {
+        let reach = 0;
+        let reachSpread = 0;
+        for (const value of values) {
+          for (const next of [p + value, p - value]) {
+            if (next < -low || next > high) continue;
+            const rest = this.index(m - 1, next);
+            reach ||= this.reach[rest];
+            reachSpread ||= this.isSpread(next) ? this.reach[rest] : this.reachSpread[rest];
+          }
+        }
+        this.reach[this.index(m, p)] = reach;
+        this.reachSpread[this.index(m, p)] = reachSpread;
+      }
+    }
+  }
+
+  /**
+   * Whether `moves` moves from `position` can finish, passing a spread position on the way if `needSpread`.
+   */
+  public canFinish(moves: number, position: number, needSpread: boolean): boolean {
+    return (needSpread ? this.reachSpread : this.reach)[this.index(moves, position)] === 1;
+  }
+
+  public isSpread(position: number): boolean {
+    if (position > 0) return position >= this.minSpread * this.high;
+    if (position < 0) return -position >= this.minSpread * this.low;
+    return false;
+  }
+
+  private index(moves: number, position: number): number {
+    return moves * this.size + position + this.low;
+  }
+}
+
+interface SearchState {
+  traverse: number;
+  elevation: number;
+  /** Commands still to place. */
+  remaining: number;
+  /** Compound commands still to place; only tracked when the count is fixed. */
+  compounds: number;
+  spreadReached: boolean;
+  runVertical?: boolean;
+  runLength: number;
+  previous?: DrillCommand;
+}
+
+/**
+ * Finds drills by depth-first search with backtracking. Every step only
+ * considers commands after which the drill can still be finished, so the
+ * search rarely backs up, and states that turned out to be dead ends are
+ * remembered so none is searched twice. The search is complete: it finds a
+ * drill whenever one exists, and running out of options proves that none does.
+ */
+class DrillSearch {
+  private readonly traverseAxis: AxisReach;
+  private readonly elevationAxis: AxisReach;
+  private readonly traverseSingles: boolean;
+  private readonly elevationSingles: boolean;
+  private readonly feasibleCache = new Map<string, boolean>();
+  private readonly deadEnds = new Set<string>();
+  private nodes = 0;
+
+  constructor(private readonly problem: DrillProblem, private readonly random: RandomSource) {
+    const { limits, clickValues, numCommands, target, endAnywhere, constraints } = problem;
+    this.traverseAxis = new AxisReach(limits.left, limits.right, clickValues, numCommands, target.traverse, endAnywhere, constraints.minSpread);
+    this.elevationAxis = new AxisReach(limits.down, limits.up, clickValues, numCommands, target.elevation, endAnywhere, constraints.minSpread);
+    // A bias of 0% or 100% rules single-axis moves on the other axis out entirely.
+    this.traverseSingles = constraints.traverseBias > 0;
+    this.elevationSingles = constraints.traverseBias < 1;
+  }
+
+  /**
+   * Whether any drill at all satisfies the limits, command count, compound
+   * count, axis bias and spread, and has enough moves of each kind for the
+   * longest-run rule, before the order of the commands is considered.
+   */
+  public isFeasible(): boolean {
+    return this.canFinish(this.initialState());
+  }
+
+  /**
+   * Runs the search.
+   * @returns The commands, or null if there are none, or undefined if the search gave up.
+   */
+  public run(): DrillCommand[] | null | undefined {
+    try {
+      return this.search(this.initialState());
+    } catch (error) {
+      if (error === SEARCH_LIMIT_REACHED) return undefined;
+      throw error;
+    }
+  }
+
+  private initialState(): SearchState {
+    return {
+      traverse: this.problem.start.traverse,
+      elevation: this.problem.start.elevation,
+      remaining: this.problem.numCommands,
+      compounds: this.problem.compoundCommands,
+      spreadReached: this.problem.constraints.minSpread <= 0,
+      runLength: 0,
+    };
+  }
+
+  private search(state: SearchState): DrillCommand[] | null {
+    if (state.remaining === 0) return [];
+    const key = this.stateKey(state);
+    if (this.deadEnds.has(key)) return null;
+    if (++this.nodes > MAX_SEARCH_NODES) throw SEARCH_LIMIT_REACHED;
+
+    for (const command of this.candidates(state)) {
+      const next = this.apply(state, command);
+      if (!this.canFinish(next)) continue;
+      const rest = this.search(next);
+      if (rest) return [command, ...rest];
+    }
+
+    this.deadEnds.add(key);
+    return null;
+  }
+
+  /**
+   * Whether the commands left can still finish the drill from a state,
+   * ignoring the sequence rules, which the search itself enforces.
+   */
+  private canFinish(state: SearchState): boolean {
+    const key = `${state.traverse},${state.elevation},${state.remaining},${state.compounds},${state.spreadReached}`;
+    const cached = this.feasibleCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const { endAnywhere, compoundRatio, constraints: { maxAxisRun } } = this.problem;
+    // With runs capped, each axis's single moves need enough moves of other kinds between them.
+    const runsFit = (singles: number, otherMoves: number) => maxAxisRun === 0 || singles <= maxAxisRun * (otherMoves + 1);
+    // With a fixed count the compounds are known; otherwise any number may be used.
+    const compoundCounts = endAnywhere
+      ? Array.from({ length: compoundRatio > 0 ? state.remaining + 1 : 1 }, (_, i) => i)
+      : [state.compounds];
+
+    let feasible = false;
+    for (const compounds of compoundCounts) {
+      const singles = state.remaining - compounds;
+      if (singles < 0) continue;
+      for (let onTraverse = 0; onTraverse <= singles && !feasible; onTraverse++) {
+        if ((onTraverse > 0 && !this.traverseSingles) || (onTraverse < singles && !this.elevationSingles)) continue;
+        if (!runsFit(onTraverse, singles - onTraverse + compounds) || !runsFit(singles - onTraverse, onTraverse + compounds)) continue;
+        const traverseMoves = compounds + onTraverse;
+        const elevationMoves = compounds + singles - onTraverse;
+        feasible = state.spreadReached
+          ? this.traverseAxis.canFinish(traverseMoves, state.traverse, false) && this.elevationAxis.canFinish(elevationMoves, state.elevation, false)
+          : (this.traverseAxis.canFinish(traverseMoves, state.traverse, true) && this.elevationAxis.canFinish(elevationMoves, state.elevation, false))
+            || (this.traverseAxis.canFinish(traverseMoves, state.traverse, false) && this.elevationAxis.canFinish(elevationMoves, state.elevation, true));
+      }
+      if (feasible) break;
+    }
+
+    this.feasibleCache.set(key, feasible);
+    return feasible;
+  }
+
+  /**
+   * Lists the commands allowed next, in a random order that follows the value
+   * weights and axis bias. Compound commands come first as often as they
+   * should appear in the drill.
+   */
+  private candidates(state: SearchState): DrillCommand[] {
+    const { clickValues, weights, limits, endAnywhere, compoundRatio, constraints } = this.problem;
+    const weightOf = (value: number) => weights?.[clickValues.indexOf(value)] ?? 1;
+    // Exponential race keys: sorting by them draws a weighted random order.
+    const ranked = (items: { command: DrillCommand; weight: number }[]) => items
+      .map(item => ({ command: item.command, key: -Math.log(1 - this.random()) / item.weight }))
+      .sort((a, b) => a.key - b.key)
+      .map(item => item.command);
+
+    const fits = (part: CommandPart) => {
+      switch (part.direction) {
+        case Direction.Up: return state.elevation + part.value <= limits.up;
+        case Direction.Down: return state.elevation - part.value >= -limits.down;
+        case Direction.Left: return state.traverse - part.value >= -limits.left;
+        case Direction.Right: return state.traverse + part.value <= limits.right;
+      }
+    };
+    const parts = (directions: Direction[]) => clickValues
+      .flatMap(value => directions.map(direction => ({ direction, value })))
+      .filter(fits);
+    const traverseParts = parts([Direction.Left, Direction.Right]);
+    const elevationParts = parts([Direction.Up, Direction.Down]);
+
+    const singlesAllowed = endAnywhere || state.remaining > state.compounds;
+    const singles = singlesAllowed
+      ? ranked([
+          ...(this.traverseSingles ? traverseParts : []).map(part => ({ part, weight: weightOf(part.value) * constraints.traverseBias })),
+          ...(this.elevationSingles ? elevationParts : []).map(part => ({ part, weight: weightOf(part.value) * (1 - constraints.traverseBias) })),
+        ]
+          .filter(({ part }) => this.allowsSingle(state, part))
+          .map(({ part, weight }) => ({ command: createCommand(part), weight })))
+      : [];
+
+    const compoundsAllowed = endAnywhere ? compoundRatio > 0 : state.compounds > 0;
+    const compounds = compoundsAllowed
+      ? ranked(traverseParts
+          .flatMap(traverse => elevationParts.map(elevation => ({
+            command: createCommand(traverse, elevation),
+            weight: weightOf(traverse.value) * weightOf(elevation.value),
+          })))
+          .filter(({ command }) => !this.undoesPrevious(state, command)))
+      : [];
+
+    const compoundShare = endAnywhere ? compoundRatio : state.compounds / state.remaining;
+    return this.random() < compoundShare ? [...compounds, ...singles] : [...singles, ...compounds];
+  }
+
+  private allowsSingle(state: SearchState, part: CommandPart): boolean {
+    const { maxAxisRun } = this.problem.constraints;
+    const vertical = isVerticalDirection(part.direction);
+    if (maxAxisRun > 0 && state.runVertical === vertical && state.runLength >= maxAxisRun) return false;
+    return !this.undoesPrevious(state, createCommand(part));
+  }
+
+  private undoesPrevious(state: SearchState, command: DrillCommand): boolean {
+    if (!this.problem.constraints.noImmediateUndo || !state.previous) return false;
+    const opposite = (part?: CommandPart) => part && {
+      direction: { [Direction.Up]: Direction.Down, [Direction.Down]: Direction.Up, [Direction.Left]: Direction.Right, [Direction.Right]: Direction.Left }[part.direction],
+      value: part.value,
+    };
+    const undo = createCommand(...[opposite(state.previous.traverse), opposite(state.previous.elevation)].filter((part): part is CommandPart => part !== undefined));
+    return commandKey(undo) === commandKey(command);
+  }
+
+  private apply(state: SearchState, command: DrillCommand): SearchState {
+    const traverse = state.traverse + (command.traverse ? (command.traverse.direction === Direction.Right ? 1 : -1) * command.traverse.value : 0);
+    const elevation = state.elevation + (command.elevation ? (command.elevation.direction === Direction.Up ? 1 : -1) * command.elevation.value : 0);
+    const compound = command.traverse !== undefined && command.elevation !== undefined;
+    const vertical = command.elevation !== undefined;
+    return {
+      traverse,
+      elevation,
+      remaining: state.remaining - 1,
+      compounds: compound && !this.problem.endAnywhere ? state.compounds - 1 : state.compounds,
+      spreadReached: state.spreadReached || this.traverseAxis.isSpread(traverse) || this.elevationAxis.isSpread(elevation),
+      runVertical: compound ? undefined : vertical,
+      runLength: compound ? 0 : state.runVertical === vertical ? state.runLength + 1 : 1,
+      previous: command,
+    };
+  }
+
+  /** Identifies a state by everything that affects how it can be finished. */
+  private stateKey(state: SearchState): string {
+    const { maxAxisRun, noImmediateUndo } = this.problem.constraints;
+    const run = maxAxisRun > 0 ? `${state.runVertical},${Math.min(state.runLength, maxAxisRun)}` : '';
+    const previous = noImmediateUndo && state.previous ? commandKey(state.previous) : '';
+    return `${state.traverse},${state.elevation},${state.remaining},${state.compounds},${state.spreadReached},${run},${previous}`;
+  }
+}
+
+const describeValues = (values: number[]) => values.join(', ');
+
+/**
+ * Searches for a drill, and if there is none, works out the plainest reason
+ * by checking which single setting, relaxed, would make one possible.
+ * @param problem - The drill to find.
+ * @param random - The random source that orders the search.
+ */
+export const searchDrill = (problem: DrillProblem, random: RandomSource): DrillSearchResult => {
+  const { numCommands, clickValues, start, target, endAnywhere, compoundCommands, constraints } = problem;
+  const feasible = (changes: Partial<DrillProblem>) => new DrillSearch({ ...problem, ...changes }, random).isFeasible();
+  const relaxed = (changes: Partial<DrillConstraints>) => ({ constraints: { ...constraints, ...changes } });
+
+  const search = new DrillSearch(problem, random);
+  if (!search.isFeasible()) {
+    const values = describeValues(clickValues);
+    const fromZero = isSamePosition(start, ORIGIN) && isSamePosition(target, ORIGIN);
+    const goal = fromZero ? 'return to zero' : 'get from the start to the target';
+    const basic = relaxed({ minSpread: 0, traverseBias: 0.5, maxAxisRun: 0 });
+    if (!feasible({ ...basic, compoundCommands: 0 })) {
+      const oneMore = !endAnywhere && feasible({ ...basic, compoundCommands: 0, numCommands: numCommands + 1 });
+      if (oneMore && fromZero && numCommands % 2 === 1) {
+        return { problem: `An odd number of commands cannot return to zero with click values ${values}. Use an even number of commands.`, proven: true };
+      }
+      if (oneMore) {
+        return { problem: `${numCommands} commands with click values ${values} cannot ${goal}. Use ${numCommands + 1} commands.`, proven: true };
+      }
+      return {
+        problem: endAnywhere
+          ? `Click values ${values} cannot make ${numCommands} moves within the T&E limits.`
+          : `No drill of ${numCommands} commands with click values ${values} can stay within the T&E limits and ${goal}.`,
+        proven: true,
+      };
+    }
+    if (compoundCommands > 0 && !feasible(basic)) {
+      return { problem: `${compoundCommands} compound commands out of ${numCommands} cannot ${goal} within the T&E limits. Lower the compound share.`, proven: true };
+    }
+    if (!feasible(relaxed({ minSpread: 0, maxAxisRun: 0 }))) {
+      return { problem: 'An axis bias of 0% or 100% leaves no drill within the T&E limits. Allow some moves on both axes.', proven: true };
+    }
+    if (!feasible(relaxed({ minSpread: 0 }))) {
+      return { problem: `No drill with these settings can keep to at most ${constraints.maxAxisRun} commands in a row on one axis. Raise the longest run or change the axis bias.`, proven: true };
+    }
+    return {
+      problem: `No drill of ${numCommands} commands with click values ${values} can reach ${Math.round(constraints.minSpread * 100)}% of a T&E limit. Lower the minimum spread or use more or larger click values.`,
+      proven: true,
+    };
+  }
+
+  const commands = search.run();
+  if (commands) return { commands };
+  const rules = [
+    constraints.maxAxisRun > 0 && `at most ${constraints.maxAxisRun} in a row on one axis`,
+    constraints.noImmediateUndo && 'no immediate undo',
+  ].filter(Boolean).join(' and ');
+  if (commands === null) {
+    return rules
+      ? { problem: `No drill with these settings can follow the rule${rules.includes(' and ') ? 's' : ''}: ${rules}. Relax the generator constraints.`, proven: true }
+      : { problem: 'No drill with these settings exists. Relax the generator constraints.', proven: true };
+  }
+  return {
+    problem: 'The search reached its limit before finding a drill, so one may still exist. Try another seed, relax the generator constraints or use fewer commands.',
+    proven: false,
+  };
+};
@@ -0,0 +1,228 @@
+import type { DrillConfig } from '../App';
+import { DrillCommand, TAndE } from '../types';
+import { difficultyLabel, generateDrill, parseClickValues } from './drillGenerator';
+import { encodeDrillCode } from './drillCode';
+import { formatCommand } from './commands';
+import { formatSeed } from './random';
+import { tracePath } from './scoring';
+import { toCsv } from './files';
+import { applyCadence, commandDelay, formatCadence } from './cadence';
+import { formatElevation, formatTraverse } from './weaponProfiles';
+
+/**
+ * One generated drill, ready to print for dry practice.
+ */
+export interface DrillSheet {
+  /** The drill's place among those printed, from 1. */
+  number: number;
+  seed: number;
+  /** Opens the same drill in the app. */
+  code: string;
+  config: DrillConfig;
+  commands: DrillCommand[];
+  start: TAndE;
+  target: TAndE;
+  difficulty: number;
+}
+
+export type SheetFormat = 'text' | 'json' | 'csv' | 'html';
+
+export const SHEET_FORMATS: SheetFormat[] = ['text', 'json', 'csv', 'html'];
+
+const CSV_HEADER = ['drill', 'seed', 'drillCode', 'index', 'command', 'traverse', 'elevation', 'delay'];
+
+/**
+ * Generates drills to print, one per seed counting up from the first.
+ * @param config - The drill settings; check them with `validateDrillConfig` first.
+ * @param count - The number of drills.
+ * @param firstSeed - The seed of the first drill.
+ * @returns The drill sheets.
+ * @throws If a drill cannot be generated with these settings.
+ */
+export const generateDrillSheets = (config: DrillConfig, count: number, firstSeed: number): DrillSheet[] =>
+  Array.from({ length: count }, (_, index) => {
+    const seed = (firstSeed + index) >>> 0;
+    const drill = generateDrill(config.numCommands, parseClickValues(config.clickValues), config.weaponProfile.limits, seed, {
+      endAnywhere: config.mode === 'quiz',
+      compoundRatio: config.compoundRatio,
+      constraints: config.constraints,
+      positions: config.positions,
+      distractorRate: config.distractorRate,
+      guns: config.guns,
+    });
+    if (drill.problem) {
+      throw new Error(drill.problem);
+    }
+    const positions = { start: drill.start, target: drill.target, random: false };
+    return {
+      number: index + 1,
+      seed,
+      code: encodeDrillCode({ ...config, positions }, { seed }),
+      config: { ...config, positions },
+      commands: applyCadence(drill.commands, config.cadence, config.commandInterval, seed),
+      start: drill.start,
+      target: drill.target,
+      difficulty: drill.difficulty,
+    };
+  });
+
+const formatPosition = (position: TAndE, sheet: DrillSheet) =>
+  `${formatTraverse(position.traverse, sheet.config.weaponProfile)}, ${formatElevation(position.elevation, sheet.config.weaponProfile)}`;
+
+const describeSheet = (sheet: DrillSheet): string => {
+  const { config } = sheet;
+  return `${sheet.commands.length} commands @ ${formatCadence(config.cadence, config.commandInterval)} | Click values ${config.clickValues} | ` +
+    `${config.weaponProfile.name} | Difficulty ${sheet.difficulty} / 100 (${difficultyLabel(sheet.difficulty)})`;
+};
+
+// A quiz ends anywhere, so there is no target to shift to; the trainee calls the final setting instead.
+const describeGoal = (sheet: DrillSheet): string => sheet.config.mode === 'quiz'
+  ? `Start ${formatPosition(sheet.start, sheet)}. Call the final setting at the end.`
+  : `Start ${formatPosition(sheet.start, sheet)}. Finish on ${formatPosition(sheet.target, sheet)}.`;
+
+const sheetToText = (sheet: DrillSheet, total: number): string => {
+  const profile = sheet.config.weaponProfile;
+  const commands = sheet.commands.map(command => formatCommand(command, profile));
+  const width = Math.max('COMMAND'.length, ...commands.map(c => c.length)) + 2;
+  const row = (index: string, command: string, last: string) => `${index.padStart(3)}  ${command.padEnd(width)}${last}`;
+  const path = tracePath(sheet.commands, sheet.start);
+
+  return [
+    `SNAKE DRILL ${sheet.number} / ${total}`,
+    `Seed ${formatSeed(sheet.seed)} | Code ${sheet.code}`,
+    describeSheet(sheet),
+    describeGoal(sheet),
+    '',
+    row('#', 'COMMAND', 'YOUR T&E'),
+    ...commands.map((command, index) => row(String(index + 1), command, '____________________')),
+    ...(sheet.config.mode === 'quiz' ? ['', 'FINAL SETTING: ____________________'] : []),
+    '',
+    'ANSWER KEY',
+    row('#', 'COMMAND', 'T&E AFTER'),
+    ...commands.map((command, index) => row(String(index + 1), command, formatPosition(path[index], sheet))),
+  ].join('\n');
+};
+
+/**
+ * Lays drills out as plain text: each command numbered with a blank to write
+ * the running T&E in, then an answer key.
+ */
+export const sheetsToText = (sheets: DrillSheet[]): string =>
+  sheets.map(sheet => sheetToText(sheet, sheets.length)).join(`\n\n${'='.repeat(60)}\n\n`) + '\n';
+
+/**
+ * Serializes drills with the T&E after every command, positions in clicks,
+ * and the seconds until the next command.
+ */
+export const sheetsToJson = (sheets: DrillSheet[]): string => JSON.stringify(sheets.map(sheet => {
+  const path = tracePath(sheet.commands, sheet.start);
+  return {
+    drill: sheet.number,
+    seed: formatSeed(sheet.seed),
+    drillCode: sheet.code,
+    difficulty: sheet.difficulty,
+    start: sheet.start,
+    target: sheet.config.mode === 'quiz' ? null : sheet.target,
+    commands: sheet.commands.map((command, index) => ({
+      command: formatCommand(command, sheet.config.weaponProfile),
+      after: path[index],
+      delay: commandDelay(command, sheet.config.commandInterval),
+    })),
+  };
+}), null, 2) + '\n';
+
+/**
+ * Serializes drills to CSV, one row per command with the T&E after it in
+ * clicks and the seconds until the next command.
+ */
+export const sheetsToCsv = (sheets: DrillSheet[]): string => {
+  const rows = sheets.flatMap(sheet => {
+    const path = tracePath(sheet.commands, sheet.start);
+    return sheet.commands.map((command, index) => [
+      sheet.number,
+      formatSeed(sheet.seed),
+      sheet.code,
+      index + 1,
+      formatCommand(command, sheet.config.weaponProfile),
+      path[index].traverse,
+      path[index].elevation,
+      commandDelay(command, sheet.config.commandInterval),
+    ]);
+  });
+  return toCsv([CSV_HEADER, ...rows]) + '\r\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+const SHEET_STYLES = `
+  body { font-family: ui-monospace, Menlo, Consolas, monospace; color: #111; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+  p { margin: 0.2rem 0; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+  th, td { border: 1px solid #999; padding: 0.35rem 0.6rem; text-align: left; }
+  th { background: #eee; }
+  td.blank { width: 45%; }
+  .sheet, .answer-key { page-break-after: always; }
+  .answer-key h2 { font-size: 1.1rem; }
+`;
+
+const sheetToHtml = (sheet: DrillSheet, total: number): string => {
+  const profile = sheet.config.weaponProfile;
+  const path = tracePath(sheet.commands, sheet.start);
+  const commands = sheet.commands.map(command => escapeHtml(formatCommand(command, profile)));
+  return `
+<section class="sheet">
+  <h1>Snake Drill ${sheet.number} / ${total}</h1>
+  <p>Seed ${formatSeed(sheet.seed)} &middot; Code ${escapeHtml(sheet.code)}</p>
+  <p>${escapeHtml(describeSheet(sheet))}</p>
+  <p>${escapeHtml(describeGoal(sheet))}</p>
+  <p>Name: ______________________ &nbsp; Date: ____________</p>
+  <table>
+    <thead><tr><th>#</th><th>Command</th><th>Your T&amp;E</th></tr></thead>
+    <tbody>
+${commands.map((command, index) => `      <tr><td>${index + 1}</td><td>${command}</td><td class="blank"></td></tr>`).join('\n')}
+    </tbody>
+  </table>
+  ${sheet.config.mode === 'quiz' ? '<p style="margin-top:1rem">Final setting: ______________________</p>' : ''}
+</section>
+<section class="answer-key">
+  <h2>Answer Key: Drill ${sheet.number} (Seed ${formatSeed(sheet.seed)})</h2>
+  <table>
+    <thead><tr><th>#</th><th>Command</th><th>T&amp;E After</th></tr></thead>
+    <tbody>
+${commands.map((command, index) => `      <tr><td>${index + 1}</td><td>${command}</td><td>${escapeHtml(formatPosition(path[index], sheet))}</td></tr>`).join('\n')}
+    </tbody>
+  </table>
+</section>`;
+};
+
+/**
+ * Lays drills out as a printable HTML page: each drill on its own page with a
+ * blank column for the running T&E, followed by its answer key on the next
+ * page so the key can be kept back.
+ */
+export const sheetsToHtml = (sheets: DrillSheet[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Snake Drill Sheets</title>
+<style>${SHEET_STYLES}</style>
+</head>
+<body>
+${sheets.map(sheet => sheetToHtml(sheet, sheets.length)).join('\n')}
+</body>
+</html>
+`;
+
+/**
+ * Formats drill sheets in the given format.
+ */
+export const formatDrillSheets = (sheets: DrillSheet[], format: SheetFormat): string => {
+  switch (format) {
+    case 'text': return sheetsToText(sheets);
+    case 'json': return sheetsToJson(sheets);
+    case 'csv': return sheetsToCsv(sheets);
+    case 'html': return sheetsToHtml(sheets);
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Offers text content to the user as a file download.
+ * @param filename - The suggested file name.
+ * @param content - The file contents.
+ * @param mimeType - The MIME type of the file.
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads a user-selected file as text.
+ */
+export const readTextFile = (file: File): Promise<string> => file.text();
+
+const escapeCsvCell = (cell: string | number | boolean): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV, quoting cells that need it.
+ * @param rows - The rows, header first.
+ * @returns The CSV text.
+ */
+export const toCsv = (rows: (string | number | boolean)[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/**
+ * Parses CSV text (RFC 4180 quoting) into rows of cells.
+ * @param text - The CSV text.
+ * @returns The rows, with blank lines dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
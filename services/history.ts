@@ -0,0 +1,236 @@
+import type { DrillConfig } from '../App';
+import { DrillCommand, DrillOutcome, GunOutcome, TAndE } from '../types';
+import { decodeDrillCode, encodeDrillCode } from './drillCode';
+import { formatSeed, parseSeed } from './random';
+import { isDrillPassed } from './scoring';
+import { parseCsv, toCsv } from './files';
+import { DEFAULT_CONSTRAINTS, DEFAULT_POSITIONS } from './drillGenerator';
+import { DEFAULT_CADENCE, applyCadence } from './cadence';
+import { DEFAULT_NOISE_SETTINGS } from './backgroundNoise';
+import { DEFAULT_PROFILE, normalizeProfile } from './weaponProfiles';
+import { loadList, saveList } from './storage';
+
+/**
+ * One finished drill as kept in the local session history.
+ */
+export interface SessionRecord {
+  id: string;
+  /** When the drill finished, in milliseconds since the epoch. */
+  timestamp: number;
+  config: DrillConfig;
+  commands: DrillCommand[];
+  seed?: number;
+  outcome: DrillOutcome;
+  passed: boolean;
+}
+
+const HISTORY_STORAGE_KEY = 'snakeDrill.history.v1';
+
+const CSV_HEADER = [
+  'id', 'timestamp', 'date', 'numCommands', 'clickValues', 'commandInterval', 'weaponProfile', 'mode',
+  'seed', 'finalTraverse', 'finalElevation', 'correctCommands', 'passed', 'drillCode', 'guns',
+];
+
+/**
+ * Writes each gun of a section drill as "traverse elevation passed commands correct",
+ * with the guns separated by ";", e.g. "-5 10 true 4 3;0 0 false 4 2".
+ */
+const gunsToCsvCell = (guns: GunOutcome[]): string =>
+  guns.map(gun => {
+    const final = gun.trainee ?? gun.commanded;
+    return [final.traverse, final.elevation, gun.passed, gun.commandCount, gun.correctCount ?? ''].join(' ').trim();
+  }).join(';');
+
+/**
+ * Reads the guns written by `gunsToCsvCell`. As for a one-gun drill, the final
+ * position is the trainee's in interactive mode and the commanded one otherwise.
+ */
+const gunsFromCsvCell = (cell: string, interactive: boolean, target: TAndE): GunOutcome[] =>
+  cell.split(';').map(gun => {
+    const [traverse, elevation, passed, commandCount, correctCount] = gun.trim().split(' ');
+    const final = { traverse: Number(traverse), elevation: Number(elevation) };
+    return {
+      ...(interactive ? { commanded: target, trainee: final } : { commanded: final }),
+      passed: passed === 'true',
+      commandCount: Number(commandCount),
+      ...(correctCount !== undefined && { correctCount: Number(correctCount) }),
+    };
+  });
+
+const createSessionId = (timestamp: number) => `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isSessionRecord = (value: unknown): value is SessionRecord => {
+  const record = value as SessionRecord;
+  return typeof record === 'object' && record !== null
+    && typeof record.id === 'string'
+    && typeof record.timestamp === 'number'
+    && typeof record.config === 'object'
+    && Array.isArray(record.commands)
+    && typeof record.outcome === 'object'
+    && typeof record.passed === 'boolean';
+};
+
+/**
+ * Fills in settings added since a session was recorded with their defaults,
+ * which is how the drill was run at the time.
+ */
+const withSettingDefaults = (record: SessionRecord): SessionRecord => ({
+  ...record,
+  config: {
+    ...record.config,
+    constraints: { ...DEFAULT_CONSTRAINTS, ...record.config.constraints },
+    positions: { ...DEFAULT_POSITIONS, ...record.config.positions },
+    cadence: { ...DEFAULT_CADENCE, ...record.config.cadence },
+    distractorRate: record.config.distractorRate ?? 0,
+    adaptive: record.config.adaptive ?? false,
+    guns: record.config.guns ?? 1,
+    weaponProfile: record.config.weaponProfile ? normalizeProfile(record.config.weaponProfile) : DEFAULT_PROFILE,
+    noise: { ...DEFAULT_NOISE_SETTINGS, ...record.config.noise },
+  },
+});
+
+/**
+ * Loads every stored session, oldest first.
+ */
+export const loadHistory = (): SessionRecord[] =>
+  loadList<unknown>(HISTORY_STORAGE_KEY, 'session history').filter(isSessionRecord).map(withSettingDefaults);
+
+// Storage can be full or disabled (e.g. private browsing); history is best-effort.
+const saveHistory = (records: SessionRecord[]): void => saveList(HISTORY_STORAGE_KEY, 'session history', records);
+
+/**
+ * Records a finished drill in the session history.
+ * @param config - The configuration the drill ran with.
+ * @param commands - The drill's commands.
+ * @param seed - The seed the drill was generated from, if any.
+ * @param outcome - How the drill ended.
+ * @returns The stored record.
+ */
+export const recordSession = (
+  config: DrillConfig,
+  commands: DrillCommand[],
+  seed: number | undefined,
+  outcome: DrillOutcome
+): SessionRecord => {
+  const timestamp = Date.now();
+  const record: SessionRecord = {
+    id: createSessionId(timestamp),
+    timestamp,
+    config,
+    commands,
+    seed,
+    outcome,
+    passed: isDrillPassed(outcome),
+  };
+  saveHistory([...loadHistory(), record]);
+  return record;
+};
+
+/**
+ * Deletes the whole session history.
+ */
+export const clearHistory = (): void => {
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+};
+
+/**
+ * Merges imported sessions into the stored history, skipping ones already present.
+ * @param records - The sessions to import.
+ * @returns The number of sessions added.
+ */
+export const mergeHistory = (records: SessionRecord[]): number => {
+  const existing = loadHistory();
+  const knownIds = new Set(existing.map(r => r.id));
+  const added = records.filter(r => !knownIds.has(r.id));
+  saveHistory([...existing, ...added].sort((a, b) => a.timestamp - b.timestamp));
+  return added.length;
+};
+
+export const historyToJson = (records: SessionRecord[]): string => JSON.stringify(records, null, 2);
+
+/**
+ * Serializes sessions to CSV. The drill code column carries the settings and
+ * commands so a CSV export can be imported again.
+ */
+export const historyToCsv = (records: SessionRecord[]): string => {
+  const rows = records.map(record => {
+    // Quiz answers are not exported; the final position is where the commands ended.
+    const final = record.outcome.trainee ?? record.outcome.commanded;
+    return [
+      record.id,
+      record.timestamp,
+      new Date(record.timestamp).toISOString(),
+      record.config.numCommands,
+      record.config.clickValues,
+      record.config.commandInterval,
+      record.config.weaponProfile?.name ?? '',
+      record.config.mode,
+      record.seed !== undefined ? formatSeed(record.seed) : '',
+      final.traverse,
+      final.elevation,
+      record.outcome.score ? record.outcome.score.correctCount : '',
+      record.passed,
+      encodeDrillCode(record.config, { commands: record.commands }),
+      record.outcome.guns ? gunsToCsvCell(record.outcome.guns) : '',
+    ];
+  });
+  return toCsv([CSV_HEADER, ...rows]);
+};
+
+const parseHistoryCsv = (text: string, baseConfig: DrillConfig): SessionRecord[] => {
+  const [header, ...rows] = parseCsv(text);
+  const column = (name: string) => header.indexOf(name);
+  const required = ['id', 'timestamp', 'finalTraverse', 'finalElevation', 'passed', 'drillCode'];
+  if (!header || required.some(name => column(name) < 0)) {
+    throw new Error('CSV is missing required history columns.');
+  }
+
+  return rows.map(row => {
+    const shared = decodeDrillCode(row[column('drillCode')]);
+    if (!shared?.commands) {
+      throw new Error(`Invalid drill code for session ${row[column('id')]}.`);
+    }
+    const final = { traverse: Number(row[column('finalTraverse')]), elevation: Number(row[column('finalElevation')]) };
+    const seed = parseSeed(row[column('seed')] ?? '') ?? undefined;
+    const config = { ...baseConfig, ...shared.config, seed: seed !== undefined ? formatSeed(seed) : '' };
+    const interactive = config.mode === 'interactive';
+    // Exports from before section drills have no guns column.
+    const gunsCell = column('guns') >= 0 ? row[column('guns')] ?? '' : '';
+    const guns = gunsCell ? gunsFromCsvCell(gunsCell, interactive, config.positions.target) : undefined;
+    return {
+      id: row[column('id')],
+      timestamp: Number(row[column('timestamp')]),
+      config,
+      // The drill code leaves out the delays; the cadence and seed give them again.
+      commands: applyCadence(shared.commands, config.cadence, config.commandInterval, seed),
+      seed,
+      // CSV keeps only the final position, and each gun's in a section drill, not the per-command breakdown.
+      outcome: {
+        ...(interactive
+          ? { commanded: config.positions.target, target: config.positions.target, trainee: final }
+          : { commanded: final, target: config.positions.target }),
+        ...(guns && { guns }),
+      },
+      passed: row[column('passed')] === 'true',
+    };
+  });
+};
+
+/**
+ * Parses an exported history file.
+ * @param text - The file contents, JSON or CSV.
+ * @param baseConfig - Settings to fill in for fields a CSV export does not carry.
+ * @returns The sessions in the file.
+ * @throws If the file is not a valid history export.
+ */
+export const parseHistoryFile = (text: string, baseConfig: DrillConfig): SessionRecord[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed) || !parsed.every(isSessionRecord)) {
+      throw new Error('JSON is not a session history export.');
+    }
+    return parsed.map(withSettingDefaults);
+  }
+  return parseHistoryCsv(trimmed, baseConfig);
+};
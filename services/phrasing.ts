@@ -0,0 +1,83 @@
+import { CommandPart, Direction, DrillCommand, NumberStyle, VoiceSettings, WeaponProfile } from '../types';
+import { commandParts, createCommand, directionAxis } from './commands';
+import { toDisplayValue } from './weaponProfiles';
+
+/**
+ * Placeholders a phrasing template can use:
+ * - `{direction}`: the direction word, e.g. "RIGHT".
+ * - `{dir}`: its first letter, e.g. "R".
+ * - `{value}`: the amount in the profile's display units.
+ * - `{unit}`: the unit word, "CLICKS" or "MILS".
+ * - `{mils}`: "MILS" for profiles shown in mils, otherwise nothing.
+ */
+export const PHRASING_TOKENS = ['{direction}', '{dir}', '{value}', '{unit}', '{mils}'];
+
+export const PHRASING_PRESETS: { label: string; phrasing: string }[] = [
+  { label: 'Standard (RIGHT 5)', phrasing: '{direction} {value} {mils}' },
+  { label: 'With units (RIGHT, 5 CLICKS)', phrasing: '{direction}, {value} {unit}' },
+  { label: 'Short (R 5)', phrasing: '{dir} {value}' },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceURI: '',
+  pitch: 1,
+  volume: 1,
+  phrasing: PHRASING_PRESETS[0].phrasing,
+  numberStyle: 'numerals',
+};
+
+/** The command spoken by the voice preview. */
+export const SAMPLE_COMMAND: DrillCommand = createCommand(
+  { direction: Direction.Right, value: 5 },
+  { direction: Direction.Up, value: 10 }
+);
+
+const DIGIT_WORDS = ['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE'];
+
+/**
+ * Writes a number the way it should be spoken, e.g. 10 as "10" or "ONE ZERO".
+ * @param value - The number to speak.
+ * @param style - Whole numbers or digit by digit.
+ */
+export const spokenNumber = (value: number, style: NumberStyle): string => {
+  if (style === 'numerals') return String(value);
+  return String(value)
+    .split('')
+    .map(char => char === '.' ? 'POINT' : DIGIT_WORDS[Number(char)])
+    .join(' ');
+};
+
+const phrasePart = ({ direction, value }: CommandPart, profile: WeaponProfile, voice: VoiceSettings): string =>
+  voice.phrasing
+    .replace(/\{(\w+)\}/g, (token, name: string) => {
+      switch (name) {
+        case 'direction': return direction;
+        case 'dir': return direction[0];
+        case 'value': return spokenNumber(toDisplayValue(value, profile, directionAxis(direction)), voice.numberStyle);
+        case 'unit': return profile.unit.toUpperCase();
+        case 'mils': return profile.unit === 'mils' ? 'MILS' : '';
+        default: return token;
+      }
+    })
+    // Tokens that expand to nothing must not leave stray spaces before punctuation.
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;])/g, '$1')
+    .trim();
+
+/** Spoken after a command that must not be applied. */
+export const DISREGARD_PHRASE = 'DISREGARD';
+
+/**
+ * Writes out the text spoken for a command. The parts of a compound command
+ * are separated by a pause ("RIGHT 5, UP 10"), as are the gun called in a
+ * section drill and the call before a correction ("GUN TWO, CORRECTION, RIGHT 10").
+ * @param command - The command to phrase.
+ * @param profile - The weapon profile whose units the command is spoken in.
+ * @param voice - The phrasing template and number style.
+ */
+export const phraseCommand = (command: DrillCommand, profile: WeaponProfile, voice: VoiceSettings): string => [
+  // Guns are called by number word whatever the number style, as "GUN TWO".
+  ...(command.gun ? [`GUN ${DIGIT_WORDS[command.gun]}`] : []),
+  ...(command.correction ? ['CORRECTION'] : []),
+  ...commandParts(command).map(part => phrasePart(part, profile, voice)),
+].join(', ');
@@ -0,0 +1,119 @@
+import { AudioBackend, DrillCommand, NoiseSettings, VoiceSettings, WeaponProfile } from '../types';
+import { speechPlayer } from './speech';
+import { recordedAudioPlayer } from './recordedAudio';
+import { backgroundNoise } from './backgroundNoise';
+
+/**
+ * What every playback backend provides, so the drill can voice commands
+ * without knowing which backend is active.
+ */
+export interface CommandPlayback {
+  /** Whether the browser supports this backend at all. */
+  readonly isSupported: boolean;
+  /** Reduces the latency of the first command; safe to call before any user gesture. */
+  warmUp(): void;
+  /** Prepares every distinct command in a drill for low-latency playback, spoken with the given voice settings. */
+  preload(commands: DrillCommand[], profile: WeaponProfile, voice: VoiceSettings): void;
+  /**
+   * Voices a command so that it fits within the interval.
+   * @param command - The drill command to voice.
+   * @param interval - The time in seconds the command must fit within.
+   * @param manualSpeed - Whether to use a manual speed override.
+   * @param speedMultiplier - The value for manual speed or the multiplier for automatic speed.
+   */
+  play(command: DrillCommand, interval: number, manualSpeed: boolean, speedMultiplier: number): void;
+  /**
+   * Calls "DISREGARD" on the command before it, fitted to the interval like a command.
+   * @param interval - The time in seconds the call must fit within.
+   * @param manualSpeed - Whether to use a manual speed override.
+   * @param speedMultiplier - The value for manual speed or the multiplier for automatic speed.
+   */
+  playDisregard(interval: number, manualSpeed: boolean, speedMultiplier: number): void;
+  /**
+   * Voices free text straight away, e.g. a target name called from a range card.
+   * Unlike commands it is not preloaded or fitted to an interval.
+   * @param text - What to say.
+   * @param voice - The voice settings to speak with.
+   * @throws If the backend cannot voice the text, e.g. a voice pack has no clip for one of its words.
+   */
+  playText(text: string, voice: VoiceSettings): void;
+  /** Immediately stops anything playing or queued. */
+  stop(): void;
+}
+
+const BACKENDS: Record<AudioBackend, CommandPlayback> = {
+  speech: speechPlayer,
+  recorded: recordedAudioPlayer,
+};
+
+/**
+ * Picks speech synthesis where the browser has it, and recorded clips elsewhere
+ * (e.g. kiosk browsers without a speech engine).
+ */
+export const defaultAudioBackend = (): AudioBackend => speechPlayer.isSupported ? 'speech' : 'recorded';
+
+/**
+ * Forwards playback to whichever backend is selected in the drill settings,
+ * and mixes the background noise in under it.
+ */
+class CommandPlayer implements CommandPlayback {
+  private backend: AudioBackend = 'speech';
+
+  private get active(): CommandPlayback {
+    return BACKENDS[this.backend];
+  }
+
+  public get isSupported(): boolean {
+    return this.active.isSupported;
+  }
+
+  /**
+   * Switches the backend used for every following call, silencing the previous one.
+   * @param backend - The backend to use.
+   */
+  public setBackend(backend: AudioBackend): void {
+    if (backend === this.backend) return;
+    this.active.stop();
+    this.backend = backend;
+    this.active.warmUp();
+  }
+
+  public warmUp(): void {
+    this.active.warmUp();
+  }
+
+  public preload(commands: DrillCommand[], profile: WeaponProfile, voice: VoiceSettings): void {
+    this.active.preload(commands, profile, voice);
+  }
+
+  public play(command: DrillCommand, interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    this.active.play(command, interval, manualSpeed, speedMultiplier);
+  }
+
+  public playDisregard(interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    this.active.playDisregard(interval, manualSpeed, speedMultiplier);
+  }
+
+  public playText(text: string, voice: VoiceSettings): void {
+    this.active.playText(text, voice);
+  }
+
+  /**
+   * Starts a background noise track under the commands. It keeps playing
+   * through `stop`, which only cuts off the current command, until `stopNoise`.
+   * @param noise - The track and its level against full volume.
+   */
+  public playNoise(noise: NoiseSettings): void {
+    backgroundNoise.play(noise);
+  }
+
+  public stopNoise(): void {
+    backgroundNoise.stop();
+  }
+
+  public stop(): void {
+    this.active.stop();
+  }
+}
+
+export const commandPlayer = new CommandPlayer();
@@ -0,0 +1,250 @@
+import type { DrillConfig } from '../App';
+import { DrillMode } from '../types';
+import { createId, loadList, saveList } from './storage';
+
+/**
+ * The settings a preset fixes. Voice and weapon settings belong to the device
+ * and the gun on hand, so applying a preset leaves them alone.
+ */
+export type PresetSettings = Pick<DrillConfig, 'numCommands' | 'clickValues' | 'commandInterval' | 'mode' | 'compoundRatio'>;
+
+/**
+ * A named set of drill settings.
+ */
+export interface DrillPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+}
+
+/**
+ * Several presets run back to back. The table is passed only if every stage is.
+ * Stages are copies of their presets, so a table still runs after a preset is
+ * edited or deleted, and an exported table is complete on its own.
+ */
+export interface QualificationTable {
+  id: string;
+  name: string;
+  stages: DrillPreset[];
+}
+
+/**
+ * How one stage of a qualification table went.
+ */
+export interface QualificationStageResult {
+  name: string;
+  passed: boolean;
+  drillCode: string;
+}
+
+/**
+ * The contents of an exported presets file.
+ */
+export interface PresetLibrary {
+  presets: DrillPreset[];
+  tables: QualificationTable[];
+}
+
+/**
+ * Tiers that ship with the app, from first drills to qualification speed.
+ */
+export const BUILT_IN_PRESETS: DrillPreset[] = [
+  {
+    id: 'basic',
+    name: 'Basic: 5/10 clicks @ 2s',
+    settings: { numCommands: 10, clickValues: '5, 10', commandInterval: 2, mode: 'interactive', compoundRatio: 0 },
+  },
+  {
+    id: 'intermediate',
+    name: 'Intermediate: 1–10 clicks @ 1s',
+    settings: { numCommands: 14, clickValues: '1, 2, 3, 5, 10', commandInterval: 1, mode: 'interactive', compoundRatio: 0.2 },
+  },
+  {
+    id: 'advanced',
+    name: 'Advanced: 1–15 clicks @ 0.5s',
+    settings: { numCommands: 20, clickValues: '1, 2, 3, 4, 5, 10, 15', commandInterval: 0.5, mode: 'interactive', compoundRatio: 0.3 },
+  },
+  {
+    id: 'mental-math',
+    name: 'Mental Math: 5/10/15 clicks @ 1.5s',
+    settings: { numCommands: 12, clickValues: '5, 10, 15', commandInterval: 1.5, mode: 'quiz', compoundRatio: 0.2 },
+  },
+];
+
+export const BUILT_IN_TABLES: QualificationTable[] = [
+  {
+    id: 'gunner-qualification',
+    name: 'Gunner Qualification',
+    stages: BUILT_IN_PRESETS.filter(p => p.id !== 'mental-math'),
+  },
+  {
+    id: 'full-qualification',
+    name: 'Full Qualification (with Mental Math)',
+    stages: BUILT_IN_PRESETS,
+  },
+];
+
+const PRESETS_STORAGE_KEY = 'snakeDrill.presets.v1';
+const TABLES_STORAGE_KEY = 'snakeDrill.qualificationTables.v1';
+const LAST_CONFIG_STORAGE_KEY = 'snakeDrill.lastConfig.v1';
+
+const DRILL_MODES: DrillMode[] = ['watch', 'interactive', 'quiz'];
+
+/**
+ * Finds a built-in preset by id.
+ */
+export const findBuiltInPreset = (id: string): DrillPreset | undefined => BUILT_IN_PRESETS.find(p => p.id === id);
+
+/**
+ * Copies the preset settings out of a drill configuration.
+ */
+export const presetSettingsFrom = (config: DrillConfig): PresetSettings => ({
+  numCommands: config.numCommands,
+  clickValues: config.clickValues,
+  commandInterval: config.commandInterval,
+  mode: config.mode,
+  compoundRatio: config.compoundRatio,
+});
+
+/**
+ * Whether a configuration has exactly a preset's settings.
+ */
+export const matchesPreset = (config: DrillConfig, preset: DrillPreset): boolean =>
+  (Object.keys(preset.settings) as (keyof PresetSettings)[]).every(key => config[key] === preset.settings[key]);
+
+/**
+ * Loads the user's saved presets.
+ */
+export const loadCustomPresets = (): DrillPreset[] => loadList<DrillPreset>(PRESETS_STORAGE_KEY, 'drill presets');
+
+/**
+ * Saves the current settings as a new named preset.
+ * @param name - The preset's name.
+ * @param config - The configuration to take the settings from.
+ * @returns The updated list of custom presets.
+ */
+export const saveCustomPreset = (name: string, config: DrillConfig): DrillPreset[] => {
+  const presets = [...loadCustomPresets(), { id: createId('preset'), name: name.trim(), settings: presetSettingsFrom(config) }];
+  saveList(PRESETS_STORAGE_KEY, 'drill presets', presets);
+  return presets;
+};
+
+/**
+ * Deletes a saved preset. Qualification tables keep their own copy of it.
+ * @returns The updated list of custom presets.
+ */
+export const deleteCustomPreset = (id: string): DrillPreset[] => {
+  const presets = loadCustomPresets().filter(p => p.id !== id);
+  saveList(PRESETS_STORAGE_KEY, 'drill presets', presets);
+  return presets;
+};
+
+/**
+ * Loads the user's saved qualification tables.
+ */
+export const loadCustomTables = (): QualificationTable[] => loadList<QualificationTable>(TABLES_STORAGE_KEY, 'qualification tables');
+
+/**
+ * Saves a new qualification table.
+ * @param name - The table's name.
+ * @param stages - The presets to run, in order.
+ * @returns The updated list of custom tables.
+ */
+export const saveCustomTable = (name: string, stages: DrillPreset[]): QualificationTable[] => {
+  const tables = [...loadCustomTables(), { id: createId('table'), name: name.trim(), stages }];
+  saveList(TABLES_STORAGE_KEY, 'qualification tables', tables);
+  return tables;
+};
+
+/**
+ * Deletes a saved qualification table.
+ * @returns The updated list of custom tables.
+ */
+export const deleteCustomTable = (id: string): QualificationTable[] => {
+  const tables = loadCustomTables().filter(t => t.id !== id);
+  saveList(TABLES_STORAGE_KEY, 'qualification tables', tables);
+  return tables;
+};
+
+/**
+ * Serializes presets and tables for sharing between devices.
+ */
+export const presetLibraryToJson = (library: PresetLibrary): string => JSON.stringify(library, null, 2);
+
+const isPresetSettings = (value: unknown): value is PresetSettings => {
+  const settings = value as PresetSettings;
+  return typeof settings === 'object' && settings !== null &&
+    Number.isInteger(settings.numCommands) && settings.numCommands >= 2 &&
+    typeof settings.clickValues === 'string' &&
+    typeof settings.commandInterval === 'number' && settings.commandInterval > 0 &&
+    DRILL_MODES.includes(settings.mode) &&
+    typeof settings.compoundRatio === 'number' && settings.compoundRatio >= 0 && settings.compoundRatio <= 1;
+};
+
+const isPreset = (value: unknown): value is DrillPreset => {
+  const preset = value as DrillPreset;
+  return typeof preset === 'object' && preset !== null &&
+    typeof preset.id === 'string' && typeof preset.name === 'string' && isPresetSettings(preset.settings);
+};
+
+const isTable = (value: unknown): value is QualificationTable => {
+  const table = value as QualificationTable;
+  return typeof table === 'object' && table !== null &&
+    typeof table.id === 'string' && typeof table.name === 'string' &&
+    Array.isArray(table.stages) && table.stages.length > 0 && table.stages.every(isPreset);
+};
+
+/**
+ * Parses an exported presets file.
+ * @param text - The file contents.
+ * @returns The presets and tables in the file.
+ * @throws If the file is not a valid presets export.
+ */
+export const parsePresetLibrary = (text: string): PresetLibrary => {
+  const parsed = JSON.parse(text);
+  const presets: unknown = parsed?.presets ?? [];
+  const tables: unknown = parsed?.tables ?? [];
+  if (!Array.isArray(presets) || !presets.every(isPreset) || !Array.isArray(tables) || !tables.every(isTable)) {
+    throw new Error('File is not a drill presets export.');
+  }
+  return { presets, tables };
+};
+
+/**
+ * Adds imported presets and tables to the saved ones, skipping ids already saved.
+ * @returns The number of presets and tables added.
+ */
+export const mergePresetLibrary = (library: PresetLibrary): number => {
+  const presets = loadCustomPresets();
+  const tables = loadCustomTables();
+  const newPresets = library.presets.filter(p => !findBuiltInPreset(p.id) && !presets.some(saved => saved.id === p.id));
+  const newTables = library.tables.filter(t => !BUILT_IN_TABLES.some(b => b.id === t.id) && !tables.some(saved => saved.id === t.id));
+  saveList(PRESETS_STORAGE_KEY, 'drill presets', [...presets, ...newPresets]);
+  saveList(TABLES_STORAGE_KEY, 'qualification tables', [...tables, ...newTables]);
+  return newPresets.length + newTables.length;
+};
+
+/**
+ * Loads the settings in use when the app was last closed.
+ */
+export const loadLastConfig = (): Partial<DrillConfig> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LAST_CONFIG_STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null ? stored : {};
+  } catch (error) {
+    console.error('Failed to read last drill settings:', error);
+    return {};
+  }
+};
+
+/**
+ * Stores the current settings so they survive a reload. The seed is cleared
+ * so that each visit starts with fresh drills.
+ */
+export const saveLastConfig = (config: DrillConfig): void => {
+  try {
+    localStorage.setItem(LAST_CONFIG_STORAGE_KEY, JSON.stringify({ ...config, seed: '' }));
+  } catch (error) {
+    console.error('Failed to save last drill settings:', error);
+  }
+};
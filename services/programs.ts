@@ -0,0 +1,158 @@
+import { DrillPreset, findBuiltInPreset } from './presets';
+import { loadList, saveList } from './storage';
+
+/**
+ * One stage of a training program: a preset to train on until the daily goal
+ * has been met on enough days.
+ */
+export interface ProgramStage {
+  preset: DrillPreset;
+  /** Days the daily goal must be met on to clear the stage. */
+  days: number;
+}
+
+/**
+ * A multi-day course of drills. Each stage unlocks once the one before it is cleared.
+ */
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  /** Drills a trainee must pass in one day to meet the day's goal. */
+  dailyGoal: number;
+  stages: ProgramStage[];
+}
+
+/**
+ * Drills a trainee ran on one stage on one day.
+ */
+export interface ProgramDay {
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  stageIndex: number;
+  runs: number;
+  passes: number;
+}
+
+/**
+ * One trainee's place in one program.
+ */
+export interface ProgramProgress {
+  traineeId: string;
+  programId: string;
+  /** The stage being trained on; equal to the number of stages once the program is complete. */
+  stageIndex: number;
+  days: ProgramDay[];
+}
+
+/**
+ * What a drill did to a trainee's progress.
+ */
+export interface ProgramUpdate {
+  progress: ProgramProgress;
+  /** The drill met the day's goal. */
+  goalMet: boolean;
+  /** The drill cleared its stage. */
+  stageCleared: boolean;
+}
+
+const PROGRESS_STORAGE_KEY = 'snakeDrill.programProgress.v1';
+
+const stage = (presetId: string, days: number): ProgramStage => ({ preset: findBuiltInPreset(presetId)!, days });
+
+/**
+ * Programs that ship with the app, built from the built-in presets.
+ */
+export const BUILT_IN_PROGRAMS: TrainingProgram[] = [
+  {
+    id: 'gunner-fundamentals',
+    name: 'Gunner Fundamentals (10 days)',
+    dailyGoal: 3,
+    stages: [stage('basic', 3), stage('intermediate', 4), stage('advanced', 3)],
+  },
+  {
+    id: 'qualification-workup',
+    name: 'Qualification Work-up (14 days)',
+    dailyGoal: 5,
+    stages: [stage('basic', 2), stage('intermediate', 4), stage('mental-math', 3), stage('advanced', 5)],
+  },
+];
+
+const loadAllProgress = (): ProgramProgress[] => loadList<ProgramProgress>(PROGRESS_STORAGE_KEY, 'program progress');
+
+const saveAllProgress = (progress: ProgramProgress[]): void => saveList(PROGRESS_STORAGE_KEY, 'program progress', progress);
+
+const isSameProgress = (a: ProgramProgress, traineeId: string, programId: string) =>
+  a.traineeId === traineeId && a.programId === programId;
+
+/**
+ * Today's date on this device, as YYYY-MM-DD.
+ */
+export const todayKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Finds a built-in program by id.
+ */
+export const findProgram = (id: string): TrainingProgram | undefined => BUILT_IN_PROGRAMS.find(p => p.id === id);
+
+/**
+ * Loads a trainee's progress in a program, starting it fresh if there is none.
+ */
+export const loadProgramProgress = (traineeId: string, programId: string): ProgramProgress =>
+  loadAllProgress().find(p => isSameProgress(p, traineeId, programId)) ?? { traineeId, programId, stageIndex: 0, days: [] };
+
+/**
+ * The drills run on a stage on a day, counting none if there were none.
+ */
+export const programDay = (progress: ProgramProgress, stageIndex: number, date: string = todayKey()): ProgramDay =>
+  progress.days.find(d => d.date === date && d.stageIndex === stageIndex) ?? { date, stageIndex, runs: 0, passes: 0 };
+
+/**
+ * Counts the days the daily goal was met on a stage.
+ */
+export const goalDaysMet = (program: TrainingProgram, progress: ProgramProgress, stageIndex: number): number =>
+  progress.days.filter(d => d.stageIndex === stageIndex && d.passes >= program.dailyGoal).length;
+
+/**
+ * Records a drill run on the trainee's current stage, clearing the stage once
+ * the goal has been met on its number of days.
+ * @param program - The program being trained.
+ * @param progress - The trainee's progress before the drill.
+ * @param passed - Whether the drill was passed.
+ * @param date - The day the drill was run, as YYYY-MM-DD.
+ * @returns The saved progress and what the drill achieved.
+ */
+export const recordProgramResult = (
+  program: TrainingProgram,
+  progress: ProgramProgress,
+  passed: boolean,
+  date: string = todayKey()
+): ProgramUpdate => {
+  const { stageIndex } = progress;
+  if (stageIndex >= program.stages.length) {
+    return { progress, goalMet: false, stageCleared: false };
+  }
+
+  const day = programDay(progress, stageIndex, date);
+  const updatedDay = { ...day, runs: day.runs + 1, passes: day.passes + (passed ? 1 : 0) };
+  const days = [...progress.days.filter(d => d !== day), updatedDay];
+  const goalMet = passed && updatedDay.passes === program.dailyGoal;
+
+  let updated: ProgramProgress = { ...progress, days };
+  const stageCleared = goalMet && goalDaysMet(program, updated, stageIndex) >= program.stages[stageIndex].days;
+  if (stageCleared) {
+    updated = { ...updated, stageIndex: stageIndex + 1 };
+  }
+
+  saveAllProgress([...loadAllProgress().filter(p => !isSameProgress(p, progress.traineeId, progress.programId)), updated]);
+  return { progress: updated, goalMet, stageCleared };
+};
+
+/**
+ * Starts a trainee over from the first stage of a program.
+ * @returns The fresh progress.
+ */
+export const resetProgramProgress = (traineeId: string, programId: string): ProgramProgress => {
+  saveAllProgress(loadAllProgress().filter(p => !isSameProgress(p, traineeId, programId)));
+  return { traineeId, programId, stageIndex: 0, days: [] };
+};
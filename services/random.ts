@@ -0,0 +1,43 @@
+/**
+ * A function returning a pseudo-random number in [0, 1), like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic PRNG (mulberry32) so the same seed always yields
+ * the same drill.
+ * @param seed - A 32-bit unsigned integer seed.
+ * @returns A random source seeded with `seed`.
+ */
+export const createRng = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Picks a fresh seed for a drill that has none specified.
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Seeds are shown and typed as short base-36 strings.
+ */
+export const formatSeed = (seed: number): string => seed.toString(36).toUpperCase();
+
+/**
+ * Parses a seed typed by the user or read from a drill code.
+ * @param text - The base-36 seed string.
+ * @returns The seed, or null if the text is not a valid seed.
+ */
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^[0-9a-z]{1,7}$/i.test(trimmed)) return null;
+  const seed = parseInt(trimmed, 36);
+  return seed <= 0xffffffff ? seed : null;
+};
@@ -0,0 +1,198 @@
+import { DrillCommand, TAndE, TAndELimits } from '../types';
+import { createRng, RandomSource } from './random';
+import { ORIGIN, isSamePosition, shiftCommand } from './commands';
+import { createId, loadList, saveList } from './storage';
+
+/**
+ * A named point on a range card, e.g. "TRP 1", at its T&E setting in clicks.
+ */
+export interface RangeCardTarget {
+  id: string;
+  name: string;
+  position: TAndE;
+}
+
+/**
+ * An instructor's range card: the targets a gun position can be called onto.
+ */
+export interface RangeCard {
+  id: string;
+  name: string;
+  targets: RangeCardTarget[];
+}
+
+/**
+ * A target-callout drill: targets are called by name and the trainee shifts
+ * onto each from wherever the last one left the T&E. The commands are the
+ * corrections that make each shift, so the drill runs and scores like any other.
+ */
+export interface CalloutDrill {
+  card: RangeCard;
+  /** The target called at each step, by index. */
+  names: string[];
+  /** The correction from the previous target to the called one, by index. */
+  commands: DrillCommand[];
+  /** Where the last target leaves the T&E. */
+  target: TAndE;
+}
+
+const RANGE_CARDS_STORAGE_KEY = 'snakeDrill.rangeCards.v1';
+
+/**
+ * Creates an empty, unsaved range card.
+ */
+export const createRangeCard = (): RangeCard => ({ id: createId('card'), name: '', targets: [] });
+
+/**
+ * Creates a target at a position, numbered after the card's existing targets.
+ * @param card - The card the target is for.
+ * @param position - Where the target is.
+ */
+export const createRangeCardTarget = (card: RangeCard, position: TAndE): RangeCardTarget => ({
+  id: createId('target'),
+  name: `Target ${card.targets.length + 1}`,
+  position,
+});
+
+/**
+ * Loads the saved range cards.
+ */
+export const loadRangeCards = (): RangeCard[] => loadList<RangeCard>(RANGE_CARDS_STORAGE_KEY, 'range cards');
+
+/**
+ * Saves a range card, replacing the saved card with the same id.
+ * @returns The updated list of range cards.
+ */
+export const saveRangeCard = (card: RangeCard): RangeCard[] => {
+  const saved = { ...card, name: card.name.trim() };
+  const existing = loadRangeCards();
+  const cards = existing.some(c => c.id === card.id)
+    ? existing.map(c => c.id === card.id ? saved : c)
+    : [...existing, saved];
+  saveList(RANGE_CARDS_STORAGE_KEY, 'range cards', cards);
+  return cards;
+};
+
+/**
+ * Deletes a saved range card.
+ * @returns The updated list of range cards.
+ */
+export const deleteRangeCard = (id: string): RangeCard[] => {
+  const cards = loadRangeCards().filter(c => c.id !== id);
+  saveList(RANGE_CARDS_STORAGE_KEY, 'range cards', cards);
+  return cards;
+};
+
+/**
+ * Serializes range cards for sharing between devices.
+ */
+export const rangeCardsToJson = (cards: RangeCard[]): string => JSON.stringify({ rangeCards: cards }, null, 2);
+
+const isTarget = (value: unknown): value is RangeCardTarget => {
+  const target = value as RangeCardTarget;
+  return typeof target === 'object' && target !== null &&
+    typeof target.id === 'string' && typeof target.name === 'string' &&
+    typeof target.position === 'object' && target.position !== null &&
+    Number.isInteger(target.position.traverse) && Number.isInteger(target.position.elevation);
+};
+
+const isRangeCard = (value: unknown): value is RangeCard => {
+  const card = value as RangeCard;
+  return typeof card === 'object' && card !== null &&
+    typeof card.id === 'string' && typeof card.name === 'string' &&
+    Array.isArray(card.targets) && card.targets.every(isTarget);
+};
+
+/**
+ * Parses an exported range cards file.
+ * @param text - The file contents.
+ * @returns The range cards in the file.
+ * @throws If the file is not a valid range cards export.
+ */
+export const parseRangeCards = (text: string): RangeCard[] => {
+  const cards: unknown = JSON.parse(text)?.rangeCards;
+  if (!Array.isArray(cards) || !cards.every(isRangeCard)) {
+    throw new Error('File is not a range cards export.');
+  }
+  return cards;
+};
+
+/**
+ * Adds imported range cards to the saved ones, skipping ids already saved.
+ * @returns The number of range cards added.
+ */
+export const mergeRangeCards = (cards: RangeCard[]): number => {
+  const existing = loadRangeCards();
+  const added = cards.filter(card => !existing.some(saved => saved.id === card.id));
+  saveList(RANGE_CARDS_STORAGE_KEY, 'range cards', [...existing, ...added]);
+  return added.length;
+};
+
+/**
+ * Checks that a card can be drilled on a weapon.
+ * @param card - The range card.
+ * @param limits - The weapon's T&E limits.
+ * @returns Why no callout drill can be run, or null if one can.
+ */
+export const findCalloutProblem = (card: RangeCard, limits: TAndELimits): string | null => {
+  const outside = card.targets.find(({ position }) =>
+    position.traverse < -limits.left || position.traverse > limits.right ||
+    position.elevation < -limits.down || position.elevation > limits.up);
+  if (outside) {
+    return `${outside.name} is outside the weapon's T&E limits.`;
+  }
+  const distinct = card.targets.filter((target, index) =>
+    card.targets.findIndex(other => isSamePosition(other.position, target.position)) === index);
+  if (distinct.length < 2) {
+    return 'A range card needs at least two targets at different positions.';
+  }
+  if (card.targets.some(target => target.name.trim() === '')) {
+    return 'Every target needs a name.';
+  }
+  return null;
+};
+
+const shuffle = <T>(items: T[], random: RandomSource): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Calls a card's targets in random order, starting from zero. Every target is
+ * called once before any is called again, and no call is for the position the
+ * T&E is already on.
+ * @param card - The range card; see `findCalloutProblem` for what it needs.
+ * @param count - The number of targets to call.
+ * @param seed - Optional seed; the same seed and card always call the same targets.
+ * @returns The callout drill.
+ */
+export const generateCalloutDrill = (card: RangeCard, count: number, seed?: number): CalloutDrill => {
+  const random = seed === undefined ? Math.random : createRng(seed);
+  const called: RangeCardTarget[] = [];
+  let bag: RangeCardTarget[] = [];
+  let position = ORIGIN;
+
+  while (called.length < count) {
+    if (bag.length === 0) bag = shuffle(card.targets, random);
+    // Put off a target at the current position until another has been called.
+    const index = bag.findIndex(target => !isSamePosition(target.position, position));
+    if (index < 0) {
+      bag = [];
+      continue;
+    }
+    const [next] = bag.splice(index, 1);
+    called.push(next);
+    position = next.position;
+  }
+
+  const commands = called.map((target, index) => {
+    const from = index === 0 ? ORIGIN : called[index - 1].position;
+    // Never null: consecutive calls are always at different positions.
+    return shiftCommand(from, target.position) as DrillCommand;
+  });
+  return { card, names: called.map(target => target.name.trim()), commands, target: position };
+};
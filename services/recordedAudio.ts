@@ -0,0 +1,431 @@
+import { DrillCommand, NumberStyle, VoiceSettings, WeaponProfile } from '../types';
+import { toDisplayValue } from './weaponProfiles';
+import { commandKey, commandParts, directionAxis } from './commands';
+import { readZip } from './zip';
+import type { CommandPlayback } from './playback';
+
+/**
+ * A loaded voice pack, as reported to the drill settings.
+ */
+export interface VoicePackInfo {
+  name: string;
+  /** Words a drill can need that the pack has no clip for. */
+  missingWords: string[];
+}
+
+const NUMBER_NAMES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS_NAMES = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+/**
+ * Every word a drill can be voiced with. Numbers are keyed by their digits
+ * ("5", "20"), and larger values are chained, e.g. "100 25" is spoken as
+ * "1 hundred 20 5".
+ */
+export const VOICE_PACK_WORDS = [
+  'left', 'right', 'up', 'down', 'mils', 'point', 'hundred', 'thousand',
+  ...NUMBER_NAMES.map((_, n) => String(n)),
+  ...TENS_NAMES.map((_, i) => String((i + 2) * 10)),
+];
+
+// Clip files may also be named after the spoken number ("five.wav" instead of "5.wav").
+const WORD_ALIASES: Record<string, string> = Object.fromEntries([
+  ...NUMBER_NAMES.map((name, n) => [name, String(n)]),
+  ...TENS_NAMES.map((name, i) => [name, String((i + 2) * 10)]),
+]);
+
+/** Folder of the clip set that ships with the app, relative to the page. */
+const DEFAULT_PACK_URL = 'voice/default/';
+const MANIFEST_FILE = 'manifest.json';
+const AUDIO_FILE_PATTERN = /\.(wav|mp3|ogg|oga|m4a|aac|webm|flac)$/i;
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+
+// Share of the interval the chained clips may fill when the speed is automatic, leaving a gap before the next command.
+const AUTO_FILL_FRACTION = 0.85;
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 4;
+// Pause between the parts of a compound command, in seconds at normal speed.
+const PART_GAP_S = 0.15;
+// Samples quieter than this are trimmed from the ends of each clip so chained words run together.
+const SILENCE_THRESHOLD = 0.01;
+
+/**
+ * The manifest of a voice pack: a display name and the file holding each word.
+ * Packs without one are read by file name.
+ */
+interface VoicePackManifest {
+  name?: string;
+  clips: Record<string, string>;
+}
+
+/** A clip's word and a reader for its audio file. */
+type ClipSource = [word: string, read: () => Promise<ArrayBuffer>];
+
+const integerToWords = (n: number): string[] => {
+  if (n >= 1000) {
+    const rest = n % 1000;
+    return [...integerToWords(Math.floor(n / 1000)), 'thousand', ...(rest ? integerToWords(rest) : [])];
+  }
+  if (n >= 100) {
+    const rest = n % 100;
+    return [String(Math.floor(n / 100)), 'hundred', ...(rest ? integerToWords(rest) : [])];
+  }
+  if (n >= 20) {
+    const rest = n % 10;
+    return [String(n - rest), ...(rest ? [String(rest)] : [])];
+  }
+  return [String(n)];
+};
+
+/**
+ * Splits a display value into clip words, e.g. 2.5 becomes `['2', 'point', '5']`
+ * and, digit by digit, 10 becomes `['1', '0']`.
+ */
+const numberToWords = (value: number, style: NumberStyle): string[] => {
+  const [whole, fraction] = String(value).split('.');
+  const wholeWords = style === 'digits' ? whole.split('') : integerToWords(parseInt(whole, 10));
+  return [...wholeWords, ...(fraction ? ['point', ...fraction.split('')] : [])];
+};
+
+/**
+ * Lists the words for each part of a command, e.g. `[['left', '5'], ['up', '10']]`,
+ * after `['gun', '2']` for a gun in a section drill and `['correction']` for a correction.
+ * Recordings have a fixed vocabulary, so only the number style of the phrasing applies.
+ */
+const commandWords = (command: DrillCommand, profile: WeaponProfile, style: NumberStyle): string[][] => [
+  ...(command.gun ? [['gun', String(command.gun)]] : []),
+  ...(command.correction ? [['correction']] : []),
+  ...commandParts(command).map(({ direction, value }) => [
+    direction.toLowerCase(),
+    ...numberToWords(toDisplayValue(value, profile, directionAxis(direction)), style),
+    ...(profile.unit === 'mils' ? ['mils'] : []),
+  ]),
+];
+
+/**
+ * Lists the optional words a drill's settings call for: "gun" for a section of
+ * several guns, and "disregard" and "correction" when it has distractors. A pack
+ * may leave them out, and the default pack has none of them, so they are only
+ * reported missing for a drill that uses them.
+ * @param guns - The number of guns in the section.
+ * @param distractorRate - The share of commands preceded by a distractor.
+ */
+export const drillWords = (guns: number, distractorRate: number): string[] => [
+  ...(guns > 1 ? ['gun'] : []),
+  ...(distractorRate > 0 ? ['disregard', 'correction'] : []),
+];
+
+/**
+ * Maps a clip's file name to the word it voices, e.g. `pack/Five.wav` to "5".
+ */
+const fileNameToWord = (fileName: string): string => {
+  const base = fileName.split('/').pop()!.replace(AUDIO_FILE_PATTERN, '').trim().toLowerCase();
+  return WORD_ALIASES[base] ?? base;
+};
+
+/**
+ * The recorded-audio playback backend. Each word of a voice pack is decoded
+ * into an `AudioBuffer` once, when the pack loads; a command is voiced by
+ * scheduling its word clips back to back on the Web Audio clock, which keeps
+ * latency low and the same on every browser. Speeding a command up raises its
+ * pitch, since the Web Audio API has no time-stretching.
+ */
+class RecordedAudioPlayer implements CommandPlayback {
+  public isSupported: boolean = false;
+  private context: AudioContext | null = null;
+  private clips = new Map<string, AudioBuffer>();
+  private pack: VoicePackInfo | null = null;
+  private defaultPackLoad: Promise<VoicePackInfo> | null = null;
+  private commandCache = new Map<string, AudioBuffer[][]>();
+  private preloaded: { commands: DrillCommand[]; profile: WeaponProfile; voice: VoiceSettings } | null = null;
+  private volume = 1;
+  private sources: AudioBufferSourceNode[] = [];
+
+  constructor() {
+    if (typeof window !== 'undefined' && 'AudioContext' in window) {
+      this.isSupported = true;
+      window.addEventListener('beforeunload', () => this.stop());
+    }
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  /**
+   * Cuts the silence recorders leave around a word.
+   */
+  private trimSilence(buffer: AudioBuffer): AudioBuffer {
+    const samples = buffer.getChannelData(0);
+    let start = 0;
+    while (start < samples.length && Math.abs(samples[start]) < SILENCE_THRESHOLD) start++;
+    let end = samples.length;
+    while (end > start && Math.abs(samples[end - 1]) < SILENCE_THRESHOLD) end--;
+    if (end - start === samples.length || end === start) return buffer;
+
+    const trimmed = this.getContext().createBuffer(buffer.numberOfChannels, end - start, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(buffer.getChannelData(channel).subarray(start, end), channel);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Decodes a set of clips and makes them the active voice pack. Clips for
+   * words outside the command vocabulary are kept for target callouts.
+   * @param name - The pack's display name.
+   * @param sources - Each clip's word and a reader for its file.
+   * @returns The loaded pack.
+   * @throws If none of the files could be decoded.
+   */
+  private async loadPack(name: string, sources: ClipSource[]): Promise<VoicePackInfo> {
+    const context = this.getContext();
+    const clips = new Map<string, AudioBuffer>();
+    await Promise.all(sources.map(async ([word, read]) => {
+      try {
+        clips.set(word, this.trimSilence(await context.decodeAudioData(await read())));
+      } catch (error) {
+        console.warn(`Skipping voice clip for "${word}":`, error);
+      }
+    }));
+
+    if (clips.size === 0) {
+      throw new Error('No usable clips were found. Name each clip after its word, e.g. left.wav or 5.wav.');
+    }
+
+    this.stop();
+    this.clips = clips;
+    this.pack = { name, missingWords: VOICE_PACK_WORDS.filter(word => !clips.has(word)) };
+    // A drill started before the pack finished loading picks up the new clips.
+    if (this.preloaded) {
+      this.preload(this.preloaded.commands, this.preloaded.profile, this.preloaded.voice);
+    }
+    return this.pack;
+  }
+
+  /**
+   * The active voice pack, or null until one has loaded.
+   */
+  public getPack(): VoicePackInfo | null {
+    return this.pack;
+  }
+
+  /**
+   * Lists the words a drill needs that the active pack has no clip for.
+   * @param words - The words the drill calls, e.g. from `drillWords`.
+   */
+  public missingClips(words: string[]): string[] {
+    return words.filter(word => !this.clips.has(word));
+  }
+
+  /**
+   * Loads the clip set that ships with the app, replacing any imported pack.
+   * Calls made while a load is in progress share it.
+   * @returns The default pack.
+   */
+  public loadDefaultPack(): Promise<VoicePackInfo> {
+    if (!this.defaultPackLoad) {
+      this.defaultPackLoad = (async () => {
+        const response = await fetch(DEFAULT_PACK_URL + MANIFEST_FILE);
+        if (!response.ok) {
+          throw new Error(`Default voice pack is unavailable (${response.status}).`);
+        }
+        const manifest: VoicePackManifest = await response.json();
+        const sources = Object.entries(manifest.clips).map(([word, file]): ClipSource =>
+          [word, async () => (await fetch(DEFAULT_PACK_URL + file)).arrayBuffer()]);
+        return this.loadPack(manifest.name ?? 'Default Voice', sources);
+      })();
+      this.defaultPackLoad.catch(() => {}).finally(() => { this.defaultPackLoad = null; });
+    }
+    return this.defaultPackLoad;
+  }
+
+  /**
+   * Loads an instructor's recorded voice pack: a zip archive, or a set of clip
+   * files named after their words (`left.wav`, `5.mp3`, `five.ogg`, `mils.wav`, ...).
+   * A `manifest.json` may map words to file names instead. Target names from a
+   * range card are voiced word by word from clips named after them (`bunker.wav`).
+   * @param fileList - The chosen files.
+   * @returns The loaded pack; it replaces the default until the page is reloaded.
+   * @throws If the pack holds no usable clips.
+   */
+  public async importVoicePack(fileList: File[]): Promise<VoicePackInfo> {
+    const files = new Map<string, () => Promise<ArrayBuffer>>();
+    for (const file of fileList) {
+      if (/\.zip$/i.test(file.name)) {
+        for (const entry of await readZip(await file.arrayBuffer())) {
+          files.set(entry.name, async () => entry.data.slice(0));
+        }
+      } else {
+        files.set(file.name, () => file.arrayBuffer());
+      }
+    }
+    const packName = fileList.length === 1 ? fileList[0].name.replace(/\.zip$/i, '') : 'Imported Voice';
+
+    const manifestPath = [...files.keys()].find(path => path.split('/').pop()!.toLowerCase() === MANIFEST_FILE);
+    if (!manifestPath) {
+      const sources = [...files.keys()]
+        .filter(path => AUDIO_FILE_PATTERN.test(path))
+        .map((path): ClipSource => [fileNameToWord(path), files.get(path)!]);
+      return this.loadPack(packName, sources);
+    }
+
+    // Files named in a manifest are found relative to it.
+    const manifest: VoicePackManifest = JSON.parse(new TextDecoder().decode(await files.get(manifestPath)!()));
+    const folder = manifestPath.slice(0, manifestPath.lastIndexOf('/') + 1);
+    const sources = Object.entries(manifest.clips)
+      .filter(([, file]) => files.has(folder + file))
+      .map(([word, file]): ClipSource => [fileNameToWord(word), files.get(folder + file)!]);
+    return this.loadPack(manifest.name ?? packName, sources);
+  }
+
+  /**
+   * Starts loading the default pack and resumes the audio clock. Browsers keep
+   * an `AudioContext` suspended until a user gesture, so `preload` resumes it again.
+   */
+  public warmUp(): void {
+    if (!this.isSupported) return;
+    if (!this.pack) {
+      this.loadDefaultPack().catch(error => console.error('Failed to load the default voice pack:', error));
+    }
+    this.getContext().resume().catch(() => {});
+  }
+
+  /**
+   * Looks up the clips for every distinct command in a drill. Words the pack
+   * has no clip for are left out of playback.
+   * @param commands - The drill's commands.
+   * @param profile - The weapon profile whose units the commands are spoken in.
+   * @param voice - The volume and number style to play with; the other settings are for speech synthesis.
+   */
+  public preload(commands: DrillCommand[], profile: WeaponProfile, voice: VoiceSettings): void {
+    if (!this.isSupported) return;
+    this.getContext().resume().catch(() => {});
+    this.preloaded = { commands, profile, voice };
+    this.volume = voice.volume;
+    this.commandCache.clear();
+
+    const missing = new Set<string>();
+    for (const command of commands) {
+      const key = commandKey(command);
+      if (this.commandCache.has(key)) continue;
+
+      if (command.calledOff === 'disregard' && !this.clips.has('disregard')) missing.add('disregard');
+      const parts = commandWords(command, profile, voice.numberStyle).map(words => {
+        words.filter(word => !this.clips.has(word)).forEach(word => missing.add(word));
+        return words.map(word => this.clips.get(word)).filter((clip): clip is AudioBuffer => clip !== undefined);
+      });
+      this.commandCache.set(key, parts);
+    }
+
+    if (missing.size > 0) {
+      console.warn(`Voice pack has no clips for: ${[...missing].join(', ')}. Those words are shown but not voiced.`);
+    }
+  }
+
+  /**
+   * Plays a pre-loaded command. With automatic speed the clips are sped up just
+   * enough to fit the interval; a manual speed is used as the playback rate.
+   * @param command - The drill command to voice.
+   * @param interval - The time in seconds the command must fit within.
+   * @param manualSpeed - Whether to use a manual speed override.
+   * @param speedMultiplier - The playback rate when the speed is manual.
+   */
+  public play(command: DrillCommand, interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    if (!this.isSupported) return;
+
+    const key = commandKey(command);
+    const parts = this.commandCache.get(key);
+    if (!parts) {
+      console.warn(`Command not preloaded: ${key}`);
+      return;
+    }
+    this.playParts(parts, interval, manualSpeed, speedMultiplier);
+  }
+
+  /**
+   * Plays the pack's "disregard" clip, if it has one.
+   * @param interval - The time in seconds the call must fit within.
+   * @param manualSpeed - Whether to use a manual speed override.
+   * @param speedMultiplier - The playback rate when the speed is manual.
+   */
+  public playDisregard(interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    const clip = this.clips.get('disregard');
+    if (!this.isSupported || !clip) return;
+    this.playParts([[clip]], interval, manualSpeed, speedMultiplier);
+  }
+
+  /**
+   * Plays the clips for each word of free text at normal speed, e.g. a target
+   * name from a range card. Numbers in the text are split like command values.
+   * @param text - What to say.
+   * @param voice - The volume and number style to play with.
+   * @throws If the pack has no clip for one of the words, naming them.
+   */
+  public playText(text: string, voice: VoiceSettings): void {
+    if (!this.isSupported) return;
+    const words = text.trim().toLowerCase().split(/\s+/).flatMap(word =>
+      NUMBER_PATTERN.test(word) ? numberToWords(Number(word), voice.numberStyle) : [WORD_ALIASES[word] ?? word]);
+    const missing = words.filter(word => !this.clips.has(word));
+    if (missing.length > 0) {
+      this.stop();
+      throw new Error(`The voice pack has no clip for ${[...new Set(missing)].map(word => `"${word}"`).join(', ')}, so "${text}" is not voiced.`);
+    }
+    this.volume = voice.volume;
+    this.playParts([words.map(word => this.clips.get(word)!)], 0, true, 1);
+  }
+
+  /**
+   * Schedules the clips of each part back to back, with a pause between parts.
+   */
+  private playParts(parts: AudioBuffer[][], interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    // Immediately cut off the previous command to prevent overlap.
+    this.stop();
+
+    const gaps = PART_GAP_S * (parts.length - 1);
+    const duration = parts.flat().reduce((total, clip) => total + clip.duration, gaps);
+    const rate = manualSpeed
+      ? speedMultiplier
+      : Math.max(1, duration / (interval * AUTO_FILL_FRACTION));
+    const playbackRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+
+    const context = this.getContext();
+    const gain = context.createGain();
+    gain.gain.value = this.volume;
+    gain.connect(context.destination);
+    let startAt = context.currentTime;
+    parts.forEach((clips, index) => {
+      if (index > 0) startAt += PART_GAP_S / playbackRate;
+      for (const clip of clips) {
+        const source = context.createBufferSource();
+        source.buffer = clip;
+        source.playbackRate.value = playbackRate;
+        source.connect(gain);
+        source.start(startAt);
+        startAt += clip.duration / playbackRate;
+        this.sources.push(source);
+      }
+    });
+  }
+
+  /**
+   * Immediately stops the clips of the current command.
+   */
+  public stop(): void {
+    for (const source of this.sources) {
+      try {
+        source.stop();
+      } catch {
+        // The clip had not been started or has already ended.
+      }
+    }
+    this.sources = [];
+  }
+}
+
+export const recordedAudioPlayer = new RecordedAudioPlayer();
@@ -0,0 +1,143 @@
+import { DrillMode, DrillOutcome, TAndE } from '../types';
+import { isDrillPassed } from './scoring';
+import { toCsv } from './files';
+import { createId, loadList, saveList } from './storage';
+
+/**
+ * A Marine on the instructor's roster.
+ */
+export interface Trainee {
+  id: string;
+  name: string;
+}
+
+/**
+ * How one trainee did on a squad drill.
+ */
+export interface SquadResult {
+  traineeId: string;
+  /** The trainee's name when the drill was run, kept in case they leave the roster. */
+  name: string;
+  passed: boolean;
+  /** Commands dialed correctly, in trainee input mode. */
+  correctCount?: number;
+  commandCount: number;
+  /** Where the trainee ended, or the final setting they called in a quiz. */
+  final: TAndE;
+}
+
+/**
+ * One drill run for several trainees in turn, all with the same commands.
+ */
+export interface SquadSession {
+  id: string;
+  /** When the squad drill started, in milliseconds since the epoch. */
+  timestamp: number;
+  mode: DrillMode;
+  drillCode: string;
+  results: SquadResult[];
+}
+
+const ROSTER_STORAGE_KEY = 'snakeDrill.roster.v1';
+const SQUAD_SESSIONS_STORAGE_KEY = 'snakeDrill.squadSessions.v1';
+
+const CSV_HEADER = [
+  'squadId', 'date', 'mode', 'trainee', 'passed', 'correctCommands', 'totalCommands', 'finalTraverse', 'finalElevation', 'drillCode',
+];
+
+/**
+ * Loads the roster in the order names were added.
+ */
+export const loadRoster = (): Trainee[] => loadList<Trainee>(ROSTER_STORAGE_KEY, 'roster');
+
+/**
+ * Adds a trainee to the roster.
+ * @param name - The trainee's name.
+ * @returns The updated roster.
+ */
+export const addTrainee = (name: string): Trainee[] => {
+  const roster = [...loadRoster(), { id: createId('trainee'), name: name.trim() }];
+  saveList(ROSTER_STORAGE_KEY, 'roster', roster);
+  return roster;
+};
+
+/**
+ * Removes a trainee from the roster. Their past squad results are kept.
+ * @returns The updated roster.
+ */
+export const removeTrainee = (id: string): Trainee[] => {
+  const roster = loadRoster().filter(t => t.id !== id);
+  saveList(ROSTER_STORAGE_KEY, 'roster', roster);
+  return roster;
+};
+
+/**
+ * Loads every stored squad drill, oldest first.
+ */
+export const loadSquadSessions = (): SquadSession[] => loadList<SquadSession>(SQUAD_SESSIONS_STORAGE_KEY, 'squad results');
+
+/**
+ * Starts a new squad drill with no results yet.
+ * @param mode - The drill mode every trainee runs.
+ * @param drillCode - The drill code of the shared command list.
+ */
+export const createSquadSession = (mode: DrillMode, drillCode: string): SquadSession => ({
+  id: createId('squad'),
+  timestamp: Date.now(),
+  mode,
+  drillCode,
+  results: [],
+});
+
+/**
+ * Adds a trainee's result to a squad drill and stores the drill.
+ * @param session - The squad drill.
+ * @param trainee - The trainee who just ran it.
+ * @param commandCount - The number of commands in the drill.
+ * @param outcome - How the trainee's run ended.
+ * @returns The updated squad drill.
+ */
+export const recordSquadResult = (
+  session: SquadSession,
+  trainee: Trainee,
+  commandCount: number,
+  outcome: DrillOutcome
+): SquadSession => {
+  const result: SquadResult = {
+    traineeId: trainee.id,
+    name: trainee.name,
+    passed: isDrillPassed(outcome),
+    correctCount: outcome.score?.correctCount,
+    commandCount,
+    final: outcome.quiz?.answer ?? outcome.trainee ?? outcome.commanded,
+  };
+  const updated = { ...session, results: [...session.results, result] };
+  saveList(SQUAD_SESSIONS_STORAGE_KEY, 'squad results', [...loadSquadSessions().filter(s => s.id !== session.id), updated]);
+  return updated;
+};
+
+/**
+ * Deletes every stored squad drill. The roster itself is kept.
+ */
+export const clearSquadSessions = (): void => {
+  localStorage.removeItem(SQUAD_SESSIONS_STORAGE_KEY);
+};
+
+/**
+ * Serializes squad drills to CSV for training records, one row per trainee run.
+ */
+export const squadSessionsToCsv = (sessions: SquadSession[]): string => {
+  const rows = sessions.flatMap(session => session.results.map(result => [
+    session.id,
+    new Date(session.timestamp).toISOString(),
+    session.mode,
+    result.name,
+    result.passed,
+    result.correctCount ?? '',
+    result.commandCount,
+    result.final.traverse,
+    result.final.elevation,
+    session.drillCode,
+  ]));
+  return toCsv([CSV_HEADER, ...rows]);
+};
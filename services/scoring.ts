@@ -0,0 +1,223 @@
+import { DrillCommand, TAndE, TraineeInput, CommandGrade, CommandScore, DrillScore, DrillOutcome } from '../types';
+import { ORIGIN, commandDelta, commandParts, directionToDelta, gunIndex, isSamePosition } from './commands';
+import { commandDelay } from './cadence';
+
+/**
+ * Share of the following command's interval during which the trainee may still
+ * finish dialing the previous command. Completing it there grades it as late.
+ */
+const LATE_GRACE_FRACTION = 0.5;
+
+/**
+ * Computes the T&E position after each command of a drill. In a section drill
+ * every gun starts at `start` and moves only on its own commands.
+ * @param commands - The drill commands.
+ * @param start - Where the T&E was before the first command.
+ * @returns The position of the command's gun after each command, by index.
+ */
+export const tracePath = (commands: DrillCommand[], start: TAndE = ORIGIN): TAndE[] => {
+  const positions: TAndE[] = [];
+  return commands.map(command => {
+    const gun = gunIndex(command);
+    const position = positions[gun] ?? start;
+    const delta = commandDelta(command);
+    positions[gun] = { traverse: position.traverse + delta.traverse, elevation: position.elevation + delta.elevation };
+    return positions[gun];
+  });
+};
+
+const sumInputs = (inputs: TraineeInput[]): TAndE =>
+  inputs.reduce<TAndE>((total, input) => {
+    const delta = directionToDelta(input.direction, input.clicks);
+    return { traverse: total.traverse + delta.traverse, elevation: total.elevation + delta.elevation };
+  }, { traverse: 0, elevation: 0 });
+
+/**
+ * Grades what was dialed against what was commanded, ignoring timing.
+ * A compound command is over-dialed if either axis is, and under-dialed otherwise.
+ * A command that was called off is correct if nothing is left dialed for it.
+ */
+const gradeDialed = (command: DrillCommand, dialed: TAndE): CommandGrade => {
+  const expected = commandDelta(command);
+  if (dialed.traverse === expected.traverse && dialed.elevation === expected.elevation) {
+    return 'correct';
+  }
+  if (command.calledOff) return 'over';
+  if (dialed.traverse === 0 && dialed.elevation === 0) return 'missed';
+
+  const axes = (['traverse', 'elevation'] as const).map(axis => ({ expected: expected[axis], dialed: dialed[axis] }));
+  if (axes.some(axis => axis.expected === 0 && axis.dialed !== 0)) return 'wrong-axis';
+
+  // Project the dialed clicks onto the commanded direction so dialing the wrong way counts as under.
+  return axes.some(axis => axis.expected !== 0 && axis.dialed * Math.sign(axis.expected) > Math.abs(axis.expected))
+    ? 'over'
+    : 'under';
+};
+
+/**
+ * Attributes each input to the command whose interval it was pressed in: the
+ * last command issued at or before it.
+ * @returns The inputs in each command's interval, by command index.
+ */
+const bucketInputs = (commands: DrillCommand[], issuedAt: number[], inputs: TraineeInput[]): TraineeInput[][] => {
+  const buckets: TraineeInput[][] = commands.map(() => []);
+
+  for (const input of inputs) {
+    // Find the last command issued at or before this input.
+    let index = -1;
+    for (let i = 0; i < issuedAt.length && issuedAt[i] <= input.at; i++) {
+      index = i;
+    }
+    if (index >= 0 && index < commands.length) {
+      buckets[index].push(input);
+    }
+  }
+  return buckets;
+};
+
+/**
+ * Grades some of a drill's commands from the inputs in each command's
+ * interval, carrying inputs made early in the next interval back to an
+ * under-dialed or missed command as late, and handing a correction's inputs
+ * on to the command after it.
+ * @param buckets - The inputs in each command's interval, by index; consumed.
+ * @param indices - The commands to grade, in drill order.
+ * @returns The score of each graded command, in the order of `indices`.
+ */
+const gradeCommands = (
+  commands: DrillCommand[],
+  issuedAt: number[],
+  buckets: TraineeInput[][],
+  commandInterval: number,
+  indices: number[]
+): CommandScore[] => {
+  const lateIndices = new Set<number>();
+
+  for (const i of indices) {
+    if (i >= commands.length - 1) continue;
+    const command = commands[i];
+    if (command.calledOff === 'correction') {
+      buckets[i + 1] = [...buckets[i], ...buckets[i + 1]];
+      buckets[i] = [];
+      continue;
+    }
+    const grade = gradeDialed(command, sumInputs(buckets[i]));
+    if (grade !== 'under' && grade !== 'missed') continue;
+
+    const graceEnd = issuedAt[i + 1] + commandDelay(commands[i + 1], commandInterval) * 1000 * LATE_GRACE_FRACTION;
+    const carried: TraineeInput[] = [];
+    for (const input of buckets[i + 1]) {
+      if (input.at > graceEnd || !commandParts(command).some(part => part.direction === input.direction)) break;
+      carried.push(input);
+      if (gradeDialed(command, sumInputs([...buckets[i], ...carried])) === 'correct') {
+        buckets[i] = [...buckets[i], ...carried];
+        buckets[i + 1] = buckets[i + 1].slice(carried.length);
+        lateIndices.add(i);
+        break;
+      }
+    }
+  }
+
+  return indices.map(i => {
+    const command = commands[i];
+    const dialed = sumInputs(buckets[i]);
+    const grade = gradeDialed(command, dialed);
+    return { command, dialed, grade: grade === 'correct' && lateIndices.has(i) ? 'late' : grade };
+  });
+};
+
+/**
+ * Totals command scores; the drill passes if every command was dialed, on time
+ * or late, and the T&E ended where the commands left it.
+ */
+const summarizeScores = (scores: CommandScore[], traineeFinal: TAndE, commandedFinal: TAndE): DrillScore => {
+  const correctCount = scores.filter(s => s.grade === 'correct').length;
+  const onTarget = isSamePosition(traineeFinal, commandedFinal);
+  const allDialed = scores.every(s => s.grade === 'correct' || s.grade === 'late');
+
+  return { commands: scores, correctCount, passed: onTarget && allDialed };
+};
+
+/**
+ * Scores an interactive drill command by command.
+ *
+ * Each input is attributed to the command whose interval it was pressed in.
+ * If a command was under-dialed or missed, inputs in the same direction made
+ * early in the next interval are carried back to it, and the command is graded
+ * late if that completes it exactly. A command replaced by a correction hands
+ * its inputs on to the correction, which is graded on both intervals.
+ *
+ * @param commands - The issued drill commands.
+ * @param issuedAt - `performance.now()` time each command was issued, by index.
+ * @param inputs - Every adjustment the trainee made, in order.
+ * @param commandInterval - The interval between commands in seconds, for commands without their own delay.
+ * @param traineeFinal - The trainee's final T&E position.
+ * @param commandedFinal - The position the commands ended at.
+ * @returns The per-command breakdown and overall pass/fail.
+ */
+export const scoreDrill = (
+  commands: DrillCommand[],
+  issuedAt: number[],
+  inputs: TraineeInput[],
+  commandInterval: number,
+  traineeFinal: TAndE,
+  commandedFinal: TAndE
+): DrillScore => {
+  const buckets = bucketInputs(commands, issuedAt, inputs);
+  const scores = gradeCommands(commands, issuedAt, buckets, commandInterval, commands.map((_, i) => i));
+  return summarizeScores(scores, traineeFinal, commandedFinal);
+};
+
+/**
+ * Scores a section drill gun by gun. As in `scoreDrill`, a command's interval
+ * ends when the next command is issued, whichever gun that is for; each
+ * command is graded on the inputs dialed on its own gun in its interval, and
+ * inputs dialed on a gun while another gun's command is up count for none of
+ * them unless they complete the gun's previous command within the late grace.
+ * @param commands - The issued drill commands, each for one gun.
+ * @param issuedAt - `performance.now()` time each command was issued, by index.
+ * @param inputs - Every adjustment the trainee made on any gun, in order.
+ * @param commandInterval - The interval between commands in seconds, for commands without their own delay.
+ * @param guns - Where the trainee and the commands left each gun, by gun index.
+ * @returns The score of every command in drill order, passed only if every gun
+ * passed, and each gun's own score.
+ */
+export const scoreSectionDrill = (
+  commands: DrillCommand[],
+  issuedAt: number[],
+  inputs: TraineeInput[],
+  commandInterval: number,
+  guns: { trainee: TAndE; commanded: TAndE }[]
+): { score: DrillScore; guns: DrillScore[] } => {
+  const buckets = bucketInputs(commands, issuedAt, inputs);
+  const scores: CommandScore[] = [];
+  const gunScores = guns.map(({ trainee, commanded }, gun) => {
+    const indices = commands.flatMap((command, index) => gunIndex(command) === gun ? [index] : []);
+    const gunBuckets = buckets.map(bucket => bucket.filter(input => (input.gun ?? 1) - 1 === gun));
+    const gunCommandScores = gradeCommands(commands, issuedAt, gunBuckets, commandInterval, indices);
+    indices.forEach((index, i) => { scores[index] = gunCommandScores[i]; });
+    return summarizeScores(gunCommandScores, trainee, commanded);
+  });
+
+  return {
+    score: {
+      commands: scores,
+      correctCount: gunScores.reduce((total, score) => total + score.correctCount, 0),
+      passed: gunScores.every(score => score.passed),
+    },
+    guns: gunScores,
+  };
+};
+
+/**
+ * Decides whether a finished drill counts as a pass.
+ * @param outcome - The drill outcome.
+ * @returns The quiz or scored pass/fail where there is one, otherwise whether
+ * the T&E, or every gun of a section, ended on target.
+ */
+export const isDrillPassed = (outcome: DrillOutcome): boolean => {
+  if (outcome.quiz) return outcome.quiz.correct;
+  if (outcome.score) return outcome.score.passed;
+  if (outcome.guns) return outcome.guns.every(gun => gun.passed);
+  return isSamePosition(outcome.trainee ?? outcome.commanded, outcome.target ?? ORIGIN);
+};
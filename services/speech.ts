@@ -1,23 +1,69 @@
-
-import { DrillCommand, Direction } from '../types';
+import { DrillCommand, VoiceSettings, WeaponProfile } from '../types';
+import { commandKey, commandParts, createCommand } from './commands';
+import { DISREGARD_PHRASE, phraseCommand } from './phrasing';
+import type { CommandPlayback } from './playback';
 
 /**
- * Creates a unique string key for a given command object.
- * @param command - The command to generate a key for.
- * @returns A unique string identifier.
+ * The slowest command of a drill as measured by calibration.
  */
-const commandToKey = (command: { direction: Direction; value: number }) => `${command.direction}_${command.value}`;
+export interface SpeechFit {
+  command: DrillCommand;
+  /** Speech rate the command needs to finish in time. */
+  requiredRate: number;
+  /** Shortest interval the command fits at the maximum rate, in seconds. */
+  minInterval: number;
+}
+
+const CALIBRATION_STORAGE_KEY = 'snakeDrill.speechCalibration.v1';
+/** Share of the command interval a calibrated command may take, leaving a gap before the next one. */
+export const SPEECH_FILL_FRACTION = 0.8;
+/** Fastest rate browsers accept. */
+export const MAX_SPEECH_RATE = 10;
+const MIN_SPEECH_RATE = 0.5;
+// Pause the engine makes at the comma between compound command parts, in seconds at rate 1.
+const PART_PAUSE_S = 0.25;
+// Calibration gives up on an utterance whose end event never arrives.
+const CALIBRATION_TIMEOUT_MS = 10000;
+// The call is cached with the commands, under a key no command can have.
+const DISREGARD_KEY = 'call:disregard';
+
+// Durations depend on the voice and pitch as well as the words.
+const measurementKey = (text: string, voice: VoiceSettings) => `${voice.voiceURI}|${voice.pitch}|${text}`;
+
+const loadMeasurements = (): Record<string, number> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CALIBRATION_STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null ? stored : {};
+  } catch (error) {
+    console.error('Failed to read speech calibration:', error);
+    return {};
+  }
+};
+
+const saveMeasurements = (measurements: Record<string, number>): void => {
+  try {
+    localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(measurements));
+  } catch (error) {
+    console.error('Failed to save speech calibration:', error);
+  }
+};
 
 /**
+ * The speech synthesis playback backend.
  * Manages the pre-loading, caching, and playback of speech synthesis commands.
  * This approach creates and caches all possible `SpeechSynthesisUtterance` objects
  * before a drill starts, which significantly reduces the latency of playing
  * a command compared to creating it on-the-fly. This is the key to ensuring
  * audio can keep up with rapid-fire command intervals.
  */
-class CommandPlayer {
-  private isSupported: boolean = false;
+class SpeechPlayer implements CommandPlayback {
+  public isSupported: boolean = false;
   private utteranceCache = new Map<string, SpeechSynthesisUtterance>();
+  /** Measured length of each calibrated phrase at rate 1, in seconds. */
+  private measurements: Record<string, number> = typeof localStorage !== 'undefined' ? loadMeasurements() : {};
+  /** Estimated length of each preloaded command at rate 1, where calibration allows. */
+  private durationCache = new Map<string, number>();
+  private calibrationRun = 0;
 
   constructor() {
     if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
@@ -38,29 +84,164 @@ class CommandPlayer {
   }
 
   /**
-   * Creates and caches SpeechSynthesisUtterance objects for all possible
-   * command combinations based on the provided click values.
-   * @param clickValues - An array of numbers for command values.
+   * Lists the voices the browser offers. Some browsers load them lazily, so the
+   * list can be empty until `subscribeToVoices` reports a change.
+   */
+  public getVoices(): SpeechSynthesisVoice[] {
+    return this.isSupported ? window.speechSynthesis.getVoices() : [];
+  }
+
+  /**
+   * Calls the listener whenever the browser's voice list changes.
+   * @returns A function that removes the listener.
+   */
+  public subscribeToVoices(listener: () => void): () => void {
+    if (!this.isSupported) return () => {};
+    window.speechSynthesis.addEventListener('voiceschanged', listener);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+  }
+
+  /**
+   * Creates and caches SpeechSynthesisUtterance objects for every distinct
+   * command in a drill. Compound commands become a single utterance with a
+   * pause between the parts ("LEFT 5, UP 10").
+   * @param commands - The drill's commands.
+   * @param profile - The weapon profile whose units the commands are spoken in.
+   * @param voice - The voice, pitch, volume and phrasing to speak with.
    */
-  public preload(clickValues: number[]): void {
+  public preload(commands: DrillCommand[], profile: WeaponProfile, voice: VoiceSettings): void {
     if (!this.isSupported) return;
     this.utteranceCache.clear();
-    const directions: Direction[] = [Direction.Up, Direction.Down, Direction.Left, Direction.Right];
-    
-    for (const value of clickValues) {
-      for (const direction of directions) {
-        const key = commandToKey({ direction, value });
-        const text = `${direction} ${value}`;
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.pitch = 1;
-        utterance.volume = 1;
-        this.utteranceCache.set(key, utterance);
+    this.durationCache.clear();
+    // A voice that is no longer installed falls back to the browser default.
+    const selectedVoice = this.getVoices().find(v => v.voiceURI === voice.voiceURI) ?? null;
+
+    const createUtterance = (text: string) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      if (selectedVoice) {
+        utterance.voice = selectedVoice;
+        utterance.lang = selectedVoice.lang;
+      }
+      utterance.pitch = voice.pitch;
+      utterance.volume = voice.volume;
+      return utterance;
+    };
+
+    if (commands.some(command => command.calledOff === 'disregard')) {
+      this.utteranceCache.set(DISREGARD_KEY, createUtterance(DISREGARD_PHRASE));
+    }
+    for (const command of commands) {
+      const key = commandKey(command);
+      if (this.utteranceCache.has(key)) continue;
+
+      this.utteranceCache.set(key, createUtterance(phraseCommand(command, profile, voice)));
+
+      const duration = this.estimateDuration(command, profile, voice);
+      if (duration !== undefined) {
+        this.durationCache.set(key, duration);
       }
     }
   }
 
   /**
-   * Calculates the automatic speech rate based on a fixed formula.
+   * Estimates how long a command takes to say at rate 1. A compound command
+   * that was not calibrated as a whole is estimated from its calibrated parts.
+   * @returns The duration in seconds, or undefined if it has not been calibrated.
+   */
+  private estimateDuration(command: DrillCommand, profile: WeaponProfile, voice: VoiceSettings): number | undefined {
+    const whole = this.measurements[measurementKey(phraseCommand(command, profile, voice), voice)];
+    if (whole !== undefined) return whole;
+
+    const parts = commandParts(command)
+      .map(part => this.measurements[measurementKey(phraseCommand(createCommand(part), profile, voice), voice)]);
+    if (parts.length < 2 || parts.some(duration => duration === undefined)) return undefined;
+    return parts.reduce((total, duration) => total + duration, PART_PAUSE_S * (parts.length - 1));
+  }
+
+  /**
+   * Speaks an utterance at rate 1 and times it from its start to its end event.
+   * @returns The duration in seconds, or null if the engine did not report both events.
+   */
+  private measure(utterance: SpeechSynthesisUtterance): Promise<number | null> {
+    return new Promise(resolve => {
+      let startedAt = 0;
+      let timer = 0;
+      const finish = (duration: number | null) => {
+        window.clearTimeout(timer);
+        utterance.onstart = utterance.onend = utterance.onerror = null;
+        resolve(duration);
+      };
+      timer = window.setTimeout(() => finish(null), CALIBRATION_TIMEOUT_MS);
+      utterance.onstart = () => { startedAt = performance.now(); };
+      utterance.onend = () => finish(startedAt ? (performance.now() - startedAt) / 1000 : null);
+      utterance.onerror = () => finish(null);
+      utterance.rate = 1;
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  /**
+   * Speaks each command aloud once and records how long it really takes, so
+   * `play` can give every command the rate it needs. The measurements are kept
+   * on this device for the voice and pitch they were taken with.
+   * @param commands - The commands to measure; compound commands are estimated from their parts.
+   * @param profile - The weapon profile whose units the commands are spoken in.
+   * @param voice - The voice settings to measure with.
+   * @param onProgress - Called after each command with the number measured so far.
+   * @returns The number of commands measured, fewer if calibration was stopped or an engine gave no timings.
+   */
+  public async calibrate(
+    commands: DrillCommand[],
+    profile: WeaponProfile,
+    voice: VoiceSettings,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<number> {
+    if (!this.isSupported) return 0;
+    this.preload(commands, profile, voice);
+    const run = ++this.calibrationRun;
+    const utterances = [...this.utteranceCache.values()];
+
+    let measured = 0;
+    for (const [index, utterance] of utterances.entries()) {
+      const duration = await this.measure(utterance);
+      if (run !== this.calibrationRun) break;
+      if (duration !== null) {
+        this.measurements[measurementKey(utterance.text, voice)] = duration;
+        measured++;
+      }
+      onProgress?.(index + 1, utterances.length);
+    }
+
+    saveMeasurements(this.measurements);
+    this.preload(commands, profile, voice);
+    return measured;
+  }
+
+  /**
+   * Finds the calibrated command that is hardest to fit into the interval.
+   * @param commands - The commands a drill may contain.
+   * @param profile - The weapon profile whose units the commands are spoken in.
+   * @param voice - The voice settings the drill will use.
+   * @param interval - The command interval in seconds.
+   * @returns The slowest command, or null if none has been calibrated.
+   */
+  public checkFit(commands: DrillCommand[], profile: WeaponProfile, voice: VoiceSettings, interval: number): SpeechFit | null {
+    let slowest: SpeechFit | null = null;
+    for (const command of commands) {
+      const duration = this.estimateDuration(command, profile, voice);
+      if (duration === undefined) continue;
+      const requiredRate = duration / (SPEECH_FILL_FRACTION * interval);
+      if (!slowest || requiredRate > slowest.requiredRate) {
+        slowest = { command, requiredRate, minInterval: duration / (SPEECH_FILL_FRACTION * MAX_SPEECH_RATE) };
+      }
+    }
+    return slowest;
+  }
+
+  /**
+   * Calculates the automatic speech rate based on a fixed formula. This is the
+   * fallback for commands that have not been calibrated.
    * @param interval - The command interval in seconds.
    * @returns The calculated speech rate.
    */
@@ -79,19 +260,33 @@ class CommandPlayer {
 
   /**
    * Plays a pre-loaded command, dynamically adjusting its speech rate based on user settings.
+   * A calibrated command gets the rate that finishes it within `SPEECH_FILL_FRACTION` of the interval.
    * @param command - The drill command to speak.
    * @param interval - The time in seconds the speech must fit within.
    * @param manualSpeed - Whether to use a manual speed override.
    * @param speedMultiplier - The value for manual speed or the multiplier for automatic speed.
    */
   public play(command: DrillCommand, interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    this.speak(commandKey(command), interval, manualSpeed, speedMultiplier);
+  }
+
+  /**
+   * Speaks "DISREGARD", preloaded with a drill that calls it.
+   * @param interval - The time in seconds the call must fit within.
+   * @param manualSpeed - Whether to use a manual speed override.
+   * @param speedMultiplier - The value for manual speed or the multiplier for automatic speed.
+   */
+  public playDisregard(interval: number, manualSpeed: boolean, speedMultiplier: number): void {
+    this.speak(DISREGARD_KEY, interval, manualSpeed, speedMultiplier);
+  }
+
+  private speak(key: string, interval: number, manualSpeed: boolean, speedMultiplier: number): void {
     if (!this.isSupported) return;
 
-    const key = commandToKey(command);
     const utterance = this.utteranceCache.get(key);
 
     if (!utterance) {
-      console.warn(`Command not preloaded: ${command.direction} ${command.value}`);
+      console.warn(`Command not preloaded: ${key}`);
       return;
     }
 
@@ -103,23 +298,48 @@ class CommandPlayer {
     if (manualSpeed) {
       finalRate = speedMultiplier;
     } else {
-      finalRate = this.calculateAutoSpeed(interval);
+      const duration = this.durationCache.get(key);
+      finalRate = duration !== undefined
+        ? Math.max(1, duration / (SPEECH_FILL_FRACTION * interval))
+        : this.calculateAutoSpeed(interval);
     }
 
     // Clamp the final rate to the browser's supported range (typically 0.1 to 10).
-    utterance.rate = Math.min(10, Math.max(0.5, finalRate));
+    utterance.rate = Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, finalRate));
 
     window.speechSynthesis.speak(utterance);
   }
 
+  /**
+   * Speaks free text straight away, e.g. a target name called from a range
+   * card. Unlike commands it is not preloaded or fitted to an interval.
+   * @param text - What to say.
+   * @param voice - The voice, pitch and volume to speak with.
+   */
+  public playText(text: string, voice: VoiceSettings): void {
+    if (!this.isSupported) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    const selectedVoice = this.getVoices().find(v => v.voiceURI === voice.voiceURI);
+    if (selectedVoice) {
+      utterance.voice = selectedVoice;
+      utterance.lang = selectedVoice.lang;
+    }
+    utterance.pitch = voice.pitch;
+    utterance.volume = voice.volume;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  }
+
   /**
    * Immediately stops any currently speaking or queued utterances.
    */
   public stop(): void {
+    // Stopping also abandons a calibration in progress.
+    this.calibrationRun++;
     if (this.isSupported) {
       window.speechSynthesis.cancel();
     }
   }
 }
 
-export const commandPlayer = new CommandPlayer();
+export const speechPlayer = new SpeechPlayer();
@@ -0,0 +1,35 @@
+/**
+ * Creates a unique id for a saved item, e.g. `trainee-lx3k2a-9f1c`.
+ * @param prefix - What the item is.
+ */
+export const createId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Reads a list saved in local storage.
+ * @param key - The storage key.
+ * @param label - What the list holds, for the error log, e.g. "range cards".
+ * @returns The saved items, or an empty list if there are none or they cannot be read.
+ */
+export const loadList = <T>(key: string, label: string): T[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error(`Failed to read ${label}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Replaces a list saved in local storage. A full or blocked storage is logged, not thrown.
+ * @param key - The storage key.
+ * @param label - What the list holds, for the error log.
+ * @param items - The items to save.
+ */
+export const saveList = <T>(key: string, label: string, items: T[]): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.error(`Failed to save ${label}:`, error);
+  }
+};
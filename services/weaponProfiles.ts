@@ -0,0 +1,147 @@
+import { Axis, TAndE, TAndELimits, WeaponProfile } from '../types';
+import { createId, loadList, saveList } from './storage';
+
+/**
+ * Profiles that ship with the app. The limits and click sizes are approximate
+ * training figures for the T&E mechanism on each mount; confirm against the
+ * weapon's TM. Limits are in clicks, so an axis with a finer click has more of them.
+ */
+export const BUILT_IN_PROFILES: WeaponProfile[] = [
+  {
+    id: 'training',
+    name: 'Training Grid (±25 clicks)',
+    limits: { left: 25, right: 25, up: 25, down: 25 },
+    traverseMilsPerClick: 1,
+    elevationMilsPerClick: 1,
+    unit: 'clicks',
+  },
+  {
+    id: 'm240b',
+    name: 'M240B (M122A1 Tripod)',
+    limits: { left: 100, right: 100, up: 200, down: 200 },
+    traverseMilsPerClick: 1,
+    elevationMilsPerClick: 0.5,
+    unit: 'mils',
+  },
+  {
+    id: 'm2',
+    name: 'M2 (M3 Tripod)',
+    limits: { left: 100, right: 100, up: 100, down: 200 },
+    traverseMilsPerClick: 2,
+    elevationMilsPerClick: 1,
+    unit: 'mils',
+  },
+  {
+    // Same tripod and T&E mechanism as the M2, so the same clicks; kept apart so drills name their weapon.
+    id: 'mk19',
+    name: 'Mk19 (M3 Tripod)',
+    limits: { left: 100, right: 100, up: 100, down: 200 },
+    traverseMilsPerClick: 2,
+    elevationMilsPerClick: 1,
+    unit: 'mils',
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+const CUSTOM_PROFILES_STORAGE_KEY = 'snakeDrill.weaponProfiles.v1';
+
+/**
+ * Finds a built-in profile by id.
+ */
+export const findBuiltInProfile = (id: string): WeaponProfile | undefined => BUILT_IN_PROFILES.find(p => p.id === id);
+
+/**
+ * Brings a profile saved by an earlier version up to date: a built-in profile
+ * takes its current figures, and a custom one with a single click size uses
+ * it on both axes.
+ * @param profile - The profile as stored.
+ */
+export const normalizeProfile = (profile: WeaponProfile & { milsPerClick?: number }): WeaponProfile => {
+  const builtIn = findBuiltInProfile(profile.id);
+  if (builtIn) return builtIn;
+  const { milsPerClick, ...rest } = profile;
+  return {
+    ...rest,
+    traverseMilsPerClick: profile.traverseMilsPerClick ?? milsPerClick ?? 1,
+    elevationMilsPerClick: profile.elevationMilsPerClick ?? milsPerClick ?? 1,
+  };
+};
+
+/**
+ * Loads the user's saved custom profiles.
+ */
+export const loadCustomProfiles = (): WeaponProfile[] =>
+  loadList<WeaponProfile>(CUSTOM_PROFILES_STORAGE_KEY, 'custom weapon profiles').map(normalizeProfile);
+
+const saveCustomProfiles = (profiles: WeaponProfile[]): void =>
+  saveList(CUSTOM_PROFILES_STORAGE_KEY, 'custom weapon profiles', profiles);
+
+/**
+ * Saves a custom profile, replacing any saved profile with the same id.
+ * @param profile - The profile to save.
+ * @returns The updated list of custom profiles.
+ */
+export const saveCustomProfile = (profile: WeaponProfile): WeaponProfile[] => {
+  const profiles = [...loadCustomProfiles().filter(p => p.id !== profile.id), profile];
+  saveCustomProfiles(profiles);
+  return profiles;
+};
+
+/**
+ * Deletes a saved custom profile.
+ * @returns The updated list of custom profiles.
+ */
+export const deleteCustomProfile = (id: string): WeaponProfile[] => {
+  const profiles = loadCustomProfiles().filter(p => p.id !== id);
+  saveCustomProfiles(profiles);
+  return profiles;
+};
+
+/**
+ * Creates an id for a new custom profile.
+ */
+export const createCustomProfileId = (): string => createId('custom');
+
+/**
+ * Keeps a position within the T&E limits.
+ */
+export const clampToLimits = (position: TAndE, limits: TAndELimits): TAndE => ({
+  traverse: Math.max(-limits.left, Math.min(limits.right, position.traverse)),
+  elevation: Math.max(-limits.down, Math.min(limits.up, position.elevation)),
+});
+
+/**
+ * The mils one click moves the gun on an axis.
+ */
+export const milsPerClick = (profile: WeaponProfile, axis: Axis): number =>
+  axis === 'traverse' ? profile.traverseMilsPerClick : profile.elevationMilsPerClick;
+
+/**
+ * Converts a click count on an axis into the profile's display units.
+ */
+export const toDisplayValue = (clicks: number, profile: WeaponProfile, axis: Axis): number =>
+  profile.unit === 'mils' ? Math.round(clicks * milsPerClick(profile, axis) * 100) / 100 : clicks;
+
+/**
+ * Short unit label for readouts, e.g. "MILS".
+ */
+export const unitLabel = (profile: WeaponProfile): string => profile.unit.toUpperCase();
+
+/**
+ * Converts a value on an axis in the profile's display units back into clicks.
+ */
+export const fromDisplayValue = (value: number, profile: WeaponProfile, axis: Axis): number =>
+  profile.unit === 'mils' ? Math.round(value / milsPerClick(profile, axis)) : value;
+
+/**
+ * Formats a traverse position as "L 5" or "R 5" in the profile's display units.
+ */
+export const formatTraverse = (clicks: number, profile: WeaponProfile): string =>
+  clicks >= 0 ? `R ${toDisplayValue(clicks, profile, 'traverse')}` : `L ${toDisplayValue(Math.abs(clicks), profile, 'traverse')}`;
+
+/**
+ * Formats an elevation position as "U 5" or "D 5" in the profile's display units.
+ */
+export const formatElevation = (clicks: number, profile: WeaponProfile): string =>
+  clicks >= 0 ? `U ${toDisplayValue(clicks, profile, 'elevation')}` : `D ${toDisplayValue(Math.abs(clicks), profile, 'elevation')}`;
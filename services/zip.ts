@@ -0,0 +1,83 @@
+/**
+ * One file read out of a zip archive.
+ */
+export interface ZipEntry {
+  /** Path of the file inside the archive, e.g. `voice/left.wav`. */
+  name: string;
+  data: ArrayBuffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const inflateRaw = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 64 KB, so search backwards from the end.
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+};
+
+/**
+ * Reads the files of a zip archive. Only stored and deflated entries are
+ * supported, which covers archives made by the usual desktop tools.
+ * @param buffer - The archive contents.
+ * @returns The files in the archive, skipping directories.
+ * @throws If the archive is malformed or uses an unsupported compression method.
+ */
+export const readZip = async (buffer: ArrayBuffer): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  if (end < 0) {
+    throw new Error('Not a zip archive.');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Zip central directory is corrupt.');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    // Sizes in the local header may be zero when a data descriptor follows, so they come from the central directory.
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Zip entry ${name} is corrupt.`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: compressed.slice().buffer });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflateRaw(compressed) });
+    } else {
+      throw new Error(`Zip entry ${name} uses an unsupported compression method.`);
+    }
+  }
+
+  return entries;
+};
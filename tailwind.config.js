@@ -0,0 +1,37 @@
+import colors from 'tailwindcss/colors';
+import plugin from 'tailwindcss/plugin';
+
+// Colours the themes in index.css repaint. Each shade reads a CSS variable,
+// which defaults to Tailwind's own palette.
+const THEMED_COLORS = ['gray', 'yellow', 'red', 'green', 'blue'];
+
+const toRgbChannels = (hex) => {
+  const full = hex.length === 4 ? hex.replace(/\w/g, c => c + c) : hex;
+  return [1, 3, 5].map(i => parseInt(full.slice(i, i + 2), 16)).join(' ');
+};
+
+const themedColor = (name) => Object.fromEntries(
+  Object.keys(colors[name]).map(shade => [shade, `rgb(var(--color-${name}-${shade}) / <alpha-value>)`]),
+);
+
+const defaultPalette = {
+  '--color-white': toRgbChannels(colors.white),
+  ...Object.fromEntries(THEMED_COLORS.flatMap(name =>
+    Object.entries(colors[name]).map(([shade, hex]) => [`--color-${name}-${shade}`, toRgbChannels(hex)]))),
+};
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './App.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        white: 'rgb(var(--color-white) / <alpha-value>)',
+        ...Object.fromEntries(THEMED_COLORS.map(name => [name, themedColor(name)])),
+      },
+    },
+  },
+  plugins: [
+    plugin(({ addBase }) => addBase({ ':root': defaultPalette })),
+  ],
+};
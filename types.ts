@@ -1,4 +1,3 @@
-
 export enum Direction {
   Up = 'UP',
   Down = 'DOWN',
@@ -6,9 +5,241 @@ export enum Direction {
   Right = 'RIGHT',
 }
 
-export interface DrillCommand {
+/** A single-axis move: one direction and a number of clicks. */
+export interface CommandPart {
   direction: Direction;
   value: number;
 }
 
-export type DrillState = 'configuring' | 'running' | 'finished';
+/**
+ * A fire command. It adjusts traverse, elevation, or both at once
+ * ("LEFT 5, UP 10"); at least one part is always present.
+ */
+export interface DrillCommand {
+  traverse?: CommandPart;
+  elevation?: CommandPart;
+  /**
+   * Seconds from this command to the next one, or to the end of the drill;
+   * set by the drill's cadence. Without it the drill's command interval is used.
+   */
+  delay?: number;
+  /**
+   * Set on a command that is called off before it lands, so it must not be
+   * dialed; see `DistractorCall`.
+   */
+  calledOff?: DistractorCall;
+  /** Set on a command given as "CORRECTION, ..." in place of the one before it. */
+  correction?: boolean;
+  /**
+   * The gun the command is for in a section drill, from 1; it is called
+   * first ("GUN TWO, LEFT 5"). Left out when a drill has one gun.
+   */
+  gun?: number;
+}
+
+/**
+ * How a distractor command is called off:
+ * - `disregard`: "DISREGARD" is called halfway through its delay.
+ * - `correction`: the next command is given as a correction and replaces it.
+ */
+export type DistractorCall = 'disregard' | 'correction';
+
+/**
+ * How the time between commands varies through a drill:
+ * - `fixed`: the command interval every time.
+ * - `jitter`: a random interval between the shortest and the longest.
+ * - `ramp`: the longest interval at the start, speeding up evenly to the shortest at the end.
+ * - `burst`: runs of commands at the shortest interval, each followed by a pause of the longest.
+ */
+export type CadenceKind = 'fixed' | 'jitter' | 'ramp' | 'burst';
+
+/**
+ * The timing of a drill's commands, so trainees listen for each one rather than learn a rhythm.
+ */
+export interface DrillCadence {
+  kind: CadenceKind;
+  /** Shortest interval in seconds; not used by `fixed`. */
+  minInterval: number;
+  /** Longest interval in seconds; not used by `fixed`. */
+  maxInterval: number;
+  /** Commands in each run of a `burst` cadence. */
+  burstLength: number;
+}
+
+/**
+ * Rules that shape a generated drill beyond its click values and length.
+ */
+export interface DrillConstraints {
+  /** Relative weight of each click value, in the same order as the values; blank weighs them equally. */
+  valueWeights: string;
+  /** Share (0 to 1) of single-axis moves given on the traverse axis. */
+  traverseBias: number;
+  /** Most single-axis commands in a row on the same axis; 0 for no limit. */
+  maxAxisRun: number;
+  /** Never follow a command with its exact opposite, e.g. "LEFT 5" then "RIGHT 5". */
+  noImmediateUndo: boolean;
+  /** How far (0 to 1) toward a T&E limit the path must reach at least once. */
+  minSpread: number;
+}
+
+/**
+ * Where a drill starts and where its commands must leave the T&E, like a fire
+ * mission shifting from the current hold to a new target.
+ */
+export interface DrillPositions {
+  start: TAndE;
+  target: TAndE;
+  /** Pick a new start and target within the limits for each drill instead. */
+  random: boolean;
+}
+
+export type DrillState = 'configuring' | 'running' | 'finished' | 'history' | 'roster' | 'squadSummary' | 'qualification' | 'qualificationSummary' | 'rangeCards' | 'program' | 'preview';
+
+/**
+ * How the trainee takes part in a drill:
+ * - `watch`: the commands move the grid by themselves.
+ * - `interactive`: the trainee dials each command with the keyboard and is scored.
+ * - `quiz`: the grid is hidden and the trainee calls the final setting at the end.
+ */
+export type DrillMode = 'watch' | 'interactive' | 'quiz';
+
+export interface TAndE {
+  traverse: number;
+  elevation: number;
+}
+
+/** How far the T&E can travel from center in each direction, in clicks. */
+export interface TAndELimits {
+  left: number;
+  right: number;
+  up: number;
+  down: number;
+}
+
+export type DisplayUnit = 'clicks' | 'mils';
+
+/** One of the two axes a T&E mechanism moves the gun on. */
+export type Axis = 'traverse' | 'elevation';
+
+/**
+ * A weapon/mount combination's T&E mechanism: its travel limits, the angle
+ * each click moves the gun on each axis, and the units commands and readouts
+ * are given in.
+ */
+export interface WeaponProfile {
+  id: string;
+  name: string;
+  limits: TAndELimits;
+  /** Mils one click of the traversing handwheel moves the gun. */
+  traverseMilsPerClick: number;
+  /** Mils one click of the elevating handwheel moves the gun. */
+  elevationMilsPerClick: number;
+  unit: DisplayUnit;
+}
+
+/**
+ * How commands are voiced:
+ * - `speech`: the browser's speech synthesis.
+ * - `recorded`: recorded word clips chained together with the Web Audio API.
+ */
+export type AudioBackend = 'speech' | 'recorded';
+
+/** A single adjustment dialed by the trainee in interactive mode. */
+export interface TraineeInput {
+  direction: Direction;
+  clicks: number;
+  /** `performance.now()` timestamp of the key press. */
+  at: number;
+  /** The gun dialed, in a section drill. */
+  gun?: number;
+}
+
+export type CommandGrade = 'correct' | 'late' | 'over' | 'under' | 'wrong-axis' | 'missed';
+
+export interface CommandScore {
+  command: DrillCommand;
+  /** Net traverse/elevation the trainee dialed for this command. */
+  dialed: TAndE;
+  grade: CommandGrade;
+}
+
+export interface DrillScore {
+  commands: CommandScore[];
+  correctCount: number;
+  passed: boolean;
+}
+
+export interface DrillOutcome {
+  /** Where the issued commands left the T&E. */
+  commanded: TAndE;
+  /** Where the commands had to leave the T&E; zero if not given. */
+  target?: TAndE;
+  /** Where the trainee actually dialed to (interactive mode only). */
+  trainee?: TAndE;
+  score?: DrillScore;
+  /** The trainee's called final setting (quiz mode only). */
+  quiz?: QuizAnswer;
+  /**
+   * How each gun ended, in a section drill. The single-gun fields above then
+   * describe gun 1, and the score covers every gun's commands.
+   */
+  guns?: GunOutcome[];
+}
+
+/** How one gun of a section drill ended; each gun must reach the target on its own commands. */
+export interface GunOutcome {
+  commanded: TAndE;
+  trainee?: TAndE;
+  passed: boolean;
+  /** Commands for this gun dialed correctly, in interactive mode. */
+  correctCount?: number;
+  commandCount: number;
+}
+
+export interface QuizAnswer {
+  answer: TAndE;
+  correct: boolean;
+}
+
+/**
+ * How numbers are spoken:
+ * - `numerals`: as whole numbers ("TEN").
+ * - `digits`: digit by digit ("ONE ZERO").
+ */
+export type NumberStyle = 'numerals' | 'digits';
+
+/** How commands are voiced: the speaker, and the words used for each command. */
+export interface VoiceSettings {
+  /** `voiceURI` of the speech synthesis voice; blank uses the browser default. */
+  voiceURI: string;
+  pitch: number;
+  /** From 0 (silent) to 1. */
+  volume: number;
+  /** Template for one part of a command, e.g. `{direction} {value} {mils}`. */
+  phrasing: string;
+  numberStyle: NumberStyle;
+}
+
+/** A background sound played under the commands, or `off`. */
+export type NoiseTrack = 'off' | 'gunfire' | 'engine' | 'static';
+
+export interface NoiseSettings {
+  track: NoiseTrack;
+  /** From 0 (silent) to 1. */
+  level: number;
+}
+
+/**
+ * The colour scheme of the whole app:
+ * - `standard`: gray with yellow highlights.
+ * - `night`: red on black, to keep night vision in low-light training.
+ * - `contrast`: white and bright colours on black, for glare and poor eyesight.
+ */
+export type DisplayTheme = 'standard' | 'night' | 'contrast';
+
+/** How the app is shown, kept apart from the drill settings and switchable during a drill. */
+export interface DisplaySettings {
+  theme: DisplayTheme;
+  /** Scales the command and T&E readouts to fill the screen while a drill runs. */
+  largePrint: boolean;
+}
@@ -1,9 +1,51 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Lists the files under a directory, as paths relative to it.
+const listFiles = (dir: string, prefix = ''): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const file = path.join(dir, name);
+    return statSync(file).isDirectory() ? listFiles(file, `${prefix}${name}/`) : [`${prefix}${name}`];
+  });
+
+// Writes the service worker into the build with every built and public file to precache.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'snake-drill-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256');
+      const builtFiles = Object.values(bundle)
+        .filter(file => !file.fileName.endsWith('.map'))
+        .map(file => {
+          hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+          return file.fileName;
+        });
+      const publicFiles = publicDir ? listFiles(publicDir) : [];
+      publicFiles.forEach(file => hash.update(file).update(readFileSync(path.join(publicDir, file))));
+
+      // The page itself is cached as the app's root URL, which is how it is opened.
+      const urls = ['./', ...[...builtFiles, ...publicFiles].filter(file => file !== 'index.html').sort()];
+      const template = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8');
+      const source = template
+        .replace('__CACHE_VERSION__', JSON.stringify(hash.update(template).digest('hex').slice(0, 12)))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)